@@ -0,0 +1,18 @@
+// Imported into the service worker VitePWA generates (see `importScripts` in
+// vite.config.ts). Tapping a reminder notification focuses an open Vivica
+// window and asks it to deliver the reminder, or opens one that will.
+self.addEventListener('notificationclick', (event) => {
+  const reminderId = event.notification.data && event.notification.data.reminderId;
+  if (!reminderId) return;
+  event.notification.close();
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const client = windows[0];
+    if (client) {
+      await client.focus();
+      client.postMessage({ type: 'open-reminder', reminderId });
+    } else {
+      await self.clients.openWindow(`${self.registration.scope}?reminder=${encodeURIComponent(reminderId)}`);
+    }
+  })());
+});
@@ -1,3 +1,4 @@
+import { useState, useEffect } from "react";
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
@@ -7,23 +8,42 @@ import { ThemeProvider } from "@/hooks/useTheme";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import InstallPrompt from "./components/InstallPrompt";
+import { VaultUnlock } from "./components/VaultUnlock";
+import { isVaultEnabled, isVaultUnlocked, startAutoLock } from "./utils/vault";
 
 const queryClient = new QueryClient();
 
 const AppContent = () => {
   console.log("App component rendering...");
+  const [locked, setLocked] = useState(() => isVaultEnabled() && !isVaultUnlocked());
+
+  useEffect(() => {
+    if (locked) return;
+    // Reload rather than unmount so no decrypted state survives in memory
+    const handleLocked = () => window.location.reload();
+    window.addEventListener('vaultLocked', handleLocked);
+    const stopAutoLock = startAutoLock();
+    return () => {
+      window.removeEventListener('vaultLocked', handleLocked);
+      stopAutoLock();
+    };
+  }, [locked]);
 
   return (
     <TooltipProvider>
       <Toaster />
       <Sonner />
       <InstallPrompt />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
+      {locked ? (
+        <VaultUnlock onUnlock={() => setLocked(false)} />
+      ) : (
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      )}
     </TooltipProvider>
   );
 };
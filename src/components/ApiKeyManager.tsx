@@ -0,0 +1,198 @@
+import { useState, useEffect } from 'react';
+import { Key, Plus, Trash2, RotateCcw, ArrowUp } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+import {
+  loadApiKeys,
+  saveApiKeys,
+  getKeyHealth,
+  isCoolingDown,
+  clearKeyCooldown,
+  resetKeyHealth,
+  maskKey,
+  type ApiKeyEntry,
+  type KeyHealth
+} from '@/services/keyManager';
+
+const healthLabel = (health: KeyHealth, now: number) => {
+  if (isCoolingDown(health, now)) {
+    const secs = Math.ceil((health.cooldownUntil! - now) / 1000);
+    return { text: `Cooling down (${secs}s)`, tone: 'bg-yellow-500/20 text-yellow-500' };
+  }
+  const total = health.success + health.failures;
+  if (total === 0) return { text: 'Unused', tone: 'bg-muted text-muted-foreground' };
+  const failureRate = health.failures / total;
+  if (failureRate > 0.5) return { text: 'Failing', tone: 'bg-destructive/20 text-destructive' };
+  return { text: 'Healthy', tone: 'bg-green-500/20 text-green-500' };
+};
+
+export const ApiKeyManager = () => {
+  const [keys, setKeys] = useState<ApiKeyEntry[]>([]);
+  const [newLabel, setNewLabel] = useState('');
+  const [newKey, setNewKey] = useState('');
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    setKeys(loadApiKeys());
+    // Re-render on telemetry changes and tick so cooldown countdowns move
+    const refresh = () => setNow(Date.now());
+    window.addEventListener('keyTelemetryUpdated', refresh);
+    const timer = setInterval(refresh, 5000);
+    return () => {
+      window.removeEventListener('keyTelemetryUpdated', refresh);
+      clearInterval(timer);
+    };
+  }, []);
+
+  const persist = (list: ApiKeyEntry[]) => {
+    setKeys(list);
+    saveApiKeys(list);
+  };
+
+  const handleAdd = () => {
+    const key = newKey.trim();
+    if (!key) return;
+    if (keys.some(k => k.key === key)) {
+      toast.error('That key is already in the list');
+      return;
+    }
+    persist([...keys, {
+      id: `key-${Date.now()}`,
+      label: newLabel.trim() || `Key ${keys.length + 1}`,
+      key,
+    }]);
+    setNewLabel('');
+    setNewKey('');
+    toast.success('API key added');
+  };
+
+  const handleRemove = (id: string) => {
+    persist(keys.filter(k => k.id !== id));
+    toast.success('API key removed');
+  };
+
+  const handleRename = (id: string, label: string) => {
+    persist(keys.map(k => k.id === id ? { ...k, label } : k));
+  };
+
+  const handleMoveUp = (index: number) => {
+    if (index === 0) return;
+    const list = [...keys];
+    [list[index - 1], list[index]] = [list[index], list[index - 1]];
+    persist(list);
+  };
+
+  return (
+    <div className="space-y-4 p-4 border border-border rounded-lg bg-card">
+      <div className="flex items-center gap-2">
+        <Key className="w-4 h-4" />
+        <Label className="text-sm font-semibold">OpenRouter API Keys</Label>
+      </div>
+
+      {keys.length === 0 && (
+        <p className="text-sm text-yellow-500">Add at least one key to start chatting</p>
+      )}
+
+      <div className="space-y-2">
+        {keys.map((entry, index) => {
+          const health = getKeyHealth(entry.key);
+          const status = healthLabel(health, now);
+          return (
+            <div key={entry.id} className="p-3 rounded-lg border border-border bg-background/50 space-y-2">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={entry.label}
+                  onChange={(e) => handleRename(entry.id, e.target.value)}
+                  className="h-8 flex-1"
+                />
+                <span className={`text-xs px-2 py-1 rounded whitespace-nowrap ${status.tone}`}>
+                  {status.text}
+                </span>
+              </div>
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span className="font-mono">{maskKey(entry.key)}</span>
+                <span>
+                  {health.success} ok · {health.failures} failed
+                </span>
+              </div>
+              {health.lastError && (
+                <p className="text-xs text-muted-foreground truncate" title={health.lastError}>
+                  Last error: {health.lastError}
+                </p>
+              )}
+              <div className="flex gap-1 justify-end">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Move up"
+                  disabled={index === 0}
+                  onClick={() => handleMoveUp(index)}
+                  className="h-7 w-7 p-0"
+                >
+                  <ArrowUp className="w-3 h-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title={isCoolingDown(health, now) ? 'End cooldown' : 'Reset stats'}
+                  onClick={() =>
+                    isCoolingDown(health, now) ? clearKeyCooldown(entry.key) : resetKeyHealth(entry.key)
+                  }
+                  className="h-7 w-7 p-0"
+                >
+                  <RotateCcw className="w-3 h-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Remove key"
+                  onClick={() => handleRemove(entry.id)}
+                  className="h-7 w-7 p-0 text-destructive hover:text-destructive"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex gap-2">
+          <Input
+            value={newLabel}
+            onChange={(e) => setNewLabel(e.target.value)}
+            placeholder="Label"
+            className="w-1/3"
+          />
+          <Input
+            type="password"
+            value={newKey}
+            onChange={(e) => setNewKey(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            placeholder="sk-or-v1-..."
+            className="flex-1"
+          />
+        </div>
+        <Button onClick={handleAdd} size="sm" className="w-full" disabled={!newKey.trim()}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Key
+        </Button>
+
+        <p className="text-xs text-muted-foreground">
+          Keys are stored locally and never sent to our servers. Get keys from{' '}
+          <a
+            href="https://openrouter.ai/keys"
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-primary hover:underline"
+          >
+            OpenRouter
+          </a>
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import { useState, useEffect } from "react";
+import { AlertTriangle, Upload } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { toast } from "sonner";
+import {
+  previewRestore,
+  restoreBackup,
+  type BackupFile,
+  type RestoreMode,
+  type RestorePreview
+} from "@/utils/backup";
+
+interface BackupRestoreDialogProps {
+  backup: BackupFile | null;
+  onClose: () => void;
+}
+
+const STORE_LABELS: Record<string, string> = {
+  memories: 'Memories',
+  welcomeMessages: 'Welcome messages',
+  conversations: 'Conversations',
+  messages: 'Messages',
+  attachments: 'Attachments',
+  documents: 'Documents',
+  documentChunks: 'Document passages',
+  reminders: 'Reminders',
+  usageLog: 'Spend history',
+};
+
+export const BackupRestoreDialog = ({ backup, onClose }: BackupRestoreDialogProps) => {
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [preview, setPreview] = useState<RestorePreview | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!backup) return;
+    setPreview(null);
+    previewRestore(backup, mode)
+      .then(setPreview)
+      .catch(e => {
+        console.error('Failed to preview backup:', e);
+        toast.error("Couldn't read the current data to compare");
+      });
+  }, [backup, mode]);
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    setRestoring(true);
+    try {
+      await restoreBackup(backup, mode);
+      toast.success("Backup restored");
+      window.location.reload();
+    } catch (error) {
+      console.error('Failed to restore backup:', error);
+      toast.error("Failed to restore backup");
+      setRestoring(false);
+    }
+  };
+
+  const changed = preview?.settings.filter(s => s.change === 'overwrite' || s.change === 'remove') || [];
+  const added = preview?.settings.filter(s => s.change === 'new') || [];
+
+  return (
+    <Dialog open={!!backup} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[500px] bg-card border-border max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Upload className="w-5 h-5" />
+            Restore Backup
+          </DialogTitle>
+        </DialogHeader>
+
+        {backup && (
+          <div className="space-y-6 py-2">
+            <p className="text-sm text-muted-foreground">
+              Created {new Date(backup.createdAt).toLocaleString()}
+              {!backup.includesSecrets && ' · API keys not included, yours are kept'}
+            </p>
+
+            <RadioGroup value={mode} onValueChange={(value: RestoreMode) => setMode(value)} className="space-y-2">
+              <div className="flex items-start gap-2">
+                <RadioGroupItem value="merge" id="restore-merge" className="mt-1" />
+                <Label htmlFor="restore-merge" className="font-normal">
+                  <span className="font-semibold">Merge</span> – add the backup to what's here; backup wins on conflicts
+                </Label>
+              </div>
+              <div className="flex items-start gap-2">
+                <RadioGroupItem value="replace" id="restore-replace" className="mt-1" />
+                <Label htmlFor="restore-replace" className="font-normal">
+                  <span className="font-semibold">Replace</span> – make the app match the backup exactly
+                </Label>
+              </div>
+            </RadioGroup>
+
+            {!preview ? (
+              <p className="text-sm text-muted-foreground">Comparing with current data…</p>
+            ) : (
+              <div className="space-y-4 text-sm">
+                <div className="space-y-1">
+                  <Label className="font-semibold">Data</Label>
+                  {preview.stores.map(store => (
+                    <div key={store.name} className="flex justify-between">
+                      <span>{STORE_LABELS[store.name] || store.name}</span>
+                      <span className="text-muted-foreground">
+                        +{store.added} new · {store.overwritten} overwritten
+                        {mode === 'replace' && ` · ${store.removed} removed`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="space-y-1">
+                  <Label className="font-semibold">Settings</Label>
+                  <p className="text-muted-foreground">
+                    {added.length} new · {changed.length} changed or removed
+                  </p>
+                  {changed.length > 0 && (
+                    <ul className="text-xs text-muted-foreground font-mono space-y-0.5">
+                      {changed.map(s => (
+                        <li key={s.key}>
+                          {s.change === 'remove' ? '−' : '~'} {s.key}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+
+                {mode === 'replace' && (
+                  <p className="flex items-center gap-2 text-destructive">
+                    <AlertTriangle className="w-4 h-4" />
+                    Anything not in the backup will be deleted, including the memory tidy-up history.
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="flex gap-3">
+              <Button variant="outline" onClick={onClose} className="flex-1">
+                Cancel
+              </Button>
+              <Button
+                onClick={handleRestore}
+                disabled={!preview || restoring}
+                className="flex-1 bg-accent hover:bg-accent/90"
+              >
+                {restoring ? 'Restoring…' : 'Restore'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -2,8 +2,12 @@
 import { forwardRef, useEffect, useRef, useState, useCallback } from "react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
-import { RotateCcw, Copy, Pencil } from "lucide-react";
+import { RotateCcw, Copy, Pencil, ChevronLeft, ChevronRight } from "lucide-react";
 import { CodeBlock } from "./CodeBlock";
+import { ComparePanel, type ComparePanelProps } from "./ComparePanel";
+import { ToolSteps } from "./ToolSteps";
+import { MessageAttachments } from "./MessageAttachments";
+import { CitationMarker, SourceList } from "./Citations";
 import { Button } from "@/components/ui/button";
 import { FaUser, FaRobot } from "react-icons/fa";
 import { useTheme } from "@/hooks/useTheme";
@@ -11,26 +15,20 @@ import { toast } from "sonner";
 import { WeatherWidget } from "@/components/WeatherWidget";
 import { RSSWidget } from "@/components/RSSWidget";
 import { ChatService, ChatMessage } from "@/services/chatService";
+import { usesOpenRouter, type ProviderSettings } from "@/services/providers";
 import { Storage } from "@/utils/storage";
+import { secureStorage } from "@/utils/vault";
 import { saveWelcomeMessage } from "@/utils/indexedDb";
-
-const getUserName = () => {
-  try {
-    const profileId = localStorage.getItem('vivica-current-profile') || '';
-    const profileMem = profileId
-      ? JSON.parse(localStorage.getItem(`vivica-memory-profile-${profileId}`) || 'null')
-      : null;
-    const globalMem = JSON.parse(localStorage.getItem('vivica-memory-global') || 'null');
-    const mem = profileMem || globalMem || {};
-    return mem.identity?.name || 'User';
-  } catch {
-    return 'User';
-  }
-};
+import type { BranchPosition } from "@/utils/messageTree";
+import { sumUsage, formatCost, formatTokens, type MessageUsage } from "@/utils/usageUtils";
+import type { ToolStep } from "@/services/toolRegistry";
+import type { AttachmentMeta } from "@/utils/attachments";
+import { linkCitations, citedSources, type Citation } from "@/services/documentService";
+import { getUserName } from "@/utils/memoryUtils";
 
 const getProfileName = (id?: string) => {
   try {
-    const list: { id: string; name: string }[] = JSON.parse(localStorage.getItem('vivica-profiles') || '[]');
+    const list: { id: string; name: string }[] = JSON.parse(secureStorage.getItem('vivica-profiles') || '[]');
     const pid = id || localStorage.getItem('vivica-current-profile');
     return list.find((p) => p.id === pid)?.name || 'Vivica';
   } catch {
@@ -44,7 +42,16 @@ interface Message {
   role: 'user' | 'assistant';
   timestamp: Date;
   failed?: boolean;
+  stopped?: boolean;
   isCodeResponse?: boolean;
+  profileId?: string;
+  /** Code-model output shown above the persona's explanation */
+  codeContent?: string;
+  codeModel?: string;
+  usage?: MessageUsage[];
+  toolSteps?: ToolStep[];
+  attachments?: AttachmentMeta[];
+  citations?: Citation[];
 }
 
 interface Conversation {
@@ -55,9 +62,28 @@ interface Conversation {
   timestamp: Date;
   /** True if the title was generated by Vivica */
   autoTitled?: boolean;
+  branches?: Message[];
 }
 
-interface ProfileBrief {
+/** Tokens and spend of a set of usage entries, e.g. "1.2k tokens · $0.0031" */
+const UsageLabel = ({ usage, prefix }: { usage: MessageUsage[]; prefix?: string }) => {
+  const totals = sumUsage(usage);
+  const models = [...new Set(usage.map(u => u.model).filter(Boolean))].join(', ');
+  const title = [
+    `${totals.promptTokens} prompt + ${totals.completionTokens} completion tokens`,
+    models,
+    totals.estimated && 'some counts estimated',
+    totals.unpriced && 'price unknown for some models',
+  ].filter(Boolean).join(' · ');
+  return (
+    <span title={title}>
+      {prefix}{totals.estimated ? '~' : ''}{formatTokens(totals.promptTokens + totals.completionTokens)} tokens
+      {totals.cost > 0 && ` · ${formatCost(totals.cost)}${totals.unpriced ? '+' : ''}`}
+    </span>
+  );
+};
+
+interface ProfileBrief extends ProviderSettings {
   isVivica?: boolean;
   model: string;
   systemPrompt: string;
@@ -67,15 +93,27 @@ interface ProfileBrief {
 interface ChatBodyProps {
   conversation: Conversation | null;
   isTyping: boolean;
+  /** Oldest messages left out of the last request to fit the context window */
+  omittedCount?: number;
+  /** Oldest messages replaced by the conversation's rolling summary */
+  summarizedCount?: number;
+  /** Message to scroll into view, e.g. a search result */
+  highlightMessageId?: string | null;
+  onHighlightShown?: () => void;
   onRetryMessage?: (messageId: string) => void;
   onRegenerateMessage?: (messageId: string) => void;
   onEditMessage?: (message: Message) => void;
+  /** Sibling position of messages that have alternative versions */
+  branchPositions?: Record<string, BranchPosition>;
+  onSwitchBranch?: (messageId: string, offset: number) => void;
+  /** Shown in place of the conversation while compare mode is on */
+  compare?: ComparePanelProps;
   onSendMessage: (content: string) => void;
   onNewChat: () => void;
 }
 
 export const ChatBody = forwardRef<HTMLDivElement, ChatBodyProps>(
-  ({ conversation, isTyping, onRetryMessage, onRegenerateMessage, onEditMessage, onSendMessage, onNewChat }, ref) => {
+  ({ conversation, isTyping, omittedCount = 0, summarizedCount = 0, highlightMessageId, onHighlightShown, onRetryMessage, onRegenerateMessage, onEditMessage, branchPositions = {}, onSwitchBranch, compare, onSendMessage, onNewChat }, ref) => {
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const { color, variant } = useTheme();
     const logoSrc = `/logo-${color}${variant}.png`;
@@ -83,6 +121,9 @@ export const ChatBody = forwardRef<HTMLDivElement, ChatBodyProps>(
     const [welcomeError, setWelcomeError] = useState(false);
     const [animateWelcome, setAnimateWelcome] = useState(false);
     const lastWelcomeRef = useRef('');
+    const [flashId, setFlashId] = useState<string | null>(null);
+    // Name from the Memory form, shown under the user's messages
+    const [userName, setUserName] = useState('User');
 
     const fetchWelcome = useCallback(async () => {
       if (!conversation || conversation.messages.length) return;
@@ -90,14 +131,14 @@ export const ChatBody = forwardRef<HTMLDivElement, ChatBodyProps>(
       setWelcomeError(false);
 
       const getFresh = async () => {
-        const raw = localStorage.getItem('vivica-profiles') || '[]';
+        const raw = secureStorage.getItem('vivica-profiles') || '[]';
         const profiles = JSON.parse(raw) as ProfileBrief[];
         const vivica = profiles.find(p => p.isVivica) || Storage.createVivicaProfile();
 
-        const apiKey = localStorage.getItem('openrouter-api-key');
-        if (!apiKey) throw new Error('missing api key');
+        const apiKey = secureStorage.getItem('openrouter-api-key') || '';
+        if (!apiKey && usesOpenRouter(vivica)) throw new Error('missing api key');
 
-        const chatService = new ChatService(apiKey);
+        const chatService = new ChatService(apiKey, vivica);
         const systemPrompt = vivica.systemPrompt;
         const prompt = `${systemPrompt}\n\nVivica, write a short, snarky, surprising welcome message (max 120 characters). Speak in your own voice. Never mention AI or 'assistant.' Only return the message text—no extra formatting, no meta statements, no greetings like 'Welcome.' Do not repeat the previous message.`;
 
@@ -108,8 +149,7 @@ export const ChatBody = forwardRef<HTMLDivElement, ChatBodyProps>(
           temperature: vivica.temperature,
           max_tokens: 60,
         });
-        const data = await res.json();
-        return data.choices?.[0]?.message?.content?.trim();
+        return chatService.readMessage(res);
       };
 
       try {
@@ -153,6 +193,39 @@ export const ChatBody = forwardRef<HTMLDivElement, ChatBodyProps>(
       if (atBottom) scrollToBottom();
     }, [conversation?.messages, isTyping]);
 
+    // Jump to a requested message once its conversation has loaded
+    useEffect(() => {
+      if (!highlightMessageId) return;
+      if (!conversation?.messages.some(m => m.id === highlightMessageId)) return;
+      document
+        .getElementById(`message-${highlightMessageId}`)
+        ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      setFlashId(highlightMessageId);
+      onHighlightShown?.();
+    }, [highlightMessageId, conversation?.messages, onHighlightShown]);
+
+    useEffect(() => {
+      if (!flashId) return;
+      const timer = setTimeout(() => setFlashId(null), 2000);
+      return () => clearTimeout(timer);
+    }, [flashId]);
+
+    useEffect(() => {
+      const refresh = () => {
+        const profileId = localStorage.getItem('vivica-current-profile') || '';
+        getUserName(profileId)
+          .then(name => setUserName(name || 'User'))
+          .catch(() => setUserName('User'));
+      };
+      refresh();
+      window.addEventListener('memoryUpdated', refresh);
+      window.addEventListener('profilesUpdated', refresh);
+      return () => {
+        window.removeEventListener('memoryUpdated', refresh);
+        window.removeEventListener('profilesUpdated', refresh);
+      };
+    }, [conversation?.id]);
+
     // Fetch a dynamic welcome message from the LLM whenever the welcome screen is visible
     useEffect(() => {
       if (!conversation || conversation.messages.length) return;
@@ -185,6 +258,39 @@ export const ChatBody = forwardRef<HTMLDivElement, ChatBodyProps>(
       toast.success("Message copied to clipboard");
     };
 
+    // `citations` turns `#cite-n` links made by `linkCitations` into footnote markers
+    const renderMarkdown = (text: string, citations?: Citation[]) => (
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        components={{
+          a({ node, href, children, ...props }) {
+            const citation = href?.startsWith('#cite-')
+              ? citations?.find(c => `#cite-${c.n}` === href)
+              : undefined;
+            if (citation) return <CitationMarker citation={citation} />;
+            return <a href={href} {...props}>{children}</a>;
+          },
+          code({ node, inline, className, children, ...props }) {
+            if (inline) {
+              return (
+                <code className="inline-code" {...props}>{children}</code>
+              );
+            }
+            return (
+              <CodeBlock className={className}>{children}</CodeBlock>
+            );
+          }
+        }}
+      >
+        {text}
+      </ReactMarkdown>
+    );
+
+    // Spend across every branch, since abandoned answers were paid for too
+    const conversationUsage = conversation
+      ? [...conversation.messages, ...(conversation.branches || [])].flatMap(m => m.usage || [])
+      : [];
+
     const formatTimestamp = (timestamp: Date) => {
       return timestamp.toLocaleTimeString([], {
         hour: '2-digit',
@@ -198,7 +304,9 @@ export const ChatBody = forwardRef<HTMLDivElement, ChatBodyProps>(
         ref={ref}
         className="flex-1 overflow-y-auto p-4 space-y-6 relative"
       >
-        {!conversation?.messages.length ? (
+        {compare ? (
+          <ComparePanel {...compare} renderMarkdown={renderMarkdown} />
+        ) : !conversation?.messages.length ? (
           // Empty state
           <div className="flex flex-col items-center justify-center h-full text-center space-y-8 max-w-2xl mx-auto -mt-8">
             <div className="space-y-4">
@@ -220,12 +328,30 @@ export const ChatBody = forwardRef<HTMLDivElement, ChatBodyProps>(
         ) : (
           // Messages
           <div className="space-y-6 max-w-4xl mx-auto">
+            {conversationUsage.length > 0 && (
+              <p className="text-center text-xs text-muted-foreground">
+                <UsageLabel usage={conversationUsage} prefix="This chat so far: " />
+              </p>
+            )}
+            {summarizedCount > 0 && (
+              <p className="text-center text-xs text-muted-foreground">
+                {summarizedCount} earlier message{summarizedCount === 1 ? ' is' : 's are'} sent as a summary
+              </p>
+            )}
+            {omittedCount > 0 && (
+              <p className="text-center text-xs text-muted-foreground">
+                {omittedCount} earlier message{omittedCount === 1 ? '' : 's'} omitted to fit the model's context window
+              </p>
+            )}
             {conversation.messages.map((message, index) => (
               <div
                 key={message.id}
+                id={`message-${message.id}`}
                 className={`flex ${
                   message.role === 'user' ? 'justify-end' : 'justify-start'
-                } slide-up group`}
+                } slide-up group rounded-lg transition-colors ${
+                  flashId === message.id ? 'bg-accent/10' : ''
+                }`}
               >
                 <div className="flex items-start gap-3 max-w-[85%] md:max-w-[70%]">
                   {message.role === 'assistant' && (
@@ -240,33 +366,39 @@ export const ChatBody = forwardRef<HTMLDivElement, ChatBodyProps>(
                       message.failed ? 'border-accent/50 bg-accent/10' : ''
                     }`}
                   >
+                    {message.attachments?.length ? <MessageAttachments attachments={message.attachments} /> : null}
+                    {message.toolSteps?.length ? <ToolSteps steps={message.toolSteps} /> : null}
+                    {message.codeContent !== undefined && (
+                      // First stage of a code hand-off: the coder model's answer
+                      <div className="mb-3">
+                        <div className="text-xs font-semibold opacity-70 mb-1">
+                          Code · {message.codeModel}
+                        </div>
+                        <div className="prose dark:prose-invert break-words max-w-none">
+                          {renderMarkdown(message.codeContent)}
+                        </div>
+                        {message.content && (
+                          <div className="text-xs font-semibold opacity-70 mt-3 mb-1">
+                            Explanation · {getProfileName(message.profileId)}
+                          </div>
+                        )}
+                      </div>
+                    )}
                     <div className="prose dark:prose-invert break-words max-w-none">
-                      <ReactMarkdown
-                        remarkPlugins={[remarkGfm]}
-                        components={{
-                          code({ node, inline, className, children, ...props }) {
-                            if (inline) {
-                              return (
-                                <code className="inline-code" {...props}>{children}</code>
-                              );
-                            }
-                            return (
-                              <CodeBlock className={className}>{children}</CodeBlock>
-                            );
-                          }
-                        }}
-                      >
-                        {
-                          // Avoid rendering raw objects like [object Object]
-                          // If the message content isn't a string, log it and
-                          // fall back to JSON so the UI stays readable
-                          typeof message.content === 'string'
-                            ? message.content
-                            : (console.log('Non-string message', message.content),
-                              JSON.stringify(message.content))
-                        }
-                      </ReactMarkdown>
+                      {renderMarkdown(
+                        // Avoid rendering raw objects like [object Object]
+                        // If the message content isn't a string, log it and
+                        // fall back to JSON so the UI stays readable
+                        typeof message.content === 'string'
+                          ? message.citations ? linkCitations(message.content, message.citations) : message.content
+                          : (console.log('Non-string message', message.content),
+                            JSON.stringify(message.content)),
+                        message.citations
+                      )}
                     </div>
+                    {message.citations && typeof message.content === 'string' && citedSources(message.content, message.citations).length > 0 && (
+                      <SourceList citations={citedSources(message.content, message.citations)} />
+                    )}
                     
                     <div className="flex items-center justify-between mt-2">
                       <div className={`flex items-center gap-2 text-xs opacity-60 ${
@@ -277,6 +409,35 @@ export const ChatBody = forwardRef<HTMLDivElement, ChatBodyProps>(
                                 title="Code response" />
                         )}
                         {formatTimestamp(message.timestamp)}
+                        {message.stopped && (
+                          <span className="italic" title="Generation was stopped">stopped</span>
+                        )}
+                        {message.usage?.length ? <UsageLabel usage={message.usage} /> : null}
+                        {branchPositions[message.id] && onSwitchBranch && (
+                          <span className="flex items-center">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              disabled={isTyping || branchPositions[message.id].index === 0}
+                              onClick={() => onSwitchBranch(message.id, -1)}
+                              className="h-5 w-5 p-0"
+                              title="Previous version"
+                            >
+                              <ChevronLeft className="w-3 h-3" />
+                            </Button>
+                            {branchPositions[message.id].index + 1}/{branchPositions[message.id].count}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              disabled={isTyping || branchPositions[message.id].index === branchPositions[message.id].count - 1}
+                              onClick={() => onSwitchBranch(message.id, 1)}
+                              className="h-5 w-5 p-0"
+                              title="Next version"
+                            >
+                              <ChevronRight className="w-3 h-3" />
+                            </Button>
+                          </span>
+                        )}
                       </div>
                       
                       <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
@@ -286,7 +447,7 @@ export const ChatBody = forwardRef<HTMLDivElement, ChatBodyProps>(
                           onClick={() =>
                             handleCopyMessage(
                               typeof message.content === 'string'
-                                ? message.content
+                                ? [message.codeContent, message.content].filter(Boolean).join('\n\n')
                                 : JSON.stringify(message.content)
                             )
                           }
@@ -295,36 +456,28 @@ export const ChatBody = forwardRef<HTMLDivElement, ChatBodyProps>(
                           <Copy className="w-3 h-3" />
                         </Button>
 
+                        {/* Edits and regenerations branch, so any turn can be revisited */}
                         {message.role === 'user' && onEditMessage && (
-                          (() => {
-                            const lastIndex = conversation?.messages.length ? conversation.messages.length - 1 : -1;
-                            const isLastUser =
-                              (index === lastIndex && message.role === 'user') ||
-                              (index === lastIndex - 1 && conversation?.messages[lastIndex].role === 'assistant');
-                            return isLastUser ? (
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={() => onEditMessage(message)}
-                                className="h-6 w-6 p-0"
-                              >
-                                <Pencil className="w-3 h-3" />
-                              </Button>
-                            ) : null;
-                          })()
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => onEditMessage(message)}
+                            className="h-6 w-6 p-0"
+                          >
+                            <Pencil className="w-3 h-3" />
+                          </Button>
                         )}
 
-                        {message.role === 'assistant' && onRegenerateMessage && (
-                          index === conversation?.messages.length - 1 ? (
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => onRegenerateMessage(message.id)}
-                              className="h-6 w-6 p-0"
-                            >
-                              <RotateCcw className="w-3 h-3" />
-                            </Button>
-                          ) : null
+                        {message.role === 'assistant' && !message.failed && onRegenerateMessage && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={isTyping}
+                            onClick={() => onRegenerateMessage(message.id)}
+                            className="h-6 w-6 p-0"
+                          >
+                            <RotateCcw className="w-3 h-3" />
+                          </Button>
                         )}
 
                         {message.failed && onRetryMessage && (
@@ -344,7 +497,7 @@ export const ChatBody = forwardRef<HTMLDivElement, ChatBodyProps>(
                   {message.role === 'user' && (
                     <span className="mt-1 flex items-center gap-1 text-xs font-semibold text-primary">
                       <FaUser className="w-3 h-3" />
-                      {getUserName()}
+                      {userName}
                     </span>
                   )}
                 </div>
@@ -1,20 +1,90 @@
 
 import { useState, useRef, useEffect } from "react";
-import { Send, Mic, MicOff } from "lucide-react";
+import { Send, Mic, MicOff, Square, Paperclip, X, FileText } from "lucide-react";
+import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Command, CommandList, CommandItem } from "@/components/ui/command";
+import { matchCommands, parseCommand, formatUsage } from "@/services/commandRegistry";
+import {
+  attachmentKind,
+  formatFileSize,
+  ACCEPTED_FILE_TYPES,
+  MAX_ATTACHMENT_BYTES
+} from "@/utils/attachments";
 
 interface ChatFooterProps {
-  onSendMessage: (message: string) => void;
+  onSendMessage: (message: string, files?: File[]) => void;
   onVoiceToggle: () => void;
   isVoiceMode: boolean;
+  /** A reply is streaming; the send button turns into Stop */
+  isGenerating?: boolean;
+  onStopGeneration?: () => void;
   editingMessage?: string | null;
+  /** Show the attach button and accept dropped or pasted files */
+  allowAttachments?: boolean;
 }
 
-export const ChatFooter = ({ onSendMessage, onVoiceToggle, isVoiceMode, editingMessage }: ChatFooterProps) => {
+// File waiting to be sent, with a thumbnail for images
+const PendingFile = ({ file, onRemove }: { file: File; onRemove: () => void }) => {
+  const [preview, setPreview] = useState<string>();
+
+  useEffect(() => {
+    if (!file.type.startsWith('image/')) return;
+    const url = URL.createObjectURL(file);
+    setPreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  return (
+    <div className="relative flex items-center gap-2 rounded-md border border-border bg-background pr-7 text-xs">
+      {preview
+        ? <img src={preview} alt={file.name} className="h-10 w-10 rounded-l-md object-cover" />
+        : <FileText className="ml-2 w-4 h-4 shrink-0 text-muted-foreground" />}
+      <span className={`max-w-[10rem] truncate ${preview ? '' : 'py-2'}`}>{file.name}</span>
+      <span className="text-muted-foreground">{formatFileSize(file.size)}</span>
+      <button
+        type="button"
+        onClick={onRemove}
+        title="Remove"
+        className="absolute right-1.5 top-1/2 -translate-y-1/2 opacity-60 hover:opacity-100"
+      >
+        <X className="w-3 h-3" />
+      </button>
+    </div>
+  );
+};
+
+export const ChatFooter = ({
+  onSendMessage,
+  onVoiceToggle,
+  isVoiceMode,
+  isGenerating,
+  onStopGeneration,
+  editingMessage,
+  allowAttachments
+}: ChatFooterProps) => {
   const [message, setMessage] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [selectedCommand, setSelectedCommand] = useState("");
+  // Escape hides the suggestions until the command name changes
+  const [dismissedFor, setDismissedFor] = useState<string | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
+  // Suggest commands while the first word is being typed after a slash
+  const commandPrefix = /^\/\w*$/.test(message) ? message.slice(1) : null;
+  const suggestions = commandPrefix !== null && dismissedFor !== message ? matchCommands(commandPrefix) : [];
+  const activeCommand = suggestions.find(c => c.name === selectedCommand) || suggestions[0];
+  // Once the name is complete, show how to use it
+  const typedCommand = commandPrefix === null ? parseCommand(message)?.command : undefined;
+
+  const completeCommand = (name: string) => {
+    setMessage(`/${name} `);
+    textareaRef.current?.focus();
+  };
+
   useEffect(() => {
     if (editingMessage !== undefined) {
       setMessage(editingMessage || "");
@@ -22,15 +92,73 @@ export const ChatFooter = ({ onSendMessage, onVoiceToggle, isVoiceMode, editingM
     }
   }, [editingMessage]);
 
+  const pendingFiles = allowAttachments ? files : [];
+
+  const addFiles = (list: FileList | File[]) => {
+    const accepted = Array.from(list).filter(file => {
+      if (!attachmentKind(file.type, file.name)) {
+        toast.error(`${file.name} is not an image, PDF or text file`);
+        return false;
+      }
+      if (file.size > MAX_ATTACHMENT_BYTES) {
+        toast.error(`${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}`);
+        return false;
+      }
+      return true;
+    });
+    if (accepted.length) setFiles(prev => [...prev, ...accepted]);
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    if (!allowAttachments || !e.clipboardData.files.length) return;
+    e.preventDefault();
+    addFiles(e.clipboardData.files);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!allowAttachments || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    setIsDragging(false);
+    if (!allowAttachments || !e.dataTransfer.files.length) return;
+    e.preventDefault();
+    addFiles(e.dataTransfer.files);
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (message.trim()) {
-      onSendMessage(message);
+    if (message.trim() || pendingFiles.length) {
+      onSendMessage(message, pendingFiles.length ? pendingFiles : undefined);
       setMessage("");
+      setFiles([]);
     }
   };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length && activeCommand) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const index = suggestions.indexOf(activeCommand);
+        const next = (index + (e.key === 'ArrowDown' ? 1 : -1) + suggestions.length) % suggestions.length;
+        setSelectedCommand(suggestions[next].name);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setDismissedFor(message);
+        return;
+      }
+      // A fully typed command without arguments can be sent straight away
+      const complete = message === `/${activeCommand.name}` && !activeCommand.requiresArgs;
+      if (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey && !complete)) {
+        e.preventDefault();
+        completeCommand(activeCommand.name);
+        return;
+      }
+    }
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSubmit(e);
@@ -47,11 +175,27 @@ export const ChatFooter = ({ onSendMessage, onVoiceToggle, isVoiceMode, editingM
   }, [message]);
 
   return (
-    <footer className="border-t border-border bg-card/50 backdrop-blur-sm p-4">
+    <footer
+      className={`border-t border-border bg-card/50 backdrop-blur-sm p-4 transition-colors ${isDragging ? 'bg-accent/10' : ''}`}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+    >
       <div className="max-w-4xl mx-auto">
         {editingMessage && (
           <div className="text-xs text-muted-foreground mb-2">Editing previous message</div>
         )}
+        {pendingFiles.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-2">
+            {pendingFiles.map((file, i) => (
+              <PendingFile
+                key={`${file.name}-${i}`}
+                file={file}
+                onRemove={() => setFiles(prev => prev.filter(f => f !== file))}
+              />
+            ))}
+          </div>
+        )}
         <form onSubmit={handleSubmit} className="flex items-end gap-3">
           {/* Voice Mode Button */}
           <Button
@@ -72,31 +216,99 @@ export const ChatFooter = ({ onSendMessage, onVoiceToggle, isVoiceMode, editingM
             )}
           </Button>
 
+          {allowAttachments && (
+            <>
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                accept={ACCEPTED_FILE_TYPES}
+                className="hidden"
+                onChange={(e) => {
+                  if (e.target.files) addFiles(e.target.files);
+                  e.target.value = '';
+                }}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                onClick={() => fileInputRef.current?.click()}
+                title="Attach images, PDFs or text files"
+                className="hover:bg-muted"
+                disabled={isVoiceMode}
+              >
+                <Paperclip className="w-4 h-4" />
+              </Button>
+            </>
+          )}
+
           {/* Message Input */}
           <div className="flex-1 relative">
+            {suggestions.length > 0 && activeCommand && (
+              <Command
+                value={activeCommand.name}
+                onValueChange={setSelectedCommand}
+                shouldFilter={false}
+                className="absolute bottom-full left-0 mb-2 h-auto w-full max-w-md border border-border shadow-md z-10"
+              >
+                <CommandList>
+                  {suggestions.map(command => (
+                    <CommandItem
+                      key={command.name}
+                      value={command.name}
+                      onSelect={completeCommand}
+                      className="flex-col items-start gap-0.5"
+                    >
+                      <span className="font-mono text-sm">{formatUsage(command)}</span>
+                      <span className="text-xs text-muted-foreground">{command.description}</span>
+                    </CommandItem>
+                  ))}
+                </CommandList>
+              </Command>
+            )}
             <Textarea
               ref={textareaRef}
               value={message}
               onChange={(e) => setMessage(e.target.value)}
               onKeyDown={handleKeyDown}
-              placeholder="Type your message..."
+              onPaste={handlePaste}
+              placeholder="Type your message, or / for commands..."
               className="min-h-[44px] max-h-[120px] resize-none pr-3 bg-background border-input"
               disabled={isVoiceMode}
             />
             
           </div>
 
-          {/* Send Button */}
-          <Button
-            type="submit"
-            size="icon"
-            disabled={!message.trim() || isVoiceMode}
-            className="bg-accent text-accent-foreground hover:bg-accent/90"
-          >
-            <Send className="w-4 h-4" />
-          </Button>
+          {/* Send / Stop Button */}
+          {isGenerating && onStopGeneration ? (
+            <Button
+              type="button"
+              size="icon"
+              onClick={onStopGeneration}
+              title="Stop generating"
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              <Square className="w-4 h-4" />
+            </Button>
+          ) : (
+            <Button
+              type="submit"
+              size="icon"
+              disabled={(!message.trim() && !pendingFiles.length) || isVoiceMode}
+              className="bg-accent text-accent-foreground hover:bg-accent/90"
+            >
+              <Send className="w-4 h-4" />
+            </Button>
+          )}
         </form>
 
+        {typedCommand && (
+          <div className="text-xs text-muted-foreground mt-2">
+            <span className="font-mono">{formatUsage(typedCommand)}</span> — {typedCommand.description}
+          </div>
+        )}
+
         {/* Character count */}
         {message.length > 0 && (
           <div className="text-xs text-muted-foreground mt-2 text-right">
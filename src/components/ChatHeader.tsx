@@ -1,7 +1,9 @@
 
-import { Menu, Sun, Moon, Bookmark, Sparkles, Loader2 } from "lucide-react";
+import { Menu, Sun, Moon, Bookmark, Sparkles, Loader2, ScrollText, Columns2 } from "lucide-react";
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { cn } from "@/lib/utils";
 import { ProfileSwitcher } from "./ProfileSwitcher";
 import { useTheme } from "@/hooks/useTheme";
@@ -24,6 +26,12 @@ interface ChatHeaderProps {
   onProfileChange: (profile: Profile) => void;
   onOpenProfiles: () => void;
   onSaveSummary: () => void;
+  /** Rolling summary of the active conversation, if one exists */
+  conversationSummary?: string;
+  summarizedCount?: number;
+  onEditSummary?: (summary: string) => void;
+  compareMode?: boolean;
+  onToggleCompare?: () => void;
 }
 
 export const ChatHeader = ({
@@ -32,9 +40,15 @@ export const ChatHeader = ({
   onProfileChange,
   onOpenProfiles,
   onSaveSummary,
+  conversationSummary,
+  summarizedCount = 0,
+  onEditSummary,
+  compareMode = false,
+  onToggleCompare,
 }: ChatHeaderProps) => {
   const { variant, setVariant } = useTheme();
   const [saving, setSaving] = useState(false);
+  const [summaryDraft, setSummaryDraft] = useState('');
 
   const handleSaveClick = async () => {
     if (saving) return;
@@ -73,6 +87,57 @@ export const ChatHeader = ({
       </div>
 
       <div className="flex items-center gap-3">
+        {onEditSummary && (
+          <Popover onOpenChange={(open) => open && setSummaryDraft(conversationSummary || '')}>
+            <PopoverTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Conversation summary"
+                className={cn(conversationSummary && 'text-accent')}
+              >
+                <ScrollText className="w-4 h-4" />
+                <span className="sr-only">Conversation summary</span>
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-80 space-y-3">
+              <div>
+                <p className="text-sm font-semibold">Conversation summary</p>
+                <p className="text-xs text-muted-foreground">
+                  {conversationSummary
+                    ? `Sent instead of the first ${summarizedCount} messages`
+                    : 'Long chats are summarized automatically. You can also add notes here.'}
+                </p>
+              </div>
+              <Textarea
+                value={summaryDraft}
+                onChange={(e) => setSummaryDraft(e.target.value)}
+                rows={8}
+                placeholder="No summary yet"
+              />
+              <Button
+                size="sm"
+                className="w-full"
+                disabled={summaryDraft === (conversationSummary || '')}
+                onClick={() => onEditSummary(summaryDraft)}
+              >
+                Save summary
+              </Button>
+            </PopoverContent>
+          </Popover>
+        )}
+        {onToggleCompare && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onToggleCompare}
+            title={compareMode ? 'Exit model comparison' : 'Compare models side by side'}
+            className={cn(compareMode && 'text-accent')}
+          >
+            <Columns2 className="w-4 h-4" />
+            <span className="sr-only">Compare models</span>
+          </Button>
+        )}
         {/* Bookmark triggers the Save & Summarize flow */}
         <Button
           variant="ghost"
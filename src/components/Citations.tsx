@@ -0,0 +1,41 @@
+import { FileText } from "lucide-react";
+import {
+  Popover,
+  PopoverTrigger,
+  PopoverContent
+} from "@/components/ui/popover";
+import type { Citation } from "@/services/documentService";
+
+// Footnote marker that opens the cited document passage
+export const CitationMarker = ({ citation }: { citation: Citation }) => (
+  <Popover>
+    <PopoverTrigger asChild>
+      <button
+        type="button"
+        className="mx-0.5 align-super text-[0.7em] font-semibold text-primary hover:underline"
+        title={citation.documentName}
+      >
+        [{citation.n}]
+      </button>
+    </PopoverTrigger>
+    <PopoverContent className="w-80 text-xs">
+      <p className="mb-2 flex items-center gap-1.5 font-semibold">
+        <FileText className="w-3 h-3 shrink-0" />
+        <span className="truncate">{citation.documentName}</span>
+      </p>
+      <p className="max-h-60 overflow-y-auto whitespace-pre-wrap text-muted-foreground">{citation.text}</p>
+    </PopoverContent>
+  </Popover>
+);
+
+// Footnote list under a reply, one line per cited passage
+export const SourceList = ({ citations }: { citations: Citation[] }) => (
+  <div className="mt-3 border-t border-border/60 pt-2 text-xs opacity-80">
+    {citations.map(c => (
+      <div key={c.n} className="flex items-center gap-1">
+        <CitationMarker citation={c} />
+        <span className="truncate">{c.documentName}</span>
+      </div>
+    ))}
+  </div>
+);
@@ -0,0 +1,136 @@
+import type { ReactNode } from "react";
+import { X, Plus, ArrowUpFromLine, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ModelSelector } from "./ModelSelector";
+import {
+  MIN_COMPARE_MODELS,
+  MAX_COMPARE_MODELS,
+  tokensPerSecond,
+  type CompareResult
+} from "@/services/compareService";
+import type { ComparisonRun } from "@/hooks/useModelCompare";
+import { formatCost } from "@/utils/usageUtils";
+
+export interface ComparePanelProps {
+  models: string[];
+  onModelsChange: (models: string[]) => void;
+  run: ComparisonRun | null;
+  running: boolean;
+  /** Copy one answer into the conversation */
+  onPromote: (index: number) => void;
+  onClose: () => void;
+}
+
+interface Props extends ComparePanelProps {
+  renderMarkdown: (text: string) => ReactNode;
+}
+
+const formatMs = (ms: number) => ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+
+const STATUS_LABELS: Record<CompareResult['status'], string> = {
+  waiting: 'Waiting',
+  streaming: 'Streaming',
+  done: 'Done',
+  stopped: 'Stopped',
+  error: 'Failed',
+};
+
+const ResultStats = ({ result }: { result: CompareResult }) => {
+  const speed = tokensPerSecond(result);
+  const parts = [
+    result.firstTokenMs !== undefined && `first token ${formatMs(result.firstTokenMs)}`,
+    result.totalMs !== undefined && `total ${formatMs(result.totalMs)}`,
+    result.tokens > 0 && `${result.usage && !result.usage.estimated ? '' : '~'}${result.tokens} tokens`,
+    speed !== undefined && `${speed.toFixed(0)} tok/s`,
+    result.usage?.cost !== undefined && formatCost(result.usage.cost),
+  ].filter(Boolean);
+  return <p className="text-xs text-muted-foreground">{parts.join(' · ') || '—'}</p>;
+};
+
+// Side-by-side answers from several models to the same prompt
+export const ComparePanel = ({ models, onModelsChange, run, running, onPromote, onClose, renderMarkdown }: Props) => {
+  const setModel = (index: number, model: string) =>
+    onModelsChange(models.map((m, i) => i === index ? model : m));
+
+  return (
+    <div className="space-y-4 max-w-6xl mx-auto">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Compare models</h2>
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          <X className="w-4 h-4 mr-1" />
+          Exit compare
+        </Button>
+      </div>
+
+      <div className="grid gap-2 sm:grid-cols-2">
+        {models.map((model, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <div className="flex-1 min-w-0">
+              <ModelSelector value={model} onValueChange={(value) => setModel(i, value)} />
+            </div>
+            {models.length > MIN_COMPARE_MODELS && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onModelsChange(models.filter((_, j) => j !== i))}
+                title="Remove model"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          Your next message goes to every model. Nothing is added to the chat until you promote an answer.
+        </p>
+        {models.length < MAX_COMPARE_MODELS && (
+          <Button variant="outline" size="sm" onClick={() => onModelsChange([...models, ''])}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add model
+          </Button>
+        )}
+      </div>
+
+      {run && (
+        <>
+          <div className="flex justify-end">
+            <div className="message-bubble user max-w-[85%] md:max-w-[70%] whitespace-pre-wrap">{run.prompt}</div>
+          </div>
+          <div className="grid grid-flow-col auto-cols-[minmax(260px,1fr)] gap-3 overflow-x-auto pb-2">
+            {run.results.map((result, i) => (
+              <div key={`${result.model}-${i}`} className="flex flex-col min-w-0 rounded-lg border border-border bg-card p-3 space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-semibold truncate" title={result.model}>{result.model}</span>
+                  <Badge variant={result.status === 'error' ? 'destructive' : 'secondary'} className="shrink-0">
+                    {result.status === 'streaming' && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+                    {STATUS_LABELS[result.status]}
+                  </Badge>
+                </div>
+                <div className="flex-1 prose dark:prose-invert break-words max-w-none text-sm">
+                  {result.status === 'error'
+                    ? <p className="text-destructive">{result.error}</p>
+                    : result.content
+                      ? renderMarkdown(result.content)
+                      : <p className="text-muted-foreground">{result.status === 'waiting' ? 'Waiting for the first token…' : 'No answer'}</p>}
+                </div>
+                <ResultStats result={result} />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={running || !result.content || result.status === 'error'}
+                  onClick={() => onPromote(i)}
+                >
+                  <ArrowUpFromLine className="w-4 h-4 mr-1" />
+                  Use this answer
+                </Button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
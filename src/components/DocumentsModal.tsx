@@ -0,0 +1,159 @@
+import { useState, useEffect, useRef } from "react";
+import { Library, Upload, Trash2, FileText, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { toast } from "sonner";
+import {
+  addDocument,
+  getDocuments,
+  deleteDocument,
+  DOCUMENT_FILE_TYPES
+} from "@/services/documentService";
+import { formatFileSize } from "@/utils/attachments";
+import type { DocumentRecord } from "@/utils/indexedDb";
+
+interface DocumentsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Profile that profile-scoped uploads belong to */
+  profile: { id: string; name: string } | null;
+}
+
+// Reference documents searched on every turn and cited in replies
+export const DocumentsModal = ({ isOpen, onClose, profile }: DocumentsModalProps) => {
+  const [documents, setDocuments] = useState<DocumentRecord[]>([]);
+  const [scope, setScope] = useState<'global' | 'profile'>('global');
+  const [uploading, setUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => {
+    getDocuments()
+      .then(setDocuments)
+      .catch(e => console.warn('Failed to load documents', e));
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    getDocuments()
+      .then(setDocuments)
+      .catch(e => console.warn('Failed to load documents', e));
+  }, [isOpen]);
+
+  const handleUpload = async (files: FileList) => {
+    setUploading(true);
+    let added = 0;
+    for (const file of Array.from(files)) {
+      try {
+        await addDocument(file, scope, profile?.id);
+        added++;
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : `Could not add ${file.name}`);
+      }
+    }
+    setUploading(false);
+    refresh();
+    if (added) toast.success(`Added ${added} ${added === 1 ? 'document' : 'documents'}`);
+  };
+
+  const handleDelete = async (doc: DocumentRecord) => {
+    await deleteDocument(doc.id);
+    refresh();
+    toast.success(`Removed ${doc.name}`);
+  };
+
+  // Other profiles' documents are listed too, so they can be cleaned up from anywhere
+  const scopeLabel = (doc: DocumentRecord) =>
+    doc.scope === 'global' ? 'All profiles' : doc.profileId === profile?.id ? profile.name : 'Other profile';
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[600px] bg-card border-border max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Library className="w-5 h-5" />
+            Documents
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Markdown, text, HTML and PDF files are split into passages and searched on every message.
+            Relevant passages are sent with your message, and replies cite them as numbered footnotes.
+            Everything stays in this browser.
+          </p>
+
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex gap-1">
+              <Button
+                variant={scope === 'global' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setScope('global')}
+              >
+                All profiles
+              </Button>
+              <Button
+                variant={scope === 'profile' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setScope('profile')}
+                disabled={!profile}
+              >
+                {profile ? `Only ${profile.name}` : 'This profile'}
+              </Button>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={DOCUMENT_FILE_TYPES}
+              className="hidden"
+              onChange={(e) => {
+                if (e.target.files?.length) handleUpload(e.target.files);
+                e.target.value = '';
+              }}
+            />
+            <Button size="sm" onClick={() => fileInputRef.current?.click()} disabled={uploading}>
+              {uploading
+                ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                : <Upload className="w-4 h-4 mr-2" />}
+              Upload
+            </Button>
+          </div>
+
+          <Separator />
+
+          {documents.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No documents yet</p>
+          ) : (
+            <div className="space-y-2">
+              {documents.map(doc => (
+                <div key={doc.id} className="flex items-center gap-3 rounded-md border border-border p-2">
+                  <FileText className="w-4 h-4 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm font-medium" title={doc.name}>{doc.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {scopeLabel(doc)} · {doc.chunkCount} {doc.chunkCount === 1 ? 'passage' : 'passages'} · {formatFileSize(doc.size)} · {new Date(doc.createdAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDelete(doc)}
+                    title="Remove document"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,133 @@
+import { useState, useEffect } from "react";
+import { History, Undo2, Loader2, Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { getMemoryChanges, undoMemoryChange, type MemoryChange } from "@/utils/memoryUtils";
+
+/** Changes listed before "Show all" */
+const COLLAPSED_COUNT = 5;
+
+interface MemoryHistoryProps {
+  /** Run consolidation now; the button is hidden without it */
+  onConsolidate?: () => Promise<void>;
+  /** Called after an undo put memories back */
+  onUndone: () => void;
+}
+
+const DESCRIPTIONS: Record<MemoryChange['action'], (change: MemoryChange) => string> = {
+  merge: change => `Merged ${change.before.length} similar memories`,
+  condense: () => 'Condensed an old memory',
+  forget: () => 'Forgotten with /forget',
+};
+
+// Merges and condensations made by memory consolidation, and memories
+// deleted with /forget, each undoable
+export const MemoryHistory = ({ onConsolidate, onUndone }: MemoryHistoryProps) => {
+  const [changes, setChanges] = useState<MemoryChange[]>([]);
+  const [expanded, setExpanded] = useState(false);
+  const [running, setRunning] = useState(false);
+
+  useEffect(() => {
+    const refresh = () => {
+      getMemoryChanges()
+        .then(setChanges)
+        .catch(e => console.warn('Failed to load memory history', e));
+    };
+    refresh();
+    window.addEventListener('memoryUpdated', refresh);
+    return () => window.removeEventListener('memoryUpdated', refresh);
+  }, []);
+
+  const handleConsolidate = async () => {
+    if (!onConsolidate) return;
+    setRunning(true);
+    await onConsolidate();
+    setRunning(false);
+  };
+
+  const handleUndo = async (change: MemoryChange) => {
+    if (await undoMemoryChange(change.id)) {
+      toast.success('Change undone');
+      onUndone();
+    } else {
+      toast.error('That memory was deleted since, so the change can no longer be undone');
+      setChanges(prev => prev.filter(c => c.id !== change.id));
+    }
+  };
+
+  const shown = expanded ? changes : changes.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <Label className="text-base font-semibold flex items-center gap-2">
+          <History className="w-4 h-4" />
+          Memory History
+        </Label>
+        {onConsolidate && (
+          <Button variant="outline" size="sm" onClick={handleConsolidate} disabled={running}>
+            {running
+              ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              : <Sparkles className="w-4 h-4 mr-2" />}
+            Tidy up now
+          </Button>
+        )}
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Near-duplicate memories are merged and long ones you haven't needed in a while are condensed.
+        Turn on daily tidying in Settings. Memories deleted with /forget are listed here too.
+      </p>
+      {changes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No changes yet</p>
+      ) : (
+        <div className="space-y-2">
+          {shown.map(change => (
+            <div key={change.id} className="rounded-lg border border-border p-3 text-sm">
+              <div className="flex items-start gap-2">
+                <div className="flex-1 min-w-0 space-y-1">
+                  <p className="text-xs text-muted-foreground">
+                    {DESCRIPTIONS[change.action](change)} · {new Date(change.createdAt).toLocaleString()}
+                  </p>
+                  {change.after ? (
+                    <>
+                      <p className="whitespace-pre-line break-words">{change.after.content}</p>
+                      <details className="text-xs text-muted-foreground">
+                        <summary className="cursor-pointer">Before</summary>
+                        <ul className="mt-1 space-y-1 list-disc pl-4">
+                          {change.before.map(m => (
+                            <li key={m.id} className="whitespace-pre-line break-words">{m.content}</li>
+                          ))}
+                        </ul>
+                      </details>
+                    </>
+                  ) : (
+                    change.before.map(m => (
+                      <p key={m.id} className="whitespace-pre-line break-words line-through text-muted-foreground">
+                        {m.content}
+                      </p>
+                    ))
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => handleUndo(change)}
+                  title="Undo"
+                >
+                  <Undo2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+          {changes.length > COLLAPSED_COUNT && (
+            <Button variant="ghost" size="sm" onClick={() => setExpanded(!expanded)}>
+              {expanded ? 'Show fewer' : `Show all ${changes.length}`}
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
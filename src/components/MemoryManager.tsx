@@ -0,0 +1,342 @@
+import { useState } from "react";
+import { Search, Pin, PinOff, Globe, User } from "lucide-react";
+import { FaEdit, FaTrash } from "react-icons/fa";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import {
+  updateMemory,
+  deleteMemory,
+  deleteMemories,
+  type MemoryItem,
+  type MemoryChanges
+} from "@/utils/memoryUtils";
+
+type ScopeFilter = 'all' | 'global' | 'profile';
+type SortOrder = 'newest' | 'oldest' | 'alpha';
+
+const SORT_ORDERS: { value: SortOrder; label: string }[] = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'alpha', label: 'A to Z' },
+];
+
+interface MemoryManagerProps {
+  memories: MemoryItem[];
+  setMemories: React.Dispatch<React.SetStateAction<MemoryItem[]>>;
+  /** Profile that "move to profile" targets */
+  profileId: string;
+}
+
+/** Comma- or space-separated tags, without leading #s or repeats */
+function parseTags(input: string): string[] {
+  return [...new Set(input.split(/[,\s]+/).map(t => t.replace(/^#/, '').trim()).filter(Boolean))];
+}
+
+// Stored memories with search, tag and scope filters, inline editing,
+// pinning, scope moves and bulk delete
+export const MemoryManager = ({ memories, setMemories, profileId }: MemoryManagerProps) => {
+  const [query, setQuery] = useState('');
+  const [scopeFilter, setScopeFilter] = useState<ScopeFilter>('all');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [sort, setSort] = useState<SortOrder>('newest');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [editing, setEditing] = useState<{ id: string; content: string; tags: string } | null>(null);
+
+  const allTags = [...new Set(memories.flatMap(m => m.tags || []))].sort();
+  const needle = query.trim().toLowerCase();
+  const visible = memories
+    .filter(m => {
+      if (scopeFilter === 'global' && m.scope !== 'global') return false;
+      if (scopeFilter === 'profile' && !(m.scope === 'profile' && m.profileId === profileId)) return false;
+      if (tagFilter && !m.tags?.includes(tagFilter)) return false;
+      return !needle
+        || m.content.toLowerCase().includes(needle)
+        || m.tags?.some(t => t.toLowerCase().includes(needle));
+    })
+    .sort((a, b) => {
+      // Pinned memories stay on top whatever the order
+      if (!!a.pinned !== !!b.pinned) return a.pinned ? -1 : 1;
+      if (sort === 'alpha') return a.content.localeCompare(b.content);
+      return sort === 'newest'
+        ? b.createdAt.localeCompare(a.createdAt)
+        : a.createdAt.localeCompare(b.createdAt);
+    });
+  const selectedVisible = visible.filter(m => selected.has(m.id));
+
+  const applyChanges = async (entry: MemoryItem, changes: MemoryChanges) => {
+    const updated = await updateMemory(entry.id, changes);
+    if (updated) setMemories(prev => prev.map(m => m.id === entry.id ? updated : m));
+    return updated;
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editing) return;
+    const content = editing.content.trim();
+    if (!content) {
+      toast.error('A memory needs some text');
+      return;
+    }
+    const entry = memories.find(m => m.id === editing.id);
+    if (entry) await applyChanges(entry, { content, tags: parseTags(editing.tags) });
+    setEditing(null);
+  };
+
+  const handleMove = async (entry: MemoryItem) => {
+    const scope = entry.scope === 'global' ? 'profile' : 'global';
+    if (scope === 'profile' && !profileId) {
+      toast.error('Pick a profile first');
+      return;
+    }
+    await applyChanges(entry, { scope, profileId });
+    toast.success(scope === 'global' ? 'Memory shared with every profile' : 'Memory moved to this profile');
+  };
+
+  const handleDelete = async (entry: MemoryItem) => {
+    await deleteMemory(entry.id);
+    setMemories(prev => prev.filter(m => m.id !== entry.id));
+    setSelected(prev => {
+      const next = new Set(prev);
+      next.delete(entry.id);
+      return next;
+    });
+  };
+
+  const handleBulkDelete = async () => {
+    const ids = selectedVisible.map(m => m.id);
+    if (!confirm(`Delete ${ids.length} ${ids.length === 1 ? 'memory' : 'memories'}? This can't be undone.`)) return;
+    await deleteMemories(ids);
+    setMemories(prev => prev.filter(m => !ids.includes(m.id)));
+    setSelected(new Set());
+    toast.success(`Deleted ${ids.length} ${ids.length === 1 ? 'memory' : 'memories'}`);
+  };
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelected(checked ? new Set(visible.map(m => m.id)) : new Set());
+  };
+
+  return (
+    <div className="space-y-4">
+      <Label className="text-base font-semibold">Saved Memories</Label>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[12rem]">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search memories..."
+            className="pl-8"
+          />
+        </div>
+        <Select value={sort} onValueChange={(value: SortOrder) => setSort(value)}>
+          <SelectTrigger className="w-[9rem]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SORT_ORDERS.map(o => (
+              <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          variant={scopeFilter === 'all' ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => setScopeFilter('all')}
+        >
+          All
+        </Button>
+        <Button
+          variant={scopeFilter === 'global' ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => setScopeFilter('global')}
+        >
+          Global
+        </Button>
+        <Button
+          variant={scopeFilter === 'profile' ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => setScopeFilter('profile')}
+        >
+          Current Profile
+        </Button>
+      </div>
+
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {allTags.map(tag => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+              className={`rounded-full border px-2 py-0.5 text-xs transition-colors ${
+                tagFilter === tag
+                  ? 'border-primary bg-primary text-primary-foreground'
+                  : 'border-border text-muted-foreground hover:bg-muted'
+              }`}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {visible.length > 0 && (
+        <div className="flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={selectedVisible.length === visible.length}
+            onCheckedChange={(checked) => toggleAll(!!checked)}
+            aria-label="Select all shown memories"
+          />
+          <span className="text-muted-foreground">
+            {selectedVisible.length ? `${selectedVisible.length} selected` : `${visible.length} shown`}
+          </span>
+          {selectedVisible.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="ml-auto text-destructive hover:text-destructive"
+              onClick={handleBulkDelete}
+            >
+              <FaTrash className="w-3 h-3 mr-2" />
+              Delete selected
+            </Button>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {visible.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            {memories.length ? 'No memories match' : 'No memories saved yet'}
+          </p>
+        )}
+        {visible.map(entry => (
+          <div
+            key={entry.id}
+            className={`p-3 rounded-lg border ${entry.pinned ? 'border-primary/50 bg-primary/5' : 'border-border bg-muted/10'}`}
+          >
+            <div className="flex items-start gap-3">
+              <Checkbox
+                className="mt-0.5"
+                checked={selected.has(entry.id)}
+                onCheckedChange={(checked) => toggleSelected(entry.id, !!checked)}
+                aria-label="Select memory"
+              />
+              {editing?.id === entry.id ? (
+                <div className="flex-1 space-y-2">
+                  <Textarea
+                    value={editing.content}
+                    onChange={(e) => setEditing({ ...editing, content: e.target.value })}
+                    rows={3}
+                    autoFocus
+                  />
+                  <Input
+                    value={editing.tags}
+                    onChange={(e) => setEditing({ ...editing, tags: e.target.value })}
+                    placeholder="Tags, comma-separated"
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setEditing(null)}>
+                      Cancel
+                    </Button>
+                    <Button size="sm" onClick={handleSaveEdit}>
+                      Save
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <div className="flex-1 min-w-0 space-y-2">
+                    <div className="text-sm whitespace-pre-line break-words">{entry.content}</div>
+                    <div className="text-xs text-muted-foreground flex flex-wrap items-center gap-2">
+                      <span className={`inline-block w-2 h-2 rounded-full ${
+                        entry.scope === 'global' ? 'bg-blue-500' : 'bg-purple-500'
+                      }`} title={entry.scope === 'global' ? 'Global memory' : 'Profile memory'}/>
+                      {new Date(entry.createdAt).toLocaleString()}
+                      {!!entry.useCount && (
+                        <span title={entry.lastUsedAt && `Last used ${new Date(entry.lastUsedAt).toLocaleString()}`}>
+                          used {entry.useCount}×
+                        </span>
+                      )}
+                      {entry.tags?.map(tag => (
+                        <button
+                          key={tag}
+                          type="button"
+                          onClick={() => setTagFilter(tag)}
+                          className="hover:text-foreground"
+                        >
+                          #{tag}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => applyChanges(entry, { pinned: !entry.pinned })}
+                      title={entry.pinned ? 'Unpin' : 'Pin: always include in chats'}
+                    >
+                      {entry.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => handleMove(entry)}
+                      title={entry.scope === 'global' ? 'Move to this profile' : 'Share with every profile'}
+                    >
+                      {entry.scope === 'global' ? <User className="w-4 h-4" /> : <Globe className="w-4 h-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => setEditing({ id: entry.id, content: entry.content, tags: (entry.tags || []).join(', ') })}
+                      title="Edit"
+                    >
+                      <FaEdit className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-destructive hover:text-destructive"
+                      onClick={() => handleDelete(entry)}
+                      title="Delete"
+                    >
+                      <FaTrash className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,6 @@
 
 import { useState, useEffect } from "react";
 import { Brain, Save, RotateCcw, FileDown, FileUp } from "lucide-react";
-import { FaEdit, FaTrash } from "react-icons/fa";
 import {
   Dialog,
   DialogContent,
@@ -14,148 +13,101 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Separator } from "@/components/ui/separator";
 import { toast } from "sonner";
-import { getMemories, deleteMemory, editMemory, clearAllMemories } from "@/utils/memoryUtils";
-
-interface MemoryData {
-  scope: 'global' | 'profile';
-  profileId?: string;
-  identity: {
-    name: string;
-    pronouns: string;
-    occupation: string;
-    location: string;
-  };
-  personality: {
-    tone: string;
-    style: string;
-    interests: string;
-  };
-  customInstructions: string;
-  systemNotes: string;
-  tags: string;
-}
-
-interface MemoryItem {
-  id: string;
-  content: string;
-  createdAt: string;
-  tags: string[];
-}
+import {
+  getMemories,
+  clearAllMemories,
+  getMemoryProfile,
+  saveMemoryProfile,
+  renderMemoryPrompt,
+  fromLegacyMemoryData,
+  EMPTY_MEMORY_PROFILE,
+  type MemoryItem,
+  type MemoryProfile
+} from "@/utils/memoryUtils";
+import { MemoryManager } from "./MemoryManager";
+import { MemorySuggestions } from "./MemorySuggestions";
+import { MemoryHistory } from "./MemoryHistory";
 
 interface MemoryModalProps {
   isOpen: boolean;
   onClose: () => void;
+  /** Run memory consolidation now */
+  onConsolidate?: () => Promise<void>;
 }
 
 export const MemoryModal = ({
   isOpen,
-  onClose
+  onClose,
+  onConsolidate
 }: MemoryModalProps) => {
   const currentProfileId = localStorage.getItem('vivica-current-profile') || '';
-  const [memory, setMemory] = useState<MemoryData>({
-    identity: {
-      name: '',
-      pronouns: '',
-      occupation: '',
-      location: '',
-    },
-    personality: {
-      tone: '',
-      style: '',
-      interests: '',
-    },
-    customInstructions: '',
-    systemNotes: '',
-    tags: '',
-  });
+  // Which scope's record the form edits
+  const [scope, setScope] = useState<'global' | 'profile'>('global');
+  const [fields, setFields] = useState<MemoryProfile>(EMPTY_MEMORY_PROFILE);
+  const [tags, setTags] = useState('');
 
   const [isActive, setIsActive] = useState(true);
-  const [scopeFilter, setScopeFilter] = useState<'all'|'global'|'profile'>('all');
   const [memories, setMemories] = useState<MemoryItem[]>([]);
 
   useEffect(() => {
-    const profileId = localStorage.getItem('vivica-current-profile') || '';
-    const profileKey = profileId ? `vivica-memory-profile-${profileId}` : '';
-    const profileMem = profileKey ? localStorage.getItem(profileKey) : null;
-    const globalMem = localStorage.getItem('vivica-memory-global');
     const memoryActive = localStorage.getItem('vivica-memory-active');
-
-    const stored = profileMem || globalMem;
-    if (stored) {
-      setMemory(JSON.parse(stored));
-    }
-
     if (memoryActive !== null) {
       setIsActive(JSON.parse(memoryActive));
     }
-
-    // Clean up legacy key from earlier versions
-    localStorage.removeItem('vivica-memory');
   }, []);
 
-  const handleDelete = async (entry: {id: string}) => {
-    await deleteMemory(entry.id);
-    setMemories(prev => prev.filter(m => m.id !== entry.id));
-  };
-
-  const handleEdit = async (entry: MemoryItem) => {
-    const newContent = prompt('Edit memory', entry.content);
-    if (newContent !== null && newContent.trim() !== '') {
-      const updated = await editMemory(entry.id, newContent.trim());
-      if (updated) {
-        setMemories(prev => prev.map(m => m.id === entry.id ? updated : m));
-      }
-    }
-  };
-
-  // Load saved memory entries from IndexedDB when modal opens
+  // Load the form for the chosen scope when the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    getMemoryProfile(scope, currentProfileId)
+      .then(saved => {
+        setFields(saved.fields);
+        setTags(saved.tags.join(', '));
+      })
+      .catch(e => console.warn('Failed to load memory profile', e));
+  }, [isOpen, scope, currentProfileId]);
+
+  // Load saved memory entries from IndexedDB when modal opens, and again
+  // when consolidation or an undo changes them
   useEffect(() => {
     if (!isOpen) return;
-    getMemories(currentProfileId, 'all').then(setMemories);
+    const refresh = () => getMemories(currentProfileId, 'all').then(setMemories);
+    refresh();
+    window.addEventListener('memoryUpdated', refresh);
+    return () => window.removeEventListener('memoryUpdated', refresh);
   }, [isOpen, currentProfileId]);
 
-  const handleSave = () => {
-    const profileId = localStorage.getItem('vivica-current-profile');
-    const saveMemory = {
-      ...memory,
-      profileId: memory.scope === 'profile' ? profileId : undefined
-    };
+  const setField = (field: keyof MemoryProfile, value: string) =>
+    setFields(prev => ({ ...prev, [field]: value }));
 
-    const key = memory.scope === 'global'
-      ? 'vivica-memory-global'
-      : `vivica-memory-profile-${profileId}`;
-
-    // Persist memory under the scoped key
-    localStorage.setItem(key, JSON.stringify(saveMemory));
+  const handleSave = async () => {
+    if (scope === 'profile' && !currentProfileId) {
+      toast.error('Pick a profile first');
+      return;
+    }
+    const tagList = tags.split(',').map(t => t.trim()).filter(Boolean);
+    await saveMemoryProfile(fields, scope, currentProfileId, tagList);
     localStorage.setItem('vivica-memory-active', JSON.stringify(isActive));
-    
-    toast.success(`Memory saved (${memory.scope} scope)!`);
+
+    toast.success(`Memory saved (${scope} scope)!`);
     onClose();
   };
 
-  const handleReset = () => {
+  const handleReset = async () => {
     if (confirm("Are you sure you want to reset all memory data? This action cannot be undone.")) {
-      const emptyMemory: MemoryData = {
-        identity: { name: '', pronouns: '', occupation: '', location: '' },
-        personality: { tone: '', style: '', interests: '' },
-        customInstructions: '',
-        systemNotes: '',
-        tags: '',
-      };
-      setMemory(emptyMemory);
-      // Remove all persisted memory keys for full reset
-      const profileId = localStorage.getItem('vivica-current-profile') || '';
-      localStorage.removeItem('vivica-memory-global');
-      if (profileId) localStorage.removeItem(`vivica-memory-profile-${profileId}`);
-      localStorage.removeItem('vivica-memory');
+      setFields(EMPTY_MEMORY_PROFILE);
+      setTags('');
       localStorage.removeItem('vivica-memory-active');
-      clearAllMemories();
+      // Profile records and facts share the store, so this clears both
+      await clearAllMemories();
+      setMemories([]);
+      window.dispatchEvent(new Event('memoryUpdated'));
       toast.success("Memory data reset");
     }
   };
 
   const handleExport = () => {
-    const dataStr = JSON.stringify(memory, null, 2);
+    const dataStr = JSON.stringify({ scope, fields, tags }, null, 2);
     const dataBlob = new Blob([dataStr], { type: 'application/json' });
     const url = URL.createObjectURL(dataBlob);
     const link = document.createElement('a');
@@ -173,7 +125,15 @@ export const MemoryModal = ({
       reader.onload = (e) => {
         try {
           const importedData = JSON.parse(e.target?.result as string);
-          setMemory(importedData);
+          // Exports from older versions carry the nested identity/personality form
+          if (importedData.fields) {
+            setFields({ ...EMPTY_MEMORY_PROFILE, ...importedData.fields });
+            setTags(importedData.tags || '');
+          } else {
+            const legacy = fromLegacyMemoryData(importedData);
+            setFields(legacy.fields);
+            setTags(legacy.tags.join(', '));
+          }
           toast.success("Memory imported successfully");
         } catch (error) {
           toast.error("Invalid file format");
@@ -183,47 +143,7 @@ export const MemoryModal = ({
     }
   };
 
-  const generateSystemPrompt = () => {
-    let prompt = "";
-    
-    if (memory.identity.name) {
-      prompt += `The user's name is ${memory.identity.name}. `;
-    }
-    
-    if (memory.identity.pronouns) {
-      prompt += `Use ${memory.identity.pronouns} pronouns when referring to the user. `;
-    }
-    
-    if (memory.identity.occupation) {
-      prompt += `The user works as ${memory.identity.occupation}. `;
-    }
-    
-    if (memory.identity.location) {
-      prompt += `The user is located in ${memory.identity.location}. `;
-    }
-    
-    if (memory.personality.tone) {
-      prompt += `Adopt a ${memory.personality.tone} tone when responding. `;
-    }
-    
-    if (memory.personality.style) {
-      prompt += `Use a ${memory.personality.style} communication style. `;
-    }
-    
-    if (memory.personality.interests) {
-      prompt += `The user is interested in: ${memory.personality.interests}. `;
-    }
-    
-    if (memory.customInstructions) {
-      prompt += `${memory.customInstructions} `;
-    }
-    
-    if (memory.systemNotes) {
-      prompt += `Additional notes: ${memory.systemNotes}`;
-    }
-    
-    return prompt.trim();
-  };
+  const promptPreview = renderMemoryPrompt([fields]);
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -241,48 +161,46 @@ export const MemoryModal = ({
         </DialogHeader>
 
         <div className="space-y-6 py-4">
-          {/* Memory Scope Filter */}
-          <div className="flex items-end justify-between gap-4">
-            <div className="space-y-2">
-              <Label className="text-base font-semibold">Filter Memories</Label>
-              <div className="flex gap-2">
-                <Button
-                  variant={scopeFilter === 'all' ? 'default' : 'outline'}
-                  size="sm"
-                  onClick={() => setScopeFilter('all')}
-                >
-                  All
-                </Button>
-                <Button
-                  variant={scopeFilter === 'global' ? 'default' : 'outline'}
-                  size="sm"
-                  onClick={() => setScopeFilter('global')}
-                >
-                  Global
-                </Button>
-                <Button
-                  variant={scopeFilter === 'profile' ? 'default' : 'outline'}
-                  size="sm"
-                  onClick={() => setScopeFilter('profile')}
-                >
-                  Current Profile
-                </Button>
-              </div>
-            </div>
-            <div>
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              Memories are only sent to the model while memory is active
+            </p>
+            <Button
+              variant={isActive ? "default" : "outline"}
+              size="sm"
+              className="min-w-[100px]"
+              onClick={() => setIsActive(!isActive)}
+            >
+              {isActive ? "Active" : "Inactive"}
+            </Button>
+          </div>
+
+          <Separator />
+
+          {/* Scope of the form below */}
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              Profile details below apply to
+            </p>
+            <div className="flex gap-1">
+              <Button
+                variant={scope === 'global' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setScope('global')}
+              >
+                All profiles
+              </Button>
               <Button
-                variant={isActive ? "default" : "outline"}
+                variant={scope === 'profile' ? 'default' : 'outline'}
                 size="sm"
-                className="min-w-[100px]"
-                onClick={() => setIsActive(!isActive)}
+                onClick={() => setScope('profile')}
+                disabled={!currentProfileId}
               >
-                {isActive ? "Active" : "Inactive"}
+                This profile
               </Button>
             </div>
           </div>
 
-          <Separator />
-
           {/* Identity Section */}
           <div className="space-y-4">
             <Label className="text-base font-semibold">Identity</Label>
@@ -291,11 +209,8 @@ export const MemoryModal = ({
                 <Label htmlFor="name">Name</Label>
                 <Input
                   id="name"
-                  value={memory.identity.name}
-                  onChange={(e) => setMemory(prev => ({
-                    ...prev,
-                    identity: { ...prev.identity, name: e.target.value }
-                  }))}
+                  value={fields.name}
+                  onChange={(e) => setField('name', e.target.value)}
                   placeholder="Your name"
                 />
               </div>
@@ -303,11 +218,8 @@ export const MemoryModal = ({
                 <Label htmlFor="pronouns">Pronouns</Label>
                 <Input
                   id="pronouns"
-                  value={memory.identity.pronouns}
-                  onChange={(e) => setMemory(prev => ({
-                    ...prev,
-                    identity: { ...prev.identity, pronouns: e.target.value }
-                  }))}
+                  value={fields.pronouns}
+                  onChange={(e) => setField('pronouns', e.target.value)}
                   placeholder="they/them, she/her, he/him"
                 />
               </div>
@@ -315,11 +227,8 @@ export const MemoryModal = ({
                 <Label htmlFor="occupation">Occupation</Label>
                 <Input
                   id="occupation"
-                  value={memory.identity.occupation}
-                  onChange={(e) => setMemory(prev => ({
-                    ...prev,
-                    identity: { ...prev.identity, occupation: e.target.value }
-                  }))}
+                  value={fields.occupation}
+                  onChange={(e) => setField('occupation', e.target.value)}
                   placeholder="Software Developer"
                 />
               </div>
@@ -327,11 +236,8 @@ export const MemoryModal = ({
                 <Label htmlFor="location">Location</Label>
                 <Input
                   id="location"
-                  value={memory.identity.location}
-                  onChange={(e) => setMemory(prev => ({
-                    ...prev,
-                    identity: { ...prev.identity, location: e.target.value }
-                  }))}
+                  value={fields.location}
+                  onChange={(e) => setField('location', e.target.value)}
                   placeholder="New York, USA"
                 />
               </div>
@@ -346,11 +252,8 @@ export const MemoryModal = ({
                 <Label htmlFor="tone">Preferred Tone</Label>
                 <Input
                   id="tone"
-                  value={memory.personality.tone}
-                  onChange={(e) => setMemory(prev => ({
-                    ...prev,
-                    personality: { ...prev.personality, tone: e.target.value }
-                  }))}
+                  value={fields.tone}
+                  onChange={(e) => setField('tone', e.target.value)}
                   placeholder="friendly, professional, casual, formal"
                 />
               </div>
@@ -358,11 +261,8 @@ export const MemoryModal = ({
                 <Label htmlFor="style">Communication Style</Label>
                 <Input
                   id="style"
-                  value={memory.personality.style}
-                  onChange={(e) => setMemory(prev => ({
-                    ...prev,
-                    personality: { ...prev.personality, style: e.target.value }
-                  }))}
+                  value={fields.style}
+                  onChange={(e) => setField('style', e.target.value)}
                   placeholder="concise, detailed, creative, analytical"
                 />
               </div>
@@ -370,11 +270,8 @@ export const MemoryModal = ({
                 <Label htmlFor="interests">Interests & Hobbies</Label>
                 <Textarea
                   id="interests"
-                  value={memory.personality.interests}
-                  onChange={(e) => setMemory(prev => ({
-                    ...prev,
-                    personality: { ...prev.personality, interests: e.target.value }
-                  }))}
+                  value={fields.interests}
+                  onChange={(e) => setField('interests', e.target.value)}
                   placeholder="programming, music, cooking, travel..."
                   rows={2}
                 />
@@ -386,8 +283,8 @@ export const MemoryModal = ({
           <div className="space-y-4">
             <Label className="text-base font-semibold">Custom Instructions</Label>
             <Textarea
-              value={memory.customInstructions}
-              onChange={(e) => setMemory(prev => ({ ...prev, customInstructions: e.target.value }))}
+              value={fields.customInstructions}
+              onChange={(e) => setField('customInstructions', e.target.value)}
               placeholder="Specific instructions for how the AI should behave..."
               rows={3}
             />
@@ -397,8 +294,8 @@ export const MemoryModal = ({
           <div className="space-y-4">
             <Label className="text-base font-semibold">System Notes</Label>
             <Textarea
-              value={memory.systemNotes}
-              onChange={(e) => setMemory(prev => ({ ...prev, systemNotes: e.target.value }))}
+              value={fields.systemNotes}
+              onChange={(e) => setField('systemNotes', e.target.value)}
               placeholder="Additional context or notes for the AI..."
               rows={3}
             />
@@ -408,80 +305,35 @@ export const MemoryModal = ({
           <div className="space-y-4">
             <Label className="text-base font-semibold">Tags</Label>
             <Input
-              value={memory.tags}
-              onChange={(e) => setMemory(prev => ({ ...prev, tags: e.target.value }))}
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
               placeholder="work, personal, creative, technical"
             />
             <p className="text-sm text-muted-foreground">Comma-separated tags for organization</p>
           </div>
 
           {/* Generated Prompt Preview */}
-          {generateSystemPrompt() && (
+          {promptPreview && (
             <div className="space-y-4">
               <Label className="text-base font-semibold">Generated System Prompt Preview</Label>
               <div className="p-3 bg-muted/30 rounded-lg text-sm">
-                {generateSystemPrompt()}
+                {promptPreview}
               </div>
             </div>
           )}
 
-          {/* Memory List */}
-          {memories?.length > 0 && (
-            <div className="space-y-4">
-              <Label className="text-base font-semibold">Saved Memories</Label>
-              <div className="space-y-3">
-                {memories.filter(entry => {
-                  if (scopeFilter === 'all') return true;
-                  if (scopeFilter === 'global') return entry.scope === 'global';
-                  return entry.scope === 'profile' && entry.profileId === currentProfileId;
-                }).map((entry) => (
-                  <div key={entry.id} className="p-3 bg-muted/10 rounded-lg border border-border">
-                    <div className="flex justify-between items-start">
-                      <div className="space-y-2">
-                        <div className="text-sm whitespace-pre-line">
-                          {
-                            // Handle cases where content might be an object
-                            typeof entry.content === 'string'
-                              ? entry.content
-                              : (console.log('Non-string memory entry', entry.content),
-                                JSON.stringify(entry.content))
-                          }
-                        </div>
-                        <div className="text-xs text-muted-foreground flex items-center gap-2">
-                          <span className={`inline-block w-2 h-2 rounded-full ${
-                            entry.scope === 'global' ? 'bg-blue-500' : 'bg-purple-500'
-                          }`} title={entry.scope === 'global' ? 'Global memory' : 'Profile memory'}/>
-                          {new Date(entry.createdAt).toLocaleString()}
-                          {entry.tags?.length > 0 && (
-                            <span className="ml-2">
-                              {entry.tags.map(tag => `#${tag}`).join(', ')}
-                            </span>
-                          )}
-                        </div>
-                      </div>
-                      <div className="flex gap-1">
-                        <Button
-                          variant="ghost"
-                          size="xs"
-                          onClick={() => handleEdit(entry)}
-                        >
-                          <FaEdit className="w-4 h-4" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="xs"
-                          className="text-destructive hover:text-destructive"
-                          onClick={() => handleDelete({ id: entry.id })}
-                        >
-                          <FaTrash className="w-4 h-4" />
-                        </Button>
-                      </div>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </div>
-          )}
+          <MemorySuggestions onAccepted={(saved) => setMemories(prev => [saved, ...prev])} />
+
+          <Separator />
+
+          <MemoryManager memories={memories} setMemories={setMemories} profileId={currentProfileId} />
+
+          <Separator />
+
+          <MemoryHistory
+            onConsolidate={onConsolidate}
+            onUndone={() => getMemories(currentProfileId, 'all').then(setMemories)}
+          />
 
           {/* Import/Export */}
           <div className="flex gap-2">
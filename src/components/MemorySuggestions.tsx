@@ -0,0 +1,94 @@
+import { useState, useEffect } from "react";
+import { Check, X, Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import {
+  loadSuggestions,
+  acceptSuggestion,
+  dismissSuggestion,
+  dismissAllSuggestions,
+  type MemorySuggestion
+} from "@/services/memoryExtraction";
+import type { MemoryItem } from "@/utils/memoryUtils";
+
+interface MemorySuggestionsProps {
+  /** Called with each memory saved from the inbox */
+  onAccepted: (memory: MemoryItem) => void;
+}
+
+// Inbox of facts the extractor found, each editable before it's saved
+export const MemorySuggestions = ({ onAccepted }: MemorySuggestionsProps) => {
+  const [suggestions, setSuggestions] = useState<MemorySuggestion[]>(loadSuggestions);
+  // Edited wording by suggestion id
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const refresh = () => setSuggestions(loadSuggestions());
+    window.addEventListener('memorySuggestionsUpdated', refresh);
+    return () => window.removeEventListener('memorySuggestionsUpdated', refresh);
+  }, []);
+
+  if (!suggestions.length) return null;
+
+  const handleAccept = async (suggestion: MemorySuggestion) => {
+    const content = drafts[suggestion.id]?.trim();
+    const memory = await acceptSuggestion(suggestion.id, content || undefined);
+    if (memory) onAccepted(memory);
+  };
+
+  const handleAcceptAll = async () => {
+    for (const suggestion of suggestions) await handleAccept(suggestion);
+    toast.success('Suggestions saved to memory');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <Label className="text-base font-semibold flex items-center gap-2">
+          <Sparkles className="w-4 h-4" />
+          Suggested Memories ({suggestions.length})
+        </Label>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={dismissAllSuggestions}>
+            Dismiss all
+          </Button>
+          <Button size="sm" onClick={handleAcceptAll}>
+            Save all
+          </Button>
+        </div>
+      </div>
+      {suggestions.map(suggestion => (
+        <div key={suggestion.id} className="flex items-start gap-2 p-3 rounded-lg border border-dashed border-primary/50">
+          <Textarea
+            value={drafts[suggestion.id] ?? suggestion.content}
+            onChange={(e) => setDrafts(prev => ({ ...prev, [suggestion.id]: e.target.value }))}
+            rows={2}
+            className="flex-1 text-sm"
+          />
+          <div className="flex flex-col gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => handleAccept(suggestion)}
+              title="Save to memory"
+            >
+              <Check className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 text-destructive hover:text-destructive"
+              onClick={() => dismissSuggestion(suggestion.id)}
+              title="Dismiss"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import { useEffect, useState } from "react";
+import { FileText } from "lucide-react";
+import { getAttachmentsFromDb } from "@/utils/indexedDb";
+import { formatFileSize, type AttachmentMeta } from "@/utils/attachments";
+
+// Files on a sent message: image thumbnails and file chips, each opening
+// the stored blob in a new tab
+export const MessageAttachments = ({ attachments }: { attachments: AttachmentMeta[] }) => {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    const created: string[] = [];
+    getAttachmentsFromDb(attachments.map(a => a.id))
+      .then(records => {
+        if (cancelled) return;
+        const next: Record<string, string> = {};
+        records.forEach(r => {
+          next[r.id] = URL.createObjectURL(r.blob);
+          created.push(next[r.id]);
+        });
+        setUrls(next);
+      })
+      .catch(err => console.warn('Could not load attachments', err));
+    return () => {
+      cancelled = true;
+      created.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [attachments]);
+
+  return (
+    <div className="mb-2 flex flex-wrap gap-2">
+      {attachments.map(a => {
+        const url = urls[a.id];
+        if (a.kind === 'image' && url) {
+          return (
+            <a key={a.id} href={url} target="_blank" rel="noreferrer" title={a.name}>
+              <img src={url} alt={a.name} className="max-h-48 max-w-[16rem] rounded-md object-cover" />
+            </a>
+          );
+        }
+        return (
+          <a
+            key={a.id}
+            href={url}
+            target="_blank"
+            rel="noreferrer"
+            className={`flex items-center gap-2 rounded-md border border-border/60 px-2 py-1.5 text-xs no-underline ${
+              url ? 'hover:bg-muted/50' : 'pointer-events-none opacity-60'
+            }`}
+          >
+            <FileText className="w-4 h-4 shrink-0" />
+            <span className="max-w-[12rem] truncate">{a.name}</span>
+            <span className="opacity-70">{formatFileSize(a.size)}</span>
+          </a>
+        );
+      })}
+    </div>
+  );
+};
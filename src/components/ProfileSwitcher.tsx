@@ -4,6 +4,7 @@ import { User } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { ProfileSelectionModal } from "./ProfileSelectionModal";
 import { Storage } from "@/utils/storage";
+import { secureStorage } from "@/utils/vault";
 
 interface Profile {
   id: string;
@@ -31,7 +32,7 @@ export const ProfileSwitcher = ({
   const [showModal, setShowModal] = useState(false);
 
   const loadProfiles = () => {
-    const savedProfiles = localStorage.getItem('vivica-profiles');
+    const savedProfiles = secureStorage.getItem('vivica-profiles');
     let list: Profile[] = [];
 
     if (savedProfiles) {
@@ -45,7 +46,7 @@ export const ProfileSwitcher = ({
     if (!list.some(p => p.isVivica)) {
       // Auto-recreate Vivica if missing
       list.unshift(Storage.createVivicaProfile());
-      localStorage.setItem('vivica-profiles', JSON.stringify(list));
+      secureStorage.setItem('vivica-profiles', JSON.stringify(list));
     }
 
     setProfiles(list);
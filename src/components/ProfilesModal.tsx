@@ -11,9 +11,20 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import { ModelSelector } from "@/components/ModelSelector";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { toast } from "sonner";
 import { Storage } from "@/utils/storage";
+import { secureStorage } from "@/utils/vault";
+import { PROVIDERS, getProviderAdapter, type ProviderId } from "@/services/providers";
+import { DEFAULT_CONTEXT_LENGTH } from "@/utils/contextBuilder";
 
 interface Profile {
   id: string;
@@ -24,6 +35,12 @@ interface Profile {
   temperature: number;
   maxTokens: number;
   isVivica?: boolean;
+  provider?: ProviderId;
+  baseUrl?: string;
+  apiKey?: string;
+  contextLength?: number;
+  /** Offer tools to a self-hosted model; only some have a tool-calling template */
+  toolUse?: boolean;
 }
 
 interface ProfilesModalProps {
@@ -37,8 +54,12 @@ export const ProfilesModal = ({ isOpen, onClose }: ProfilesModalProps) => {
   const [editingProfile, setEditingProfile] = useState<Profile | null>(null);
   const [showForm, setShowForm] = useState(false);
 
+  const providerAdapter = getProviderAdapter(editingProfile?.provider);
+  // OpenRouter profiles pick from the model catalogue; other providers take a free-form id
+  const isOpenRouter = providerAdapter.id === 'openrouter';
+
   useEffect(() => {
-    const saved = localStorage.getItem('vivica-profiles');
+    const saved = secureStorage.getItem('vivica-profiles');
     let list: Profile[] = [];
 
     if (saved) {
@@ -70,7 +91,7 @@ export const ProfilesModal = ({ isOpen, onClose }: ProfilesModalProps) => {
     }
 
     setProfiles(list);
-    localStorage.setItem('vivica-profiles', JSON.stringify(list));
+    secureStorage.setItem('vivica-profiles', JSON.stringify(list));
   }, []);
 
   const handleCreateProfile = () => {
@@ -94,7 +115,7 @@ export const ProfilesModal = ({ isOpen, onClose }: ProfilesModalProps) => {
 
   const persistProfiles = (list: Profile[]) => {
     setProfiles(list);
-    localStorage.setItem('vivica-profiles', JSON.stringify(list));
+    secureStorage.setItem('vivica-profiles', JSON.stringify(list));
     window.dispatchEvent(new Event('profilesUpdated'));
   };
 
@@ -174,6 +195,9 @@ export const ProfilesModal = ({ isOpen, onClose }: ProfilesModalProps) => {
                       <h3 className="font-semibold text-lg">{profile.name}</h3>
                       <p className="text-sm text-muted-foreground mb-2">
                         Model: {profile.model}
+                        {profile.provider && profile.provider !== 'openrouter' && (
+                          <> · {getProviderAdapter(profile.provider).label}</>
+                        )}
                       </p>
                       <p className="text-sm text-muted-foreground line-clamp-2">
                         {profile.systemPrompt}
@@ -223,25 +247,123 @@ export const ProfilesModal = ({ isOpen, onClose }: ProfilesModalProps) => {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="model">AI Model</Label>
-              <ModelSelector
-                value={editingProfile?.model || ''}
-                onValueChange={(value) =>
-                  setEditingProfile(prev => prev ? { ...prev, model: value } : null)
+              <Label htmlFor="provider">Provider</Label>
+              <Select
+                value={editingProfile?.provider || 'openrouter'}
+                onValueChange={(value: ProviderId) =>
+                  setEditingProfile(prev => prev ? { ...prev, provider: value } : null)
                 }
-                placeholder="Select an AI model"
-              />
+              >
+                <SelectTrigger id="provider">
+                  <SelectValue placeholder="Choose a provider" />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROVIDERS.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {!isOpenRouter && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="baseUrl">Base URL</Label>
+                  <Input
+                    id="baseUrl"
+                    value={editingProfile?.baseUrl || ''}
+                    onChange={(e) =>
+                      setEditingProfile(prev => prev ? { ...prev, baseUrl: e.target.value } : null)
+                    }
+                    placeholder={providerAdapter.defaultBaseUrl}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="providerKey">
+                    API Key{providerAdapter.keyOptional ? ' (optional)' : ''}
+                  </Label>
+                  <Input
+                    id="providerKey"
+                    type="password"
+                    value={editingProfile?.apiKey || ''}
+                    onChange={(e) =>
+                      setEditingProfile(prev => prev ? { ...prev, apiKey: e.target.value } : null)
+                    }
+                    placeholder="Stored locally"
+                  />
+                </div>
+                <div className="space-y-2 col-span-2">
+                  <Label htmlFor="contextLength">Context Length (tokens)</Label>
+                  <Input
+                    id="contextLength"
+                    type="number"
+                    min="512"
+                    value={editingProfile?.contextLength || ''}
+                    onChange={(e) =>
+                      setEditingProfile(prev => prev ? { ...prev, contextLength: parseInt(e.target.value) || undefined } : null)
+                    }
+                    placeholder={String(DEFAULT_CONTEXT_LENGTH)}
+                  />
+                </div>
+                {providerAdapter.id === 'openai-compatible' && (
+                  <div className="flex items-center space-x-2 col-span-2">
+                    <Checkbox
+                      id="toolUse"
+                      checked={!!editingProfile?.toolUse}
+                      onCheckedChange={(checked) =>
+                        setEditingProfile(prev => prev ? { ...prev, toolUse: checked === true } : null)
+                      }
+                    />
+                    <Label htmlFor="toolUse">Model supports tool calls</Label>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="model">AI Model</Label>
+              {isOpenRouter ? (
+                <ModelSelector
+                  value={editingProfile?.model || ''}
+                  onValueChange={(value) =>
+                    setEditingProfile(prev => prev ? { ...prev, model: value } : null)
+                  }
+                  placeholder="Select an AI model"
+                />
+              ) : (
+                <Input
+                  id="model"
+                  value={editingProfile?.model || ''}
+                  onChange={(e) =>
+                    setEditingProfile(prev => prev ? { ...prev, model: e.target.value } : null)
+                  }
+                  placeholder="Model id as the server names it"
+                />
+              )}
             </div>
 
             <div className="space-y-2">
               <Label htmlFor="codeModel">Coding Model</Label>
-              <ModelSelector
-                value={editingProfile?.codeModel || ''}
-                onValueChange={(value) =>
-                  setEditingProfile(prev => prev ? { ...prev, codeModel: value } : null)
-                }
-                placeholder="Select a coding model"
-              />
+              {isOpenRouter ? (
+                <ModelSelector
+                  value={editingProfile?.codeModel || ''}
+                  onValueChange={(value) =>
+                    setEditingProfile(prev => prev ? { ...prev, codeModel: value } : null)
+                  }
+                  placeholder="Select a coding model"
+                />
+              ) : (
+                <Input
+                  id="codeModel"
+                  value={editingProfile?.codeModel || ''}
+                  onChange={(e) =>
+                    setEditingProfile(prev => prev ? { ...prev, codeModel: e.target.value } : null)
+                  }
+                  placeholder="Optional coding model id"
+                />
+              )}
             </div>
 
             <div className="space-y-2">
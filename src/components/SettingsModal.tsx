@@ -1,6 +1,6 @@
 
 import { useState, useEffect } from "react";
-import { X, AlertTriangle, Key, Save, Trash } from "lucide-react";
+import { X, AlertTriangle, Key, Save, Trash, FileDown, FileUp, Archive } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -12,10 +12,31 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { toast } from "sonner";
 import { ThemeSelector } from "./ThemeSelector";
-import { ApiKeyInput } from "./ApiKeyInput";
+import { ApiKeyManager } from "./ApiKeyManager";
+import { BackupRestoreDialog } from "./BackupRestoreDialog";
+import { VaultSettings } from "./VaultSettings";
 import { DEFAULT_RSS_FEED } from "@/utils/constants";
+import { clearAllConversations } from "@/utils/conversationUtils";
+import {
+  exportAllConversations,
+  importConversations,
+  EXPORT_FORMATS,
+  type ExportFormat
+} from "@/utils/conversationExport";
+import { downloadBackup, parseBackup, type BackupFile } from "@/utils/backup";
+import { secureStorage, getAutoLockMinutes } from "@/utils/vault";
+import { KEY_STRATEGIES, type KeyStrategy } from "@/services/keyManager";
+import { DEFAULT_EMBEDDING_SETTINGS, type EmbeddingSource } from "@/services/embeddingService";
+import { DEFAULT_EXTRACTION_MODEL, type ExtractionMode } from "@/services/memoryExtraction";
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -24,14 +45,26 @@ interface SettingsModalProps {
 
 export const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
   const [settings, setSettings] = useState({
-    apiKey1: '',
-    apiKey2: '',
-    apiKey3: '',
-    braveApiKey: localStorage.getItem('braveApiKey') || '',
+    keyStrategy: 'priority' as KeyStrategy,
+    braveApiKey: secureStorage.getItem('braveApiKey') || '',
     rssFeeds: DEFAULT_RSS_FEED,
     includeWeather: false,
     includeRss: false,
+    briefingTime: '',
+    rollingSummary: true,
+    enableTools: true,
+    memoryEmbeddings: DEFAULT_EMBEDDING_SETTINGS.memoryEmbeddings as EmbeddingSource,
+    embeddingModel: DEFAULT_EMBEDDING_SETTINGS.embeddingModel,
+    memoryTopK: DEFAULT_EMBEDDING_SETTINGS.memoryTopK,
+    memoryTokenBudget: DEFAULT_EMBEDDING_SETTINGS.memoryTokenBudget,
+    memoryExtraction: 'off' as ExtractionMode,
+    extractionModel: DEFAULT_EXTRACTION_MODEL,
+    memoryConsolidation: false,
+    vaultAutoLockMinutes: getAutoLockMinutes(),
   });
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('json');
+  const [backupIncludesKeys, setBackupIncludesKeys] = useState(false);
+  const [pendingBackup, setPendingBackup] = useState<BackupFile | null>(null);
 
   useEffect(() => {
     // Load settings from localStorage when modal opens
@@ -40,6 +73,8 @@ export const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
       if (savedSettings) {
         try {
           const parsed = JSON.parse(savedSettings);
+          // Older versions kept the Brave key in here; the separate key is authoritative
+          delete parsed.braveApiKey;
           setSettings(prev => ({ ...prev, ...parsed }));
         } catch (error) {
           console.error('Failed to parse saved settings:', error);
@@ -49,17 +84,69 @@ export const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
   }, [isOpen]);
 
   const handleSave = () => {
-    // Save settings to localStorage
-    localStorage.setItem('vivica-settings', JSON.stringify(settings));
-    // Store Brave API key separately for easy access
-    localStorage.setItem('braveApiKey', settings.braveApiKey);
+    // Save settings to localStorage; the Brave key is kept out of them so the vault can protect it
+    const { braveApiKey, ...rest } = settings;
+    localStorage.setItem('vivica-settings', JSON.stringify(rest));
+    secureStorage.setItem('braveApiKey', braveApiKey);
     toast.success("Settings saved successfully!");
     onClose();
   };
 
-  const handleClearAllConversations = () => {
+  const handleExportConversations = async () => {
+    try {
+      const count = await exportAllConversations(exportFormat);
+      if (count) toast.success(`Exported ${count} conversation${count === 1 ? '' : 's'}`);
+      else toast.error("No conversations to export");
+    } catch (error) {
+      console.error('Failed to export conversations:', error);
+      toast.error("Failed to export conversations");
+    }
+  };
+
+  const handleImportConversations = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = async (e) => {
+      try {
+        const { imported, skipped } = await importConversations(e.target?.result as string);
+        toast.success(`Imported ${imported} conversation${imported === 1 ? '' : 's'}${skipped ? `, ${skipped} already present` : ''}`);
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "Invalid file format");
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleCreateBackup = async () => {
+    try {
+      await downloadBackup(backupIncludesKeys);
+      toast.success("Backup downloaded");
+    } catch (error) {
+      console.error('Failed to create backup:', error);
+      toast.error("Failed to create backup");
+    }
+  };
+
+  const handleSelectBackup = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        setPendingBackup(parseBackup(e.target?.result as string));
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "Invalid backup file");
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleClearAllConversations = async () => {
     if (confirm("Are you sure you want to clear all conversations? This action cannot be undone.")) {
-      localStorage.removeItem('vivica-conversations');
+      await clearAllConversations();
       localStorage.removeItem('vivica-current-conversation');
       toast.success("All conversations cleared");
       window.location.reload();
@@ -77,7 +164,31 @@ export const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
         </DialogHeader>
 
         <div className="space-y-6 py-4">
-          <ApiKeyInput onApiKeyChange={() => {}} />
+          <ApiKeyManager />
+
+          <div className="space-y-2">
+            <Label>Key selection</Label>
+            <Select
+              value={settings.keyStrategy}
+              onValueChange={(value: KeyStrategy) =>
+                setSettings(prev => ({ ...prev, keyStrategy: value }))
+              }
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Choose how keys are picked" />
+              </SelectTrigger>
+              <SelectContent>
+                {KEY_STRATEGIES.map((s) => (
+                  <SelectItem key={s.value} value={s.value}>
+                    {s.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">
+              Rate-limited keys are skipped until their cooldown ends
+            </p>
+          </div>
 
           {/* API Keys Section */}
           <div className="space-y-4">
@@ -95,10 +206,10 @@ export const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
                   onChange={(e) => setSettings(prev => ({ ...prev, braveApiKey: e.target.value }))}
                   className="flex-1"
                 />
-                {settings.braveApiKey !== localStorage.getItem('braveApiKey') && (
+                {settings.braveApiKey !== secureStorage.getItem('braveApiKey') && (
                   <Button 
                     onClick={() => {
-                      localStorage.setItem('braveApiKey', settings.braveApiKey);
+                      secureStorage.setItem('braveApiKey', settings.braveApiKey);
                       toast.success("Brave API Key saved!");
                     }}
                     variant="outline"
@@ -113,27 +224,7 @@ export const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
                 </p>
               )}
             </div>
-            <div className="space-y-3">
-              <Input
-                type="password"
-                placeholder="Primary API Key"
-                value={settings.apiKey1}
-                onChange={(e) => setSettings(prev => ({ ...prev, apiKey1: e.target.value }))}
-              />
-              <Input
-                type="password"
-                placeholder="Secondary API Key (Optional)"
-                value={settings.apiKey2}
-                onChange={(e) => setSettings(prev => ({ ...prev, apiKey2: e.target.value }))}
-              />
-              <Input
-                type="password"
-                placeholder="Tertiary API Key (Optional)"
-                value={settings.apiKey3}
-                onChange={(e) => setSettings(prev => ({ ...prev, apiKey3: e.target.value }))}
-              />
-              <p className="text-sm text-muted-foreground">Your API keys are stored locally and never shared</p>
-            </div>
+            <p className="text-sm text-muted-foreground">Your API keys are stored locally and never shared</p>
           </div>
 
           {/* RSS Feeds Section */}
@@ -148,6 +239,22 @@ export const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
             <p className="text-sm text-muted-foreground">Comma separated list of feeds</p>
           </div>
 
+          {/* Daily Briefing Section */}
+          <div className="space-y-2">
+            <Label htmlFor="briefing-time" className="text-base font-semibold">Daily Briefing</Label>
+            <Input
+              id="briefing-time"
+              type="time"
+              className="w-32"
+              value={settings.briefingTime}
+              onChange={(e) => setSettings(prev => ({ ...prev, briefingTime: e.target.value }))}
+            />
+            <p className="text-sm text-muted-foreground">
+              At this time each day the current profile opens a chat with the forecast, top headlines from the
+              feeds above and your reminders. Leave it empty to only brief on demand with /briefing.
+            </p>
+          </div>
+
           {/* Checkboxes */}
           <div className="space-y-3">
             <div className="flex items-center space-x-2">
@@ -170,8 +277,211 @@ export const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
               />
               <Label htmlFor="include-rss">Include RSS feeds in context</Label>
             </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="rolling-summary"
+                checked={settings.rollingSummary}
+                onCheckedChange={(checked) =>
+                  setSettings(prev => ({ ...prev, rollingSummary: checked as boolean }))
+                }
+              />
+              <Label htmlFor="rolling-summary">Summarize older messages in long chats</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="enable-tools"
+                checked={settings.enableTools}
+                onCheckedChange={(checked) =>
+                  setSettings(prev => ({ ...prev, enableTools: checked as boolean }))
+                }
+              />
+              <Label htmlFor="enable-tools">Let the model use tools (web search, weather, articles, memory)</Label>
+            </div>
+          </div>
+
+          {/* Memory Retrieval Section */}
+          <div className="space-y-4">
+            <Label className="text-base font-semibold">Memory Retrieval</Label>
+            <div className="space-y-2">
+              <Label>Embeddings</Label>
+              <Select
+                value={settings.memoryEmbeddings}
+                onValueChange={(value: EmbeddingSource) =>
+                  setSettings(prev => ({ ...prev, memoryEmbeddings: value }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="local">Local (offline, keyword based)</SelectItem>
+                  <SelectItem value="provider">Provider embeddings endpoint</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {settings.memoryEmbeddings === 'provider' && (
+              <div className="space-y-2">
+                <Label>Embedding model</Label>
+                <Input
+                  value={settings.embeddingModel}
+                  onChange={(e) => setSettings(prev => ({ ...prev, embeddingModel: e.target.value }))}
+                  placeholder={DEFAULT_EMBEDDING_SETTINGS.embeddingModel}
+                />
+              </div>
+            )}
+            <div className="flex gap-4">
+              <div className="space-y-2 flex-1">
+                <Label>Memories per message</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={settings.memoryTopK}
+                  onChange={(e) => setSettings(prev => ({ ...prev, memoryTopK: Number(e.target.value) }))}
+                />
+              </div>
+              <div className="space-y-2 flex-1">
+                <Label>Token budget</Label>
+                <Input
+                  type="number"
+                  min={50}
+                  step={50}
+                  value={settings.memoryTokenBudget}
+                  onChange={(e) => setSettings(prev => ({ ...prev, memoryTokenBudget: Number(e.target.value) }))}
+                />
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Only the stored memories closest to your latest message are added to the prompt
+            </p>
           </div>
 
+          {/* Memory Extraction Section */}
+          <div className="space-y-4">
+            <Label className="text-base font-semibold">Memory Extraction</Label>
+            <div className="space-y-2">
+              <Label>Learn facts from chats</Label>
+              <Select
+                value={settings.memoryExtraction}
+                onValueChange={(value: ExtractionMode) =>
+                  setSettings(prev => ({ ...prev, memoryExtraction: value }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="off">Off</SelectItem>
+                  <SelectItem value="suggest">Suggest, and wait for my approval</SelectItem>
+                  <SelectItem value="auto">Save automatically</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="memory-consolidation"
+                checked={settings.memoryConsolidation}
+                onCheckedChange={(checked) =>
+                  setSettings(prev => ({ ...prev, memoryConsolidation: checked as boolean }))
+                }
+              />
+              <Label htmlFor="memory-consolidation">Tidy memories daily</Label>
+            </div>
+            {(settings.memoryExtraction !== 'off' || settings.memoryConsolidation) && (
+              <div className="space-y-2">
+                <Label>Memory model (OpenRouter)</Label>
+                <Input
+                  value={settings.extractionModel}
+                  onChange={(e) => setSettings(prev => ({ ...prev, extractionModel: e.target.value }))}
+                  placeholder={DEFAULT_EXTRACTION_MODEL}
+                />
+              </div>
+            )}
+            <p className="text-sm text-muted-foreground">
+              After each reply, a small model looks for lasting facts like names, preferences and decisions.
+              Facts you already have are skipped. Daily tidying merges near-duplicate memories and condenses
+              long ones you haven't needed in a while; every change can be undone from the Memory window.
+              Profiles on other providers use their own model.
+            </p>
+          </div>
+
+          {/* Conversations Section */}
+          <div className="space-y-4">
+            <Label className="text-base font-semibold">Conversations</Label>
+            <div className="flex gap-2">
+              <Select value={exportFormat} onValueChange={(value: ExportFormat) => setExportFormat(value)}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPORT_FORMATS.map(f => (
+                    <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={handleExportConversations} className="flex-1">
+                <FileDown className="w-4 h-4 mr-2" />
+                Export All
+              </Button>
+              <label className="flex-1">
+                <Button variant="outline" className="w-full" asChild>
+                  <span>
+                    <FileUp className="w-4 h-4 mr-2" />
+                    Import
+                  </span>
+                </Button>
+                <input
+                  type="file"
+                  accept=".json"
+                  onChange={handleImportConversations}
+                  className="hidden"
+                />
+              </label>
+            </div>
+            <p className="text-sm text-muted-foreground">Only JSON exports can be imported back</p>
+          </div>
+
+          {/* Backup Section */}
+          <div className="space-y-4">
+            <Label className="text-base font-semibold">Backup & Restore</Label>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="backup-keys"
+                checked={backupIncludesKeys}
+                onCheckedChange={(checked) => setBackupIncludesKeys(checked as boolean)}
+              />
+              <Label htmlFor="backup-keys">Include API keys in backup</Label>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleCreateBackup} className="flex-1">
+                <Archive className="w-4 h-4 mr-2" />
+                Create Backup
+              </Button>
+              <label className="flex-1">
+                <Button variant="outline" className="w-full" asChild>
+                  <span>
+                    <FileUp className="w-4 h-4 mr-2" />
+                    Restore…
+                  </span>
+                </Button>
+                <input
+                  type="file"
+                  accept=".json"
+                  onChange={handleSelectBackup}
+                  className="hidden"
+                />
+              </label>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Profiles, settings, memories and every chat in one file. You'll see what changes before anything is restored.
+            </p>
+          </div>
+
+          {/* Vault Section */}
+          <VaultSettings
+            autoLockMinutes={settings.vaultAutoLockMinutes}
+            onAutoLockChange={(minutes) => setSettings(prev => ({ ...prev, vaultAutoLockMinutes: minutes }))}
+          />
+
           {/* Theme Section */}
           <ThemeSelector />
 
@@ -203,6 +513,7 @@ export const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
           </Button>
         </div>
       </DialogContent>
+      <BackupRestoreDialog backup={pendingBackup} onClose={() => setPendingBackup(null)} />
     </Dialog>
   );
 };
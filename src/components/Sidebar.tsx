@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { X, Plus, Search, User, Brain, Settings, MoreVertical, Edit2, Trash2, Sparkles } from "lucide-react";
+import { useState, useEffect } from "react";
+import { X, Plus, Search, User, Brain, Settings, MoreVertical, Edit2, Trash2, Sparkles, FileDown, BarChart3, Library } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useTheme } from "@/hooks/useTheme";
@@ -7,6 +7,9 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import {
@@ -15,6 +18,9 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import { searchMessages, type SearchHit } from "@/services/messageSearch";
+import { exportConversations, EXPORT_FORMATS, type ExportFormat } from "@/utils/conversationExport";
+import { toast } from "sonner";
 
 interface Message {
   id: string;
@@ -39,6 +45,8 @@ interface SidebarProps {
   conversations: Conversation[];
   currentConversation: Conversation | null;
   onSelectConversation: (conversation: Conversation) => void;
+  /** Open a conversation scrolled to a message found by search */
+  onOpenSearchResult: (conversation: Conversation, messageId: string) => void;
   onDeleteConversation: (conversationId: string) => void;
   onRenameConversation: (conversationId: string, newTitle: string) => void;
   /** Regenerate the conversation title via LLM */
@@ -47,6 +55,8 @@ interface SidebarProps {
   onOpenSettings: () => void;
   onOpenProfiles: () => void;
   onOpenMemory: () => void;
+  onOpenUsage: () => void;
+  onOpenDocuments: () => void;
 }
 
 export const Sidebar = ({
@@ -55,6 +65,7 @@ export const Sidebar = ({
   conversations,
   currentConversation,
   onSelectConversation,
+  onOpenSearchResult,
   onDeleteConversation,
   onRenameConversation,
   onGenerateTitle,
@@ -62,11 +73,14 @@ export const Sidebar = ({
   onOpenSettings,
   onOpenProfiles,
   onOpenMemory,
+  onOpenUsage,
+  onOpenDocuments,
 }: SidebarProps) => {
   const [searchTerm, setSearchTerm] = useState("");
   const [showRenameDialog, setShowRenameDialog] = useState(false);
   const [renamingConversation, setRenamingConversation] = useState<Conversation | null>(null);
   const [newTitle, setNewTitle] = useState("");
+  const [messageHits, setMessageHits] = useState<SearchHit[]>([]);
 
   const { color, variant } = useTheme();
   const logoSrc = `/logo-${color}${variant}.png`;
@@ -76,6 +90,53 @@ export const Sidebar = ({
     conv.lastMessage?.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
+  // Full-text search over message history, debounced while typing
+  useEffect(() => {
+    const query = searchTerm.trim();
+    if (query.length < 2) {
+      setMessageHits([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchMessages(query)
+        .then(hits => !cancelled && setMessageHits(hits))
+        .catch(e => console.warn('Message search failed', e));
+    }, 200);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchTerm]);
+
+  const conversationById = new Map(conversations.map(conv => [conv.id, conv]));
+  const visibleHits = messageHits.filter(hit => conversationById.has(hit.conversationId));
+
+  const renderSnippet = (hit: SearchHit) => {
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    hit.highlights.forEach(([start, end], i) => {
+      if (start > cursor) parts.push(hit.snippet.slice(cursor, start));
+      parts.push(
+        <mark key={i} className="bg-accent/30 text-foreground rounded-sm">
+          {hit.snippet.slice(start, end)}
+        </mark>
+      );
+      cursor = end;
+    });
+    parts.push(hit.snippet.slice(cursor));
+    return parts;
+  };
+
+  const handleExport = (conversation: Conversation, format: ExportFormat) => {
+    exportConversations([conversation], format)
+      .then(() => toast.success("Conversation exported"))
+      .catch(e => {
+        console.warn('Export failed', e);
+        toast.error("Failed to export conversation");
+      });
+  };
+
   const handleRename = (conversation: Conversation) => {
     setRenamingConversation(conversation);
     setNewTitle(conversation.title);
@@ -173,7 +234,7 @@ export const Sidebar = ({
           </div>
 
           <div className="flex-1 overflow-y-auto p-2">
-            {filteredConversations.length === 0 ? (
+            {filteredConversations.length === 0 && visibleHits.length === 0 ? (
               <div className="text-center text-muted-foreground py-8">
                 {searchTerm ? 'No conversations found' : 'No conversations yet'}
               </div>
@@ -224,6 +285,25 @@ export const Sidebar = ({
                             <Sparkles className="w-4 h-4 mr-2" />
                             Auto Title
                           </DropdownMenuItem>
+                          <DropdownMenuSub>
+                            <DropdownMenuSubTrigger onClick={(e) => e.stopPropagation()}>
+                              <FileDown className="w-4 h-4 mr-2" />
+                              Export
+                            </DropdownMenuSubTrigger>
+                            <DropdownMenuSubContent>
+                              {EXPORT_FORMATS.map(f => (
+                                <DropdownMenuItem
+                                  key={f.value}
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    handleExport(conversation, f.value);
+                                  }}
+                                >
+                                  {f.label}
+                                </DropdownMenuItem>
+                              ))}
+                            </DropdownMenuSubContent>
+                          </DropdownMenuSub>
                           <DropdownMenuItem
                             onClick={() => onDeleteConversation(conversation.id)}
                             className="text-destructive"
@@ -236,6 +316,32 @@ export const Sidebar = ({
                     </div>
                   </div>
                 ))}
+
+                {visibleHits.length > 0 && (
+                  <>
+                    <p className="px-3 pt-4 pb-1 text-xs font-semibold uppercase text-muted-foreground">
+                      Messages
+                    </p>
+                    {visibleHits.map((hit) => {
+                      const conversation = conversationById.get(hit.conversationId)!;
+                      return (
+                        <div
+                          key={hit.messageId}
+                          className="p-3 rounded-lg cursor-pointer transition-colors hover:bg-muted/50"
+                          onClick={() => onOpenSearchResult(conversation, hit.messageId)}
+                        >
+                          <h3 className="font-medium truncate text-sm">{conversation.title}</h3>
+                          <p className="text-xs text-muted-foreground mt-1 line-clamp-3">
+                            {renderSnippet(hit)}
+                          </p>
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {hit.role === 'user' ? 'You' : 'Reply'} · {formatTimestamp(new Date(hit.timestamp))}
+                          </p>
+                        </div>
+                      );
+                    })}
+                  </>
+                )}
               </div>
             )}
           </div>
@@ -257,6 +363,22 @@ export const Sidebar = ({
               <Brain className="w-4 h-4 mr-2" />
               Memory
             </Button>
+            <Button
+              variant="ghost"
+              onClick={onOpenDocuments}
+              className="w-full justify-start"
+            >
+              <Library className="w-4 h-4 mr-2" />
+              Documents
+            </Button>
+            <Button
+              variant="ghost"
+              onClick={onOpenUsage}
+              className="w-full justify-start"
+            >
+              <BarChart3 className="w-4 h-4 mr-2" />
+              Usage
+            </Button>
             <Button
               variant="ghost"
               onClick={onOpenSettings}
@@ -0,0 +1,43 @@
+import { ChevronRight, Loader2, Wrench, AlertCircle } from "lucide-react";
+import {
+  Collapsible,
+  CollapsibleTrigger,
+  CollapsibleContent
+} from "@/components/ui/collapsible";
+import { getToolLabel, type ToolStep } from "@/services/toolRegistry";
+
+/** Arguments as a one-line hint, e.g. `query: "rust async"` */
+function summarizeArguments(json: string): string {
+  try {
+    const args = JSON.parse(json || '{}');
+    return Object.values(args).filter(v => typeof v === 'string').join(', ');
+  } catch {
+    return json;
+  }
+}
+
+// Tool calls made while writing a reply, each expandable to its raw input and output
+export const ToolSteps = ({ steps }: { steps: ToolStep[] }) => (
+  <div className="mb-3 space-y-1">
+    {steps.map(step => (
+      <Collapsible key={step.id} className="rounded-md border border-border/60 text-xs">
+        <CollapsibleTrigger className="group/step flex w-full items-center gap-2 px-2 py-1.5 text-left opacity-80 hover:opacity-100">
+          <ChevronRight className="w-3 h-3 shrink-0 transition-transform group-data-[state=open]/step:rotate-90" />
+          {step.result === undefined
+            ? <Loader2 className="w-3 h-3 shrink-0 animate-spin" />
+            : step.failed
+              ? <AlertCircle className="w-3 h-3 shrink-0 text-destructive" />
+              : <Wrench className="w-3 h-3 shrink-0" />}
+          <span className="font-semibold shrink-0">{getToolLabel(step.name)}</span>
+          <span className="truncate opacity-70">{summarizeArguments(step.arguments)}</span>
+        </CollapsibleTrigger>
+        <CollapsibleContent className="space-y-2 border-t border-border/60 px-2 py-2">
+          <pre className="whitespace-pre-wrap break-words opacity-80">{step.arguments || '{}'}</pre>
+          {step.result !== undefined && (
+            <pre className="max-h-60 overflow-y-auto whitespace-pre-wrap break-words">{step.result}</pre>
+          )}
+        </CollapsibleContent>
+      </Collapsible>
+    ))}
+  </div>
+);
@@ -0,0 +1,167 @@
+import { useState, useEffect } from "react";
+import { BarChart3 } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from "@/components/ui/chart";
+import { loadApiKeys } from "@/services/keyManager";
+import { secureStorage } from "@/utils/vault";
+import {
+  loadUsageRecords,
+  groupUsageByDay,
+  groupUsageBy,
+  sumUsage,
+  keyLabel,
+  formatCost,
+  formatTokens,
+  type UsageRecord,
+  type UsageGroup
+} from "@/utils/usageUtils";
+
+interface UsageDashboardProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const RANGES = [7, 30, 90];
+
+const chartConfig = {
+  cost: { label: 'Spend', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+function loadProfileNames(): Record<string, string> {
+  try {
+    const profiles: { id: string; name: string }[] = JSON.parse(secureStorage.getItem('vivica-profiles') || '[]');
+    return Object.fromEntries(profiles.map(p => [p.id, p.name]));
+  } catch {
+    return {};
+  }
+}
+
+// Horizontal bars for a breakdown, scaled to the largest group
+const GroupList = ({ title, groups }: { title: string; groups: UsageGroup[] }) => {
+  const max = Math.max(...groups.map(g => g.cost), 0);
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold">{title}</h3>
+      {groups.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No usage in this period</p>
+      ) : groups.map(g => (
+        <div key={g.label} className="space-y-1">
+          <div className="flex justify-between gap-2 text-sm">
+            <span className="truncate" title={g.label}>{g.label}</span>
+            <span className="shrink-0 text-muted-foreground">
+              {formatCost(g.cost)} · {formatTokens(g.tokens)} tokens
+            </span>
+          </div>
+          <div className="h-1.5 rounded-full bg-muted">
+            <div
+              className="h-full rounded-full bg-primary"
+              style={{ width: max > 0 ? `${(g.cost / max) * 100}%` : '0%' }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Spend charts built from the usage ledger, which keeps deleted chats' spend
+export const UsageDashboard = ({ isOpen, onClose }: UsageDashboardProps) => {
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [days, setDays] = useState(30);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    loadUsageRecords()
+      .then(setRecords)
+      .catch(e => console.warn('Failed to load usage', e));
+  }, [isOpen]);
+
+  const since = new Date();
+  since.setHours(0, 0, 0, 0);
+  since.setDate(since.getDate() - (days - 1));
+  const inRange = records.filter(r => new Date(r.timestamp) >= since);
+  const totals = sumUsage(inRange);
+
+  const profileNames = loadProfileNames();
+  const keys = loadApiKeys();
+  const byDay = groupUsageByDay(inRange, days).map(g => ({ ...g, label: g.label.slice(5) }));
+  const byProfile = groupUsageBy(inRange, r => (r.profileId && profileNames[r.profileId]) || 'Deleted profile');
+  const byKey = groupUsageBy(inRange, r => keyLabel(r.key, keys));
+  const byModel = groupUsageBy(inRange, r => r.model || 'Unknown model');
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[700px] bg-card border-border max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BarChart3 className="w-5 h-5" />
+            Usage
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex gap-1">
+              {RANGES.map(range => (
+                <Button
+                  key={range}
+                  variant={range === days ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setDays(range)}
+                >
+                  {range} days
+                </Button>
+              ))}
+            </div>
+            <div className="text-right">
+              <p className="text-lg font-semibold">
+                {formatCost(totals.cost)}{totals.unpriced ? '+' : ''}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {formatTokens(totals.promptTokens)} prompt · {formatTokens(totals.completionTokens)} completion tokens
+              </p>
+            </div>
+          </div>
+
+          <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+            <BarChart data={byDay}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+              <YAxis tickLine={false} axisLine={false} width={56} tickFormatter={(v: number) => formatCost(v)} />
+              <ChartTooltip
+                content={<ChartTooltipContent formatter={(value) => formatCost(Number(value))} />}
+              />
+              <Bar dataKey="cost" fill="var(--color-cost)" radius={2} />
+            </BarChart>
+          </ChartContainer>
+
+          <Separator />
+          <GroupList title="By profile" groups={byProfile} />
+          <Separator />
+          <GroupList title="By key" groups={byKey} />
+          <Separator />
+          <GroupList title="By model" groups={byModel} />
+
+          <p className="text-xs text-muted-foreground">
+            Token counts come from the provider where it reports them and are estimated otherwise.
+            Prices come from the OpenRouter catalogue; a + means some replies used a model without
+            a listed price. Deleting a chat removes its usage.
+          </p>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { Lock, LockOpen, ShieldCheck } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+import {
+  isVaultEnabled,
+  enableVault,
+  disableVault,
+  verifyPassphrase,
+  lockVault
+} from '@/utils/vault';
+import { resealMemories } from '@/utils/memoryUtils';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+interface VaultSettingsProps {
+  autoLockMinutes: number;
+  onAutoLockChange: (minutes: number) => void;
+}
+
+export const VaultSettings = ({ autoLockMinutes, onAutoLockChange }: VaultSettingsProps) => {
+  const [enabled, setEnabled] = useState(isVaultEnabled());
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const reset = () => {
+    setPassphrase('');
+    setConfirmation('');
+    setBusy(false);
+  };
+
+  const handleEnable = async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      toast.error(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (passphrase !== confirmation) {
+      toast.error("Passphrases don't match");
+      return;
+    }
+    setBusy(true);
+    try {
+      await enableVault(passphrase);
+      await resealMemories(true);
+      setEnabled(true);
+      toast.success('Vault enabled. There is no way to recover a forgotten passphrase.');
+    } catch (error) {
+      console.error('Failed to enable vault:', error);
+      toast.error('Failed to enable vault');
+    }
+    reset();
+  };
+
+  const handleDisable = async () => {
+    setBusy(true);
+    try {
+      if (!(await verifyPassphrase(passphrase))) {
+        toast.error('Wrong passphrase');
+        setBusy(false);
+        return;
+      }
+      await resealMemories(false);
+      await disableVault();
+      setEnabled(false);
+      toast.success('Vault disabled, data is stored unencrypted again');
+    } catch (error) {
+      console.error('Failed to disable vault:', error);
+      toast.error('Failed to disable vault');
+    }
+    reset();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <ShieldCheck className="w-4 h-4" />
+        <Label className="text-base font-semibold">Vault</Label>
+      </div>
+
+      {!enabled ? (
+        <div className="space-y-2">
+          <Input
+            type="password"
+            placeholder="Passphrase"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+          />
+          <Input
+            type="password"
+            placeholder="Repeat passphrase"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleEnable()}
+          />
+          <Button variant="outline" onClick={handleEnable} disabled={busy || !passphrase} className="w-full">
+            <Lock className="w-4 h-4 mr-2" />
+            {busy ? 'Encrypting…' : 'Enable Vault'}
+          </Button>
+          <p className="text-sm text-muted-foreground">
+            Encrypts API keys, profiles and memories with a passphrase you enter each time Vivica starts
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div className="space-y-2">
+            <Label>Auto-lock after (minutes, 0 = never)</Label>
+            <Input
+              type="number"
+              min={0}
+              value={autoLockMinutes}
+              onChange={(e) => onAutoLockChange(Math.max(0, Number(e.target.value)))}
+            />
+          </div>
+          <Button variant="outline" onClick={() => lockVault()} className="w-full">
+            <Lock className="w-4 h-4 mr-2" />
+            Lock Now
+          </Button>
+          <div className="flex gap-2">
+            <Input
+              type="password"
+              placeholder="Passphrase"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              className="flex-1"
+            />
+            <Button variant="outline" onClick={handleDisable} disabled={busy || !passphrase}>
+              <LockOpen className="w-4 h-4 mr-2" />
+              Disable
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+import { unlockVault, resetVault } from '@/utils/vault';
+import { deleteSealedMemories } from '@/utils/memoryUtils';
+
+interface VaultUnlockProps {
+  onUnlock: () => void;
+}
+
+// Shown instead of the app while the vault is locked
+export const VaultUnlock = ({ onUnlock }: VaultUnlockProps) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+
+  const handleUnlock = async () => {
+    if (!passphrase) return;
+    setUnlocking(true);
+    setError('');
+    try {
+      if (await unlockVault(passphrase)) {
+        onUnlock();
+        return;
+      }
+      setError('Wrong passphrase');
+    } catch (e) {
+      console.error('Failed to unlock vault:', e);
+      setError('The vault could not be read');
+    }
+    setUnlocking(false);
+  };
+
+  const handleReset = async () => {
+    if (!confirm("Reset the vault? API keys, profiles and memories stored in it will be permanently deleted.")) {
+      return;
+    }
+    try {
+      await deleteSealedMemories();
+    } catch (e) {
+      console.error('Failed to delete encrypted memories:', e);
+    }
+    resetVault();
+    toast.success('Vault reset');
+    onUnlock();
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <div className="w-full max-w-sm space-y-4 rounded-lg border border-border bg-card p-6">
+        <div className="flex items-center gap-2">
+          <Lock className="w-5 h-5" />
+          <h1 className="text-lg font-semibold">Vivica is locked</h1>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Enter your passphrase to decrypt your API keys and memories.
+        </p>
+        <Input
+          type="password"
+          placeholder="Passphrase"
+          value={passphrase}
+          autoFocus
+          onChange={(e) => setPassphrase(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+        />
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <Button onClick={handleUnlock} disabled={unlocking || !passphrase} className="w-full">
+          {unlocking ? 'Unlocking…' : 'Unlock'}
+        </Button>
+        <button
+          onClick={handleReset}
+          className="w-full text-xs text-muted-foreground hover:text-destructive"
+        >
+          Forgot passphrase? Reset vault
+        </button>
+      </div>
+    </div>
+  );
+};
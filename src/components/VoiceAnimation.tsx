@@ -1,7 +1,7 @@
 
 import { useState, useEffect } from "react";
 import { createPortal } from "react-dom";
-import { X, Mic, StopCircle } from "lucide-react";
+import { X, Mic, StopCircle, Newspaper } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { voiceAnimation } from "@/js/voice-animation";
 import { 
@@ -20,6 +20,8 @@ interface VoiceAnimationProps {
   getMemoryPrompt: () => Promise<string>;
   buildSystemPrompt: () => Promise<string>;
   onSendMessage: (content: string) => void;
+  /** Start today's briefing, which is read aloud; the button is hidden without it */
+  onBriefing?: () => void;
 }
 
 type VoiceState = 'idle' | 'listening' | 'processing' | 'speaking';
@@ -30,7 +32,8 @@ export const VoiceAnimation = ({
   currentProfile,
   getMemoryPrompt,
   buildSystemPrompt,
-  onSendMessage
+  onSendMessage,
+  onBriefing
 }: VoiceAnimationProps) => {
   // Current state reported by the voice API (idle, listening, etc)
   const [voiceState, setVoiceState] = useState<VoiceState>('idle');
@@ -176,6 +179,17 @@ export const VoiceAnimation = ({
             </>
           )}
         </Button>
+        {onBriefing && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onBriefing}
+            disabled={voiceState === 'speaking'}
+            className="text-white hover:bg-white/20 flex items-center gap-2"
+          >
+            <Newspaper className="w-4 h-4" /> Daily briefing
+          </Button>
+        )}
         <p className={`text-sm ${getStateColor(voiceState)}`}>{getStateLabel(voiceState)}</p>
         {voiceState === 'speaking' && (
           <div className="mt-1 flex justify-center">
@@ -0,0 +1,61 @@
+import { useState, useRef, useCallback } from 'react';
+import type { ChatMessage } from '@/services/chatService';
+import {
+  runComparison,
+  emptyCompareResult,
+  type CompareOptions,
+  type CompareResult
+} from '@/services/compareService';
+
+export interface ComparisonRun {
+  /** The user prompt every model answered */
+  prompt: string;
+  results: CompareResult[];
+}
+
+/** State for one side-by-side comparison at a time */
+export function useModelCompare() {
+  const [run, setRun] = useState<ComparisonRun | null>(null);
+  const [running, setRunning] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const start = useCallback(async (
+    prompt: string,
+    models: string[],
+    messages: ChatMessage[],
+    options: CompareOptions
+  ) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setRun({ prompt, results: models.map(emptyCompareResult) });
+    setRunning(true);
+    try {
+      await runComparison(models, messages, options, (index, result) => {
+        // A newer run replaced this one
+        if (controllerRef.current !== controller) return;
+        setRun(prev => prev && {
+          ...prev,
+          results: prev.results.map((r, i) => i === index ? result : r),
+        });
+      }, controller.signal);
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setRunning(false);
+      }
+    }
+  }, []);
+
+  const stop = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  const clear = useCallback(() => {
+    controllerRef.current?.abort();
+    setRun(null);
+  }, []);
+
+  return { run, running, start, stop, clear };
+}
@@ -10,8 +10,12 @@ export interface OpenRouterModel {
     completion: string;
   };
   context_length?: number;
+  /** Request parameters the model accepts, e.g. "tools" */
+  supported_parameters?: string[];
   architecture?: {
+    /** e.g. "text+image->text" */
     modality: string;
+    input_modalities?: string[];
     tokenizer: string;
     instruct_type?: string;
   };
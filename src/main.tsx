@@ -5,10 +5,11 @@ import './index.css';
 import { ThemeProvider } from './hooks/useTheme';
 // import { registerSW } from 'virtual:pwa-register';
 
-// Register service worker for PWA functionality
-if ('serviceWorker' in navigator) {
+// Register service worker for PWA functionality. VitePWA emits sw.js next
+// to index.html on build; the dev server has none.
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
   window.addEventListener('load', () => {
-    navigator.serviceWorker.register('/sw.js')
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`)
       .then((registration) => {
         console.log('SW registered: ', registration);
       })
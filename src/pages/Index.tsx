@@ -8,47 +8,60 @@ import { VoiceAnimation } from "@/components/VoiceAnimation";
 import { SettingsModal } from "@/components/SettingsModal";
 import { ProfilesModal } from "@/components/ProfilesModal";
 import { MemoryModal } from "@/components/MemoryModal";
+import { UsageDashboard } from "@/components/UsageDashboard";
+import { DocumentsModal } from "@/components/DocumentsModal";
 import { toast } from "sonner";
 import { ChatService, ChatMessage } from "@/services/chatService";
+import { usesOpenRouter, type ProviderId } from "@/services/providers";
+import { useOpenRouterModels } from "@/hooks/useOpenRouterModels";
+import { useModelCompare } from "@/hooks/useModelCompare";
+import { usePersistedState } from "@/hooks/usePersistedState";
+import { MIN_COMPARE_MODELS } from "@/services/compareService";
+import { buildContext } from "@/utils/contextBuilder";
 import { searchBrave } from "@/services/searchService";
 import { Storage } from "@/utils/storage";
 import { fetchRSSHeadlines } from "@/services/rssService";
-import { getMemories, saveConversationMemory } from "@/utils/memoryUtils";
-import { setVoiceModeActive } from "@/js/voice-mode";
-
-function weatherCodeToText(code: number): string {
-  const map: Record<number, string> = {
-    0: 'Clear sky',
-    1: 'Mainly clear',
-    2: 'Partly cloudy',
-    3: 'Overcast',
-    45: 'Fog',
-    48: 'Depositing rime fog',
-    51: 'Light drizzle',
-    53: 'Drizzle',
-    55: 'Dense drizzle',
-    56: 'Freezing drizzle',
-    57: 'Freezing dense drizzle',
-    61: 'Slight rain',
-    63: 'Rain',
-    65: 'Heavy rain',
-    66: 'Freezing rain',
-    67: 'Heavy freezing rain',
-    71: 'Slight snow',
-    73: 'Snow',
-    75: 'Heavy snow',
-    77: 'Snow grains',
-    80: 'Slight showers',
-    81: 'Showers',
-    82: 'Violent showers',
-    85: 'Slight snow showers',
-    86: 'Heavy snow showers',
-    95: 'Thunderstorm',
-    96: 'Thunderstorm with hail',
-    99: 'Violent thunderstorm'
-  };
-  return map[code] || 'Unknown';
-}
+import { fetchCurrentWeather, getUserLocation } from "@/services/weatherService";
+import { createToolRunner, isToolUseEnabled, type ToolStep } from "@/services/toolRegistry";
+import { parseCommand, runCommand, CommandError, type CommandContext } from "@/services/commandRegistry";
+import { getRelevantSources, formatSourcesPrompt, type Citation } from "@/services/documentService";
+import { extractMemories, getExtractionSettings } from "@/services/memoryExtraction";
+import { consolidateMemories, isConsolidationDue } from "@/services/memoryConsolidation";
+import {
+  startReminderScheduler,
+  showReminderNotification,
+  getReminder,
+  markReminderDelivered,
+  reminderDeliveryPrompt
+} from "@/services/reminderService";
+import {
+  startBriefingScheduler,
+  gatherBriefing,
+  briefingPrompt,
+  formatBriefingMaterial,
+  formatBriefingDate,
+  toSpeechText,
+  BRIEFING_MEMORY_QUERY
+} from "@/services/briefingService";
+import { saveUsageLogEntries, type ReminderRecord } from "@/utils/indexedDb";
+import { buildMemoryPrompt, migrateLegacyMemory, saveConversationMemory } from "@/utils/memoryUtils";
+import {
+  migrateLegacyConversations,
+  loadConversationList,
+  loadConversationTree,
+  saveConversationMeta,
+  saveConversationMessage,
+  deleteConversation,
+  updateConversationTitle,
+  updateConversationSummary
+} from "@/utils/conversationUtils";
+import { rollSummary } from "@/services/summaryService";
+import { syncSearchIndex } from "@/services/messageSearch";
+import { secureStorage } from "@/utils/vault";
+import { getSiblings, pathThrough, getBranchPositions, divergenceIndex } from "@/utils/messageTree";
+import { setVoiceModeActive, getVoiceModeActive, speak } from "@/js/voice-mode";
+import { priceUsage, recordUsage, type MessageUsage } from "@/utils/usageUtils";
+import { storeAttachments, buildAttachmentContent, type AttachmentMeta } from "@/utils/attachments";
 
 interface Message {
   id: string;
@@ -56,7 +69,43 @@ interface Message {
   role: 'user' | 'assistant';
   timestamp: Date;
   failed?: boolean;
+  /** Generation was cancelled by the user; content is partial */
+  stopped?: boolean;
   profileId?: string;
+  isCodeResponse?: boolean;
+  /** Code-model output when a reply went through the code hand-off */
+  codeContent?: string;
+  codeModel?: string;
+  /** Message this one follows in the conversation tree; null for the first */
+  parentId?: string | null;
+  /** Tokens and cost of each request behind an assistant reply */
+  usage?: MessageUsage[];
+  /** Tools the model called while writing this reply */
+  toolSteps?: ToolStep[];
+  /** Files attached to a user message */
+  attachments?: AttachmentMeta[];
+  /** Document chunks the reply was given, by citation number */
+  citations?: Citation[];
+}
+
+/** Text sent back to the model for a stored message, code stage included */
+function toChatContent(message: Message): string {
+  return message.codeContent
+    ? `${message.codeContent}\n\n${message.content}`.trim()
+    : message.content;
+}
+
+/** Chat history for the model, with attached files read back from IndexedDB */
+function toChatHistory(messages: Message[], vision: boolean): Promise<ChatMessage[]> {
+  return Promise.all(messages.map(async m => {
+    if (!m.attachments?.length) return { role: m.role, content: toChatContent(m) };
+    const { text, images } = await buildAttachmentContent(m.attachments, vision);
+    return {
+      role: m.role,
+      content: [toChatContent(m), text].filter(Boolean).join('\n\n'),
+      ...(images.length > 0 && { images }),
+    };
+  }));
 }
 
 interface Conversation {
@@ -67,6 +116,28 @@ interface Conversation {
   timestamp: Date;
   /** Flag that this conversation title was generated by Vivica */
   autoTitled?: boolean;
+  /** Rolling summary sent in place of the first `summarizedCount` messages */
+  summary?: string;
+  summarizedCount?: number;
+  /** Messages off the active path, reachable through the branch switcher */
+  branches?: Message[];
+}
+
+/** Append a conversation's rolling summary to the system prompt */
+function withSummary(systemPrompt: string, summary?: string): string {
+  return summary ? `${systemPrompt}\n\nSummary of earlier conversation:\n${summary}` : systemPrompt;
+}
+
+/**
+ * Step the active path back to its first `length` messages. Later turns
+ * move to `branches` instead of being deleted, and a summary that covered
+ * them is dropped.
+ */
+function branchConversation(conv: Conversation, length: number): Conversation {
+  const messages = conv.messages.slice(0, length);
+  const branches = [...(conv.branches || []), ...conv.messages.slice(length)];
+  if ((conv.summarizedCount || 0) <= length) return { ...conv, messages, branches };
+  return { ...conv, messages, branches, summary: undefined, summarizedCount: undefined };
 }
 
 interface Profile {
@@ -78,6 +149,13 @@ interface Profile {
   temperature: number;
   maxTokens: number;
   isVivica?: boolean;
+  provider?: ProviderId;
+  baseUrl?: string;
+  apiKey?: string;
+  /** Context window override for models the OpenRouter catalogue doesn't list */
+  contextLength?: number;
+  /** Offer tools to a self-hosted model */
+  toolUse?: boolean;
   [key: string]: unknown; // Add index signature for console.log compatibility
 }
 
@@ -93,10 +171,27 @@ const Index = () => {
   const [showSettings, setShowSettings] = useState(false);
   const [showProfiles, setShowProfiles] = useState(false);
   const [showMemory, setShowMemory] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
+  const [showDocuments, setShowDocuments] = useState(false);
   const [isVoiceMode, setIsVoiceMode] = useState(false);
   const [editingMessage, setEditingMessage] = useState<Message | null>(null);
   const chatBodyRef = useRef<HTMLDivElement>(null);
+  // Controller for the reply currently streaming, if any
+  const abortControllerRef = useRef<AbortController | null>(null);
   const [showScrollButton, setShowScrollButton] = useState(false);
+  // Oldest messages left out of the last request, per conversation
+  const [omittedCounts, setOmittedCounts] = useState<Record<string, number>>({});
+  const { models: openRouterModels } = useOpenRouterModels();
+  // Message to scroll to after opening a search result
+  const [highlightMessageId, setHighlightMessageId] = useState<string | null>(null);
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareModels, setCompareModels] = usePersistedState<string[]>('vivica-compare-models', ['', '']);
+  const compare = useModelCompare();
+  // Reminder to deliver once a profile is loaded, from a notification tap
+  const [pendingReminderId, setPendingReminderId] = useState<string | null>(null);
+  // Scheduled briefing waiting for a profile to load
+  const [briefingRequested, setBriefingRequested] = useState(false);
+  const briefingRunningRef = useRef(false);
 
   // Initialize default profiles and load data
   useEffect(() => {
@@ -104,11 +199,15 @@ const Index = () => {
     initializeProfiles();
     loadConversations();
     loadCurrentProfile();
-    // Drop legacy memory key after migration
-    localStorage.removeItem('vivica-memory');
+    // Move the old Memory form keys into the memories store
+    migrateLegacyMemory().catch(e => console.warn('Failed to migrate memory', e));
     const handler = () => loadCurrentProfile();
     window.addEventListener('profilesUpdated', handler);
-    return () => window.removeEventListener('profilesUpdated', handler);
+    window.addEventListener('conversationsUpdated', refreshConversationList);
+    return () => {
+      window.removeEventListener('profilesUpdated', handler);
+      window.removeEventListener('conversationsUpdated', refreshConversationList);
+    };
   }, []);
 
   // Show/hide the scroll-to-bottom button based on scroll position
@@ -139,7 +238,7 @@ const Index = () => {
   }, [currentConversation?.id]);
 
   const initializeProfiles = () => {
-    const savedProfiles = localStorage.getItem('vivica-profiles');
+    const savedProfiles = secureStorage.getItem('vivica-profiles');
 
     let profiles: Profile[] = [];
     if (savedProfiles) {
@@ -171,12 +270,12 @@ const Index = () => {
       ];
     }
 
-    localStorage.setItem('vivica-profiles', JSON.stringify(profiles));
+    secureStorage.setItem('vivica-profiles', JSON.stringify(profiles));
   };
 
   const loadCurrentProfile = () => {
     const savedProfileId = localStorage.getItem('vivica-current-profile');
-    const savedProfiles = localStorage.getItem('vivica-profiles');
+    const savedProfiles = secureStorage.getItem('vivica-profiles');
 
     if (savedProfiles) {
       let profiles: Profile[] = [];
@@ -189,7 +288,7 @@ const Index = () => {
       if (!profiles.some(p => p.isVivica)) {
         // Ensure Vivica always exists
         profiles.unshift(Storage.createVivicaProfile());
-        localStorage.setItem('vivica-profiles', JSON.stringify(profiles));
+        secureStorage.setItem('vivica-profiles', JSON.stringify(profiles));
       }
       if (savedProfileId) {
         const profile = profiles.find(p => p.id === savedProfileId);
@@ -206,43 +305,328 @@ const Index = () => {
     }
   };
 
-  const loadConversations = () => {
-    const saved = localStorage.getItem('vivica-conversations');
+  const loadConversations = async () => {
     const savedCurrent = localStorage.getItem('vivica-current-conversation');
-    
-    if (saved) {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const parsedConversations = JSON.parse(saved).map((conv: any) => ({
-        ...conv,
-        timestamp: new Date(conv.timestamp),
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        messages: conv.messages.map((msg: any) => ({
-          ...msg,
-          timestamp: new Date(msg.timestamp)
-        })),
-        autoTitled: conv.autoTitled || false
-      }));
-      setConversations(parsedConversations);
-      
-      if (savedCurrent) {
-        const current = parsedConversations.find((conv: Conversation) => conv.id === savedCurrent);
-        if (current) {
-          setCurrentConversation(current);
-        }
-      } else if (parsedConversations.length > 0) {
-        setCurrentConversation(parsedConversations[0]);
-      }
-    } else {
+
+    let list: Conversation[] = [];
+    try {
+      // One-time move of chats saved by older versions in localStorage
+      await migrateLegacyConversations();
+      list = await loadConversationList();
+    } catch (e) {
+      console.error('Failed to load conversations', e);
+    }
+
+    if (list.length === 0) {
       handleNewChat();
+      return;
+    }
+
+    setConversations(list);
+    const current = (savedCurrent && list.find(conv => conv.id === savedCurrent)) || list[0];
+    await openConversation(current);
+
+    // Catch the search index up in the background so the first query is fast
+    syncSearchIndex().catch(e => console.warn('Failed to build search index', e));
+  };
+
+  // Pick up chats written elsewhere (e.g. an import) without losing loaded history
+  const refreshConversationList = async () => {
+    try {
+      const list = await loadConversationList();
+      setConversations(prev => {
+        const loaded = new Map(prev.map(conv => [conv.id, conv]));
+        return list.map(conv => loaded.get(conv.id) || conv);
+      });
+    } catch (e) {
+      console.warn('Failed to reload conversations', e);
+    }
+  };
+
+  /**
+   * Make a conversation current, pulling its message history from
+   * IndexedDB the first time it is opened.
+   */
+  const openConversation = async (conversation: Conversation) => {
+    setCurrentConversation(conversation);
+    if (conversation.messages.length > 0) return;
+
+    try {
+      const { messages, branches } = await loadConversationTree(conversation.id);
+      if (!messages.length) return;
+      setConversations(prev => prev.map(conv =>
+        conv.id === conversation.id && conv.messages.length === 0 ? { ...conv, messages, branches } : conv
+      ));
+      setCurrentConversation(prev =>
+        prev && prev.id === conversation.id && prev.messages.length === 0 ? { ...prev, messages, branches } : prev
+      );
+    } catch (e) {
+      console.warn('Failed to load messages', e);
+    }
+  };
+
+  // Per-message writes keep streaming from rewriting the whole history
+  const persistMessage = (conv: Conversation, msg: Message) => {
+    saveConversationMessage(conv, msg).catch(e => console.warn('Failed to save message', e));
+  };
+
+  // Make a different branch current; the header remembers it as the active leaf
+  const applyBranch = (updated: Conversation) => {
+    setCurrentConversation(updated);
+    setConversations(prev => prev.map(conv => conv.id === updated.id ? updated : conv));
+    saveConversationMeta(updated).catch(e => console.warn('Failed to save conversation', e));
+  };
+
+  const applySummary = (conversationId: string, summary: string, summarizedCount: number) => {
+    const apply = (conv: Conversation) => conv.id !== conversationId ? conv : {
+      ...conv,
+      summary: summary || undefined,
+      summarizedCount: summary ? summarizedCount : undefined,
+    };
+    setConversations(prev => prev.map(apply));
+    setCurrentConversation(prev => prev && apply(prev));
+    updateConversationSummary(conversationId, summary, summarizedCount)
+      .catch(e => console.warn('Failed to save summary', e));
+  };
+
+  // Fold old turns into the rolling summary once enough of them pile up
+  const refreshRollingSummary = async (conv: Conversation) => {
+    if (!currentProfile) return;
+    const settings = Storage.get('vivica-settings', { rollingSummary: true });
+    if (settings.rollingSummary === false) return;
+
+    const apiKey = secureStorage.getItem('openrouter-api-key') || '';
+    try {
+      const update = await rollSummary(conv, currentProfile.model, apiKey, currentProfile);
+      if (update) applySummary(conv.id, update.summary, update.summarizedCount);
+    } catch (e) {
+      console.warn('Failed to update conversation summary', e);
+    }
+  };
+
+  // Hand the finished exchange to the memory extractor, when it's switched on
+  const runMemoryExtraction = async (conv: Conversation) => {
+    if (!currentProfile || getExtractionSettings().mode === 'off') return;
+    const [question, reply] = conv.messages.slice(-2);
+    if (question?.role !== 'user' || reply?.role !== 'assistant' || reply.failed || reply.stopped) return;
+
+    const apiKey = secureStorage.getItem('openrouter-api-key') || '';
+    try {
+      const { mode, count } = await extractMemories(
+        [question, reply].map(m => ({ role: m.role, content: toChatContent(m) })),
+        currentProfile,
+        apiKey,
+        conv.id
+      );
+      if (!count) return;
+      if (mode === 'auto') {
+        toast.success(`Remembered ${count} new ${count === 1 ? 'fact' : 'facts'}`);
+      } else {
+        toast(`${count} new memory ${count === 1 ? 'suggestion' : 'suggestions'}`, {
+          action: { label: 'Review', onClick: () => setShowMemory(true) },
+        });
+      }
+    } catch (e) {
+      console.warn('Memory extraction failed', e);
     }
   };
 
-  // Save conversations to localStorage whenever they change
+  /**
+   * Tidy stored memories once the daily interval has passed, or right away
+   * with `force` (the Memory modal's button).
+   */
+  const runMemoryConsolidation = async (force = false) => {
+    if (!currentProfile || (!force && !isConsolidationDue())) return;
+    const apiKey = secureStorage.getItem('openrouter-api-key') || '';
+    try {
+      const { merged, condensed } = await consolidateMemories(currentProfile, apiKey);
+      if (merged || condensed) {
+        const parts = [
+          merged && `merged ${merged} ${merged === 1 ? 'group' : 'groups'} of duplicates`,
+          condensed && `condensed ${condensed} old ${condensed === 1 ? 'memory' : 'memories'}`,
+        ].filter(Boolean);
+        toast(`Memory tidied: ${parts.join(', ')}`, {
+          action: { label: 'Review', onClick: () => setShowMemory(true) },
+        });
+      } else if (force) {
+        toast.success('Memory is already tidy');
+      }
+    } catch (e) {
+      console.warn('Memory consolidation failed', e);
+      if (force) toast.error('Could not tidy memory');
+    }
+  };
+
+  /**
+   * Open a new chat whose first message `profile` writes in
+   * character. `prepare` runs while the typing indicator shows and returns
+   * the request along with the text to post if the model can't be reached.
+   * @returns The chat and the message posted in it
+   */
+  const postPersonaMessage = async (
+    profile: Profile,
+    title: string,
+    prepare: () => Promise<{ messages: ChatMessage[]; fallback: string }>,
+    maxTokens = 300
+  ) => {
+    const now = Date.now();
+    const conversation: Conversation = {
+      id: now.toString(),
+      title,
+      messages: [],
+      timestamp: new Date(now),
+      autoTitled: true,
+    };
+    setConversations(prev => [conversation, ...prev]);
+    setCurrentConversation(conversation);
+    setSidebarOpen(false);
+    setIsTyping(true);
+
+    let content = '';
+    try {
+      const request = await prepare();
+      content = request.fallback;
+      const apiKey = secureStorage.getItem('openrouter-api-key') || '';
+      const chatService = new ChatService(apiKey, profile);
+      const response = await chatService.sendMessage({
+        model: profile.model,
+        messages: request.messages,
+        temperature: profile.temperature,
+        max_tokens: maxTokens,
+      });
+      content = (await chatService.readMessage(response))?.trim() || content;
+    } catch (e) {
+      // The fallback still goes out when the model can't be reached
+      console.warn('Failed to write message', e);
+    } finally {
+      setIsTyping(false);
+    }
+
+    const message: Message = {
+      id: (now + 1).toString(),
+      content: content || title,
+      role: 'assistant',
+      timestamp: new Date(),
+      profileId: profile.id,
+      parentId: null,
+    };
+    const posted: Conversation = { ...conversation, messages: [message], lastMessage: message.content, timestamp: new Date() };
+    setConversations(prev => prev.map(conv => conv.id === posted.id ? posted : conv));
+    setCurrentConversation(prev => prev?.id === posted.id ? posted : prev);
+    persistMessage(posted, message);
+    return { conversation: posted, content: message.content };
+  };
+
+  /** Open a new chat where the current profile delivers a due reminder in character */
+  const deliverReminder = async (reminderId: string) => {
+    const reminder = await getReminder(reminderId);
+    if (!reminder || !currentProfile) return;
+    if (reminder.status === 'delivered') {
+      const existing = conversations.find(c => c.id === reminder.conversationId);
+      if (existing) openConversation(existing);
+      return;
+    }
+
+    const { conversation } = await postPersonaMessage(currentProfile, `Reminder: ${reminder.text}`, async () => ({
+      messages: [
+        { role: 'system', content: await buildSystemPrompt(reminder.text) },
+        { role: 'user', content: reminderDeliveryPrompt(reminder) },
+      ],
+      fallback: `Reminder: ${reminder.text}`,
+    }));
+    await markReminderDelivered(reminder, conversation.id);
+  };
+
+  /** Open a new chat with today's briefing, read aloud when voice mode is on */
+  const runBriefing = async () => {
+    if (!currentProfile || briefingRunningRef.current) return;
+    briefingRunningRef.current = true;
+    try {
+      const now = new Date();
+      const { content } = await postPersonaMessage(currentProfile, `Briefing: ${formatBriefingDate(now)}`, async () => {
+        const [material, memoryPrompt] = await Promise.all([
+          gatherBriefing(now),
+          getMemoryPrompt(BRIEFING_MEMORY_QUERY),
+        ]);
+        // Only the persona and memories; the material stands in for the weather and headline lines
+        let systemPrompt = currentProfile.systemPrompt || 'You are a helpful AI assistant.';
+        if (memoryPrompt) systemPrompt += `\n\nUser Context: ${memoryPrompt}`;
+        return {
+          messages: [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: briefingPrompt(material, now) },
+          ],
+          fallback: formatBriefingMaterial(material, now),
+        };
+      }, 800);
+      if (getVoiceModeActive()) {
+        speak(toSpeechText(content)).catch((e: unknown) => console.warn('Failed to read the briefing aloud', e));
+      }
+    } finally {
+      briefingRunningRef.current = false;
+    }
+  };
+
+  // Fire due reminders, and pick up taps on their notifications
   useEffect(() => {
-    if (conversations.length > 0) {
-      localStorage.setItem('vivica-conversations', JSON.stringify(conversations));
+    const onDue = (reminder: ReminderRecord) => {
+      const profiles: Profile[] = JSON.parse(secureStorage.getItem('vivica-profiles') || '[]');
+      const name = profiles.find(p => p.id === localStorage.getItem('vivica-current-profile'))?.name || 'Vivica';
+      showReminderNotification(reminder, `${name}: reminder`, setPendingReminderId)
+        .catch(e => console.warn('Failed to show reminder notification', e));
+      toast(`Reminder: ${reminder.text}`, {
+        action: { label: 'Open', onClick: () => setPendingReminderId(reminder.id) },
+      });
+    };
+    const stopScheduler = startReminderScheduler(onDue);
+
+    // A tap that opened the app arrives in the URL; one on an open window as a message
+    const params = new URLSearchParams(window.location.search);
+    const fromUrl = params.get('reminder');
+    if (fromUrl) {
+      setPendingReminderId(fromUrl);
+      params.delete('reminder');
+      const query = params.toString();
+      window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
     }
-  }, [conversations]);
+    const onMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'open-reminder') setPendingReminderId(event.data.reminderId);
+    };
+    navigator.serviceWorker?.addEventListener('message', onMessage);
+    return () => {
+      stopScheduler();
+      navigator.serviceWorker?.removeEventListener('message', onMessage);
+    };
+  }, []);
+
+  // The delivery effect runs once per tap, so it reaches the latest handler through a ref
+  const deliverReminderRef = useRef(deliverReminder);
+  deliverReminderRef.current = deliverReminder;
+
+  useEffect(() => {
+    if (!pendingReminderId || !currentProfile) return;
+    setPendingReminderId(null);
+    deliverReminderRef.current(pendingReminderId);
+  }, [pendingReminderId, currentProfile]);
+
+  // Scheduled briefing, run once a profile is loaded
+  useEffect(() => startBriefingScheduler(() => setBriefingRequested(true)), []);
+
+  const runBriefingRef = useRef(runBriefing);
+  runBriefingRef.current = runBriefing;
+
+  useEffect(() => {
+    if (!briefingRequested || !currentProfile) return;
+    setBriefingRequested(false);
+    toast('Preparing your daily briefing');
+    runBriefingRef.current();
+  }, [briefingRequested, currentProfile]);
+
+  const handleEditSummary = (summary: string) => {
+    if (!currentConversation) return;
+    applySummary(currentConversation.id, summary.trim(), currentConversation.summarizedCount || 0);
+    toast.success(summary.trim() ? 'Summary updated' : 'Summary cleared');
+  };
 
   // Save current conversation ID
   useEffect(() => {
@@ -257,113 +641,39 @@ const Index = () => {
     toast.success(`Switched to ${profile.name} profile`);
   };
 
-  const getMemoryPrompt = async () => {
+  // `query` is the latest user message; stored facts are ranked against it
+  const getMemoryPrompt = async (query = '') => {
     const memoryActive = localStorage.getItem('vivica-memory-active');
     if (memoryActive !== 'true') return '';
 
     const profileId = localStorage.getItem('vivica-current-profile') || '';
-    const parts: Record<string, unknown>[] = [];
-
-    const globalMem = localStorage.getItem('vivica-memory-global');
-    const profileMem = profileId
-      ? localStorage.getItem(`vivica-memory-profile-${profileId}`)
-      : null;
-
-    if (globalMem) {
-      try { parts.push(JSON.parse(globalMem)); } catch { /* ignore */ }
-    }
-    if (profileMem) {
-      try { parts.push(JSON.parse(profileMem)); } catch { /* ignore */ }
-    }
-
-    // Remove any stale legacy key
-    localStorage.removeItem('vivica-memory');
-
-    let prompt = '';
-    for (const memory of parts) {
-      if (memory.identity?.name) {
-        prompt += `The user's name is ${memory.identity.name}. `;
-      }
-      if (memory.identity?.pronouns) {
-        prompt += `Use ${memory.identity.pronouns} pronouns when referring to the user. `;
-      }
-      if (memory.identity?.occupation) {
-        prompt += `The user works as ${memory.identity.occupation}. `;
-      }
-      if (memory.identity?.location) {
-        prompt += `The user is located in ${memory.identity.location}. `;
-      }
-      if (memory.personality?.tone) {
-        prompt += `Adopt a ${memory.personality.tone} tone when responding. `;
-      }
-      if (memory.personality?.style) {
-        prompt += `Use a ${memory.personality.style} communication style. `;
-      }
-      if (memory.personality?.interests) {
-        prompt += `The user is interested in: ${memory.personality.interests}. `;
-      }
-      if (memory.customInstructions) {
-        prompt += `${memory.customInstructions} `;
-      }
-      if (memory.systemNotes) {
-        prompt += `Additional notes: ${memory.systemNotes}`;
-      }
-    }
+    const apiKey = secureStorage.getItem('openrouter-api-key') || '';
+    return buildMemoryPrompt(query, profileId, apiKey, currentProfile || undefined);
+  };
 
+  /** Document chunks relevant to the latest message, numbered for citation */
+  const retrieveSources = async (query: string): Promise<Citation[]> => {
     try {
-      const globalMems = await getMemories(undefined, 'global');
-      const profileMems = await getMemories(profileId, 'profile');
-      const combined = [...globalMems, ...profileMems];
-      if (combined.length) {
-        const list = combined.map(m => `- ${m.content}`).join('\n');
-        prompt += `${prompt ? '\n\n' : ''}Stored Facts:\n${list}`;
-      }
+      const apiKey = secureStorage.getItem('openrouter-api-key') || '';
+      return await getRelevantSources(query, currentProfile?.id, apiKey, currentProfile || undefined);
     } catch (e) {
-      console.warn('Failed to load memories from DB', e);
+      console.warn('Failed to search documents', e);
+      return [];
     }
-
-    return prompt.trim();
   };
 
   const fetchWeatherInfo = async (): Promise<string> => {
-    const fallback = { lat: 30.2366, lon: -92.8204, name: 'Welsh, LA' };
-
-    const fetchWeather = async (lat: number, lon: number) => {
-      const url = `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&current_weather=true&temperature_unit=fahrenheit`;
-      try {
-        const resp = await fetch(url);
-        const data = await resp.json();
-        const current = data.current_weather;
-        const temp = Math.round(current.temperature) + '°F';
-        const condText = weatherCodeToText(current.weathercode);
-        return `${condText}, ${temp}`;
-      } catch {
-        return 'Weather unavailable.';
-      }
-    };
-
-    return new Promise((resolve) => {
-      if ('geolocation' in navigator) {
-        navigator.geolocation.getCurrentPosition(
-          async (pos) => {
-            const result = await fetchWeather(pos.coords.latitude, pos.coords.longitude);
-            resolve(result);
-          },
-          async () => {
-            const result = await fetchWeather(fallback.lat, fallback.lon);
-            resolve(result);
-          },
-          { enableHighAccuracy: false, timeout: 4000, maximumAge: 180000 }
-        );
-      } else {
-        fetchWeather(fallback.lat, fallback.lon).then(resolve);
-      }
-    });
+    const { lat, lon } = await getUserLocation();
+    return fetchCurrentWeather(lat, lon).catch(() => 'Weather unavailable.');
   };
 
-  const buildSystemPrompt = async () => {
+  /**
+   * @param sources - Document chunks already retrieved for this turn; looked
+   *   up from `query` when omitted
+   */
+  const buildSystemPrompt = async (query = '', sources?: Citation[]) => {
     const profilePrompt = currentProfile?.systemPrompt || 'You are a helpful AI assistant.';
-    const memoryPrompt = await getMemoryPrompt();
+    const memoryPrompt = await getMemoryPrompt(query);
     const settings = Storage.get('vivica-settings', { includeWeather: false, includeRss: false });
 
     let prompt = profilePrompt;
@@ -371,6 +681,11 @@ const Index = () => {
       prompt += `\n\nUser Context: ${memoryPrompt}`;
     }
 
+    const documentPrompt = formatSourcesPrompt(sources ?? await retrieveSources(query));
+    if (documentPrompt) {
+      prompt += `\n\n${documentPrompt}`;
+    }
+
     if (settings.includeWeather) {
       const weather = await fetchWeatherInfo();
       prompt += `\n\nCurrent Weather: ${weather}`;
@@ -401,33 +716,102 @@ const Index = () => {
     };
     setConversations(prev => [newConversation, ...prev]);
     setCurrentConversation(newConversation);
+    saveConversationMeta(newConversation).catch(e => console.warn('Failed to save conversation', e));
     setSidebarOpen(false);
     toast.success("New conversation started!");
   };
 
-  const handleSendMessage = async (content: string, baseConv?: Conversation) => {
+  /** Context window of an OpenRouter model, if the catalogue lists it */
+  const getModelContextLength = (modelId: string): number | undefined => {
+    const model = openRouterModels.find(m => m.id === modelId);
+    return model?.context_length || model?.top_provider?.context_length;
+  };
+
+  /** Catalogue prices of an OpenRouter model, if listed */
+  const getModelPricing = (modelId: string) =>
+    openRouterModels.find(m => m.id === modelId)?.pricing;
+
+  /** Whether tools can be offered to the profile's chat model */
+  const supportsTools = (profile: Profile): boolean => {
+    if (!isToolUseEnabled()) return false;
+    // Self-hosted servers reject tools for models without a tool template, so they opt in
+    if (profile.provider === 'openai-compatible') return profile.toolUse === true;
+    // Only the OpenRouter catalogue says which models accept tools
+    if (!usesOpenRouter(profile)) return true;
+    const model = openRouterModels.find(m => m.id === profile.model);
+    return !!model?.supported_parameters?.includes('tools');
+  };
+
+  /** Whether images can be sent to the profile's chat model */
+  const supportsVision = (profile: Profile): boolean => {
+    if (profile.provider === 'anthropic') return true;
+    // Self-hosted servers give no hint, so they get text only
+    if (!usesOpenRouter(profile)) return false;
+    const architecture = openRouterModels.find(m => m.id === profile.model)?.architecture;
+    if (!architecture) return false;
+    return architecture.input_modalities
+      ? architecture.input_modalities.includes('image')
+      : architecture.modality.split('->')[0].includes('image');
+  };
+
+  /** Context window of the profile's chat model, if known */
+  const getContextLength = (profile: Profile): number | undefined => {
+    if (profile.contextLength) return profile.contextLength;
+    if (!usesOpenRouter(profile)) return undefined;
+    return getModelContextLength(profile.model);
+  };
+
+  /**
+   * Send a user message and stream the reply. With `replyTo` the last
+   * message of `baseConv` is answered again instead of adding a new one,
+   * so the reply becomes a sibling of the earlier answers.
+   * @param carried - Attachments already stored for this chat, kept by an
+   *   edited message
+   */
+  const handleSendMessage = async (
+    content: string,
+    baseConv?: Conversation,
+    replyTo?: Message,
+    files?: File[],
+    carried?: AttachmentMeta[]
+  ) => {
     const conversation = baseConv || currentConversation;
-    if (!conversation || !content.trim() || !currentProfile) return;
+    const hasFiles = !!files?.length || !!replyTo?.attachments?.length || !!carried?.length;
+    if (!conversation || (!content.trim() && !hasFiles) || !currentProfile) return;
 
+    let attachments: AttachmentMeta[] | undefined = carried?.length ? carried : undefined;
+    if (files?.length) {
+      try {
+        attachments = [...(attachments || []), ...await storeAttachments(conversation.id, files)];
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Could not attach files');
+        return;
+      }
+    }
 
-    // Check for a /search command before routing the message to the LLM
-    const searchMatch = content.trim().match(/^\/search\s+(.*)/i);
+    // A /search command fetches results before routing the message to the LLM
+    const command = parseCommand(content);
+    const searchQuery = command?.command.name === 'search' ? command.args : '';
 
-    const userMessage: Message = {
+    const userMessage: Message = replyTo || {
       id: Date.now().toString(),
       content: content.trim(),
       role: 'user',
       timestamp: new Date(),
       profileId: currentProfile.id,
+      parentId: conversation.messages[conversation.messages.length - 1]?.id ?? null,
+      ...(attachments && { attachments }),
     };
 
-    let updatedConversation = {
+    // A message that is only files is labelled by its first file
+    const label = content.trim() || attachments?.[0]?.name || '';
+    let updatedConversation = replyTo ? conversation : {
       ...conversation,
       messages: [...conversation.messages, userMessage],
-      lastMessage: content.trim(),
+      lastMessage: label,
       timestamp: new Date(),
       title: conversation.messages.length === 0 ?
-        content.trim().substring(0, 30) + (content.trim().length > 30 ? '...' : '') :
+        label.substring(0, 30) + (label.length > 30 ? '...' : '') :
         conversation.title,
     };
 
@@ -435,26 +819,28 @@ const Index = () => {
     setConversations(prev => prev.map(conv =>
       conv.id === conversation.id ? updatedConversation : conv
     ));
+    if (!replyTo) persistMessage(updatedConversation, userMessage);
 
     setIsTyping(true);
 
-    const apiKey = localStorage.getItem('openrouter-api-key');
-    if (!apiKey) {
+    const apiKey = secureStorage.getItem('openrouter-api-key') || '';
+    if (!apiKey && usesOpenRouter(currentProfile)) {
       toast.error('Please set your OpenRouter API key in Settings.');
       setIsTyping(false);
       return;
     }
 
-    const systemPrompt = await buildSystemPrompt();
-    let chatMessages: ChatMessage[] = [
-      { role: 'system', content: systemPrompt },
-      ...updatedConversation.messages.map(m => ({ role: m.role, content: m.content }))
-    ];
+    const sources = await retrieveSources(content);
+    const systemPrompt = withSummary(await buildSystemPrompt(content, sources), updatedConversation.summary);
+    // Turns covered by the rolling summary are replaced by the summary itself
+    const summarized = updatedConversation.summarizedCount || 0;
+    const vision = supportsVision(currentProfile);
+    let history = await toChatHistory(updatedConversation.messages.slice(summarized), vision);
 
     // If this is a /search command, fetch results from Brave Search
-    if (searchMatch) {
-      const query = searchMatch[1];
-      const braveKey = localStorage.getItem('braveApiKey');
+    if (searchQuery) {
+      const query = searchQuery;
+      const braveKey = secureStorage.getItem('braveApiKey');
       if (!braveKey) {
         toast.error('Please set your Brave Search API key in Settings.');
         setIsTyping(false);
@@ -472,6 +858,7 @@ const Index = () => {
           role: 'assistant',
           timestamp: new Date(),
           profileId: currentProfile.id,
+          parentId: userMessage.id,
         };
 
         const convWithResults = {
@@ -483,11 +870,11 @@ const Index = () => {
 
         setCurrentConversation(convWithResults);
         setConversations(prev => prev.map(conv => conv.id === conversation.id ? convWithResults : conv));
+        persistMessage(convWithResults, resultsMessage);
 
         // Build a prompt asking Vivica to summarize the results
-        chatMessages = [
-          { role: 'system', content: systemPrompt },
-          ...convWithResults.messages.map(m => ({ role: m.role, content: m.content })),
+        history = [
+          ...await toChatHistory(convWithResults.messages.slice(summarized), vision),
           { role: 'user', content: 'Summarize or comment on the search results above in your signature style.' }
         ];
 
@@ -499,7 +886,14 @@ const Index = () => {
       }
     }
 
-    const chatService = new ChatService(apiKey);
+    // Trim the oldest turns so the prompt plus the reply fit the model's window
+    const context = buildContext(systemPrompt, history, {
+      contextLength: getContextLength(currentProfile),
+      maxTokens: currentProfile.maxTokens,
+    });
+    setOmittedCounts(prev => ({ ...prev, [conversation.id]: context.omitted }));
+
+    const chatService = new ChatService(apiKey, currentProfile);
 
     const assistantMessage: Message = {
       id: (Date.now() + 1).toString(),
@@ -507,6 +901,8 @@ const Index = () => {
       role: 'assistant',
       timestamp: new Date(),
       profileId: currentProfile.id,
+      parentId: updatedConversation.messages[updatedConversation.messages.length - 1].id,
+      ...(sources.length > 0 && { citations: sources }),
     };
 
     const streamingConversation = {
@@ -521,45 +917,102 @@ const Index = () => {
       conv.id === conversation.id ? streamingConversation : conv
     ));
 
+    // Write the settled assistant reply to state and IndexedDB
+    const settleAssistantMessage = (msg: Message): Conversation => {
+      const apply = (conv: Conversation) => conv.id !== conversation.id ? conv : {
+        ...conv,
+        messages: conv.messages.map(m => m.id === msg.id ? msg : m),
+        lastMessage: msg.content || msg.codeContent,
+      };
+      setCurrentConversation(prev => prev && apply(prev));
+      setConversations(prev => prev.map(apply));
+
+      const finalConv: Conversation = {
+        ...updatedConversation,
+        messages: [...updatedConversation.messages, msg],
+        lastMessage: msg.content || msg.codeContent,
+        timestamp: new Date()
+      };
+      persistMessage(finalConv, msg);
+      return finalConv;
+    };
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let fullContent = '';
+    let isCodeResp = false;
+    // Filled only when a code hand-off runs: stage 1 output and its model
+    let codeContent = '';
+    let codeModel: string | undefined;
+    let toolSteps: ToolStep[] = [];
+    const usage: MessageUsage[] = [];
+    // Only OpenRouter model ids match the catalogue the prices come from
+    const withUsage = () => usage.length ? {
+      usage: usage.map(u => usesOpenRouter(currentProfile) ? priceUsage(u, getModelPricing(u.model)) : u),
+    } : {};
+
     try {
       const isCodeReq = /```|\bcode\b|function|programming/i.test(content);
-      const response = await chatService.sendMessage({
+      const stream = chatService.streamWithHandoff({
         model: currentProfile.model,
-        messages: chatMessages,
+        messages: context.messages,
         temperature: currentProfile.temperature,
         max_tokens: currentProfile.maxTokens,
         stream: true,
-        isCodeRequest: isCodeReq
-      });
-      // TODO: if isCodeReq, send full code output to Vivica's model for a human
-      // explanation before finalizing the message
-
-      let fullContent = '';
-      let isCodeResp = false;
-      for await (const chunk of chatService.streamResponse(response, { isCodeRequest: isCodeReq })) {
-        if (typeof chunk === 'object' && 'type' in chunk) {
-          // Stream start metadata
+        isCodeRequest: isCodeReq,
+        profile: currentProfile
+      }, controller.signal, supportsTools(currentProfile) ? createToolRunner({ profileId: currentProfile.id }) : undefined);
+
+      for await (const chunk of stream) {
+        if ('type' in chunk) {
+          // Stream metadata
           if (chunk.type === 'stream_start') {
             isCodeResp = !!chunk.data.isCodeRequest;
+            codeModel = chunk.data.codeModel;
+          } else if (chunk.type === 'usage') {
+            usage.push(chunk.usage);
+          } else if (chunk.type === 'tool_start' || chunk.type === 'tool_result') {
+            const step: ToolStep = {
+              id: chunk.call.id,
+              name: chunk.call.function.name,
+              arguments: chunk.call.function.arguments,
+              ...(chunk.type === 'tool_result' && { result: chunk.result, failed: chunk.failed }),
+            };
+            toolSteps = [...toolSteps.filter(s => s.id !== step.id), step];
+            const withSteps = (msgs: Message[]) =>
+              msgs.map(msg => msg.id === assistantMessage.id ? { ...msg, toolSteps } : msg);
+            setCurrentConversation(prev => prev && { ...prev, messages: withSteps(prev.messages) });
+            setConversations(prev => prev.map(conv =>
+              conv.id === conversation.id ? { ...conv, messages: withSteps(conv.messages) } : conv
+            ));
           }
           continue;
         }
 
-        const token = typeof chunk === 'string' ? chunk : chunk.content;
-        fullContent += token;
+        if (chunk.stage === 'code') {
+          codeContent += chunk.content;
+        } else {
+          fullContent += chunk.content;
+        }
+        const streamed = {
+          content: fullContent,
+          isCodeResponse: isCodeResp,
+          ...(codeModel && { codeContent, codeModel }),
+        };
+        const preview = fullContent || codeContent;
         setCurrentConversation(prev => {
           if (!prev) return prev;
           const msgs = prev.messages.map(msg =>
-            msg.id === assistantMessage.id ? { ...msg, content: fullContent, isCodeResponse: isCodeResp } : msg
+            msg.id === assistantMessage.id ? { ...msg, ...streamed } : msg
           );
-          return { ...prev, messages: msgs, lastMessage: fullContent };
+          return { ...prev, messages: msgs, lastMessage: preview };
         });
         setConversations(prev => prev.map(conv => {
           if (conv.id !== conversation.id) return conv;
           const msgs = conv.messages.map(msg =>
-            msg.id === assistantMessage.id ? { ...msg, content: fullContent, isCodeResponse: isCodeResp } : msg
+            msg.id === assistantMessage.id ? { ...msg, ...streamed } : msg
           );
-          return { ...conv, messages: msgs, lastMessage: fullContent, timestamp: new Date() };
+          return { ...conv, messages: msgs, lastMessage: preview, timestamp: new Date() };
         }));
 
         if (chatBodyRef.current) {
@@ -574,18 +1027,36 @@ const Index = () => {
         }
       }
 
-      // Conversation finished streaming; attempt auto-title if needed
-      const finalMsg = { ...assistantMessage, content: fullContent, isCodeResponse: isCodeResp };
-      const finalConv: Conversation = {
-        ...updatedConversation,
-        messages: [...updatedConversation.messages, finalMsg],
-        lastMessage: fullContent,
-        timestamp: new Date()
-      };
+      // Conversation finished streaming (or was stopped); attempt auto-title if needed
+      const finalConv = settleAssistantMessage({
+        ...assistantMessage,
+        content: fullContent,
+        isCodeResponse: isCodeResp,
+        ...(codeModel && { codeContent, codeModel }),
+        ...(toolSteps.length > 0 && { toolSteps }),
+        ...withUsage(),
+        ...(controller.signal.aborted && { stopped: true }),
+      });
       if (!conversation.autoTitled) {
         await handleGenerateTitle(finalConv);
       }
+      refreshRollingSummary(finalConv);
+      runMemoryExtraction(finalConv);
+      runMemoryConsolidation();
     } catch (error) {
+      if (controller.signal.aborted) {
+        // Stopped before the stream began; keep the reply as stopped, not failed
+        settleAssistantMessage({
+          ...assistantMessage,
+          content: fullContent,
+          ...(codeModel && { codeContent, codeModel }),
+          ...(toolSteps.length > 0 && { toolSteps }),
+          ...withUsage(),
+          stopped: true
+        });
+        return;
+      }
+
       const failedMessage: Message = {
         id: assistantMessage.id,
         content: 'Sorry, I encountered an error. Please try again.',
@@ -593,6 +1064,7 @@ const Index = () => {
         timestamp: new Date(),
         failed: true,
         profileId: currentProfile.id,
+        parentId: assistantMessage.parentId,
       };
 
       const errorConversation = {
@@ -606,35 +1078,136 @@ const Index = () => {
       setConversations(prev => prev.map(conv =>
         conv.id === conversation.id ? errorConversation : conv
       ));
+      persistMessage(errorConversation, failedMessage);
 
       toast.error('Failed to get AI response. Please try again.');
     } finally {
+      // Requests are paid for whether the reply settled, stopped or failed
+      recordUsage(conversation.id, { ...assistantMessage, ...withUsage() })
+        .catch(e => console.warn('Failed to record usage', e));
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
       setIsTyping(false);
     }
   };
 
-  const handleRetryMessage = (messageId: string) => {
-    if (!currentConversation) return;
-    
-    const messageIndex = currentConversation.messages.findIndex(msg => msg.id === messageId);
-    if (messageIndex > 0) {
-      const userMessage = currentConversation.messages[messageIndex - 1];
-      if (userMessage.role === 'user') {
-        const updatedMessages = currentConversation.messages.slice(0, messageIndex);
-        const updatedConversation = {
-          ...currentConversation,
-          messages: updatedMessages
-        };
-        setCurrentConversation(updatedConversation);
-        setConversations(prev => prev.map(conv =>
-          conv.id === currentConversation.id ? updatedConversation : conv
-        ));
+  /**
+   * Add a typed command and its local answer to the chat without a model call
+   * @param base - The chat as the command left it, when it changed more than the messages
+   */
+  const postCommandReply = (input: string, content: string, base = currentConversation) => {
+    if (!base || !currentProfile) return;
+    const now = Date.now();
+    const last = base.messages[base.messages.length - 1];
+    const userMessage: Message = {
+      id: now.toString(),
+      content: input,
+      role: 'user',
+      timestamp: new Date(now),
+      profileId: currentProfile.id,
+      parentId: last?.id ?? null,
+    };
+    const answer: Message = {
+      id: (now + 1).toString(),
+      content,
+      role: 'assistant',
+      timestamp: new Date(now + 1),
+      profileId: currentProfile.id,
+      parentId: userMessage.id,
+    };
+    const updated: Conversation = {
+      ...base,
+      messages: [...base.messages, userMessage, answer],
+      lastMessage: content,
+      timestamp: new Date(),
+    };
+    setCurrentConversation(updated);
+    setConversations(prev => prev.map(conv => conv.id === updated.id ? updated : conv));
+    persistMessage(updated, userMessage);
+    persistMessage(updated, answer);
+  };
+
+  const loadProfiles = (): Profile[] => {
+    try {
+      return JSON.parse(secureStorage.getItem('vivica-profiles') || '[]');
+    } catch {
+      return [];
+    }
+  };
 
-        handleSendMessage(userMessage.content, updatedConversation);
+  const commandContext: CommandContext = {
+    send: (content) => handleSendMessage(content),
+    reply: (input, content) => postCommandReply(input, content),
+    switchProfile: (name) => {
+      const profiles = loadProfiles();
+      const wanted = name.toLowerCase();
+      const profile = profiles.find(p => p.name.toLowerCase() === wanted)
+        || profiles.find(p => p.name.toLowerCase().startsWith(wanted));
+      if (!profile) return false;
+      handleProfileChange(profile);
+      return true;
+    },
+    setModel: (model) => {
+      if (!currentProfile) throw new CommandError('No profile selected');
+      let id = model;
+      if (usesOpenRouter(currentProfile) && openRouterModels.length) {
+        // Accept a unique fragment of an OpenRouter id, e.g. "gpt-4o-mini"
+        const matches = openRouterModels.filter(m => m.id === model || m.id.includes(model));
+        const exact = matches.find(m => m.id === model);
+        if (!exact && matches.length !== 1) {
+          throw new CommandError(matches.length ? `"${model}" matches ${matches.length} models` : `Unknown model "${model}"`);
+        }
+        id = (exact || matches[0]).id;
+      }
+      const updated = { ...currentProfile, model: id };
+      secureStorage.setItem('vivica-profiles', JSON.stringify(
+        loadProfiles().map(p => p.id === updated.id ? updated : p)
+      ));
+      setCurrentProfile(updated);
+      window.dispatchEvent(new Event('profilesUpdated'));
+      return id;
+    },
+    briefing: () => {
+      if (!currentProfile) throw new CommandError('No profile selected');
+      runBriefing();
+    },
+    summarize: async (input) => {
+      const conv = currentConversation;
+      if (!conv || !currentProfile) throw new CommandError('No conversation open');
+      const apiKey = secureStorage.getItem('openrouter-api-key') || '';
+      // Folds every turn before the recent window, not just full batches
+      const update = await rollSummary(conv, currentProfile.model, apiKey, currentProfile, 1);
+      const summarized = update ? { ...conv, ...update } : conv;
+      if (update) applySummary(conv.id, update.summary, update.summarizedCount);
+      if (!summarized.summary) {
+        throw new CommandError('This chat is still short enough to send in full, so it has no summary yet');
       }
+      postCommandReply(input, summarized.summary, summarized);
+    },
+    profileId: currentProfile?.id,
+  };
+
+  // Messages typed into the footer: slash commands run locally, the rest go to the model
+  const handleSubmitMessage = async (content: string, files?: File[]) => {
+    if (files?.length || !parseCommand(content)) {
+      handleSendMessage(content, undefined, undefined, files);
+      return;
+    }
+    try {
+      const confirmation = await runCommand(content, commandContext);
+      if (confirmation) toast.success(confirmation);
+    } catch (error) {
+      if (!(error instanceof CommandError)) console.warn('Command failed', error);
+      toast.error(error instanceof Error ? error.message : 'Command failed');
     }
   };
 
+  const handleStopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Answer the user turn before `messageId` again; the old reply stays as a branch
   const handleRegenerateMessage = (messageId: string) => {
     if (!currentConversation) return;
 
@@ -642,40 +1215,151 @@ const Index = () => {
     if (messageIndex > 0) {
       const userMessage = currentConversation.messages[messageIndex - 1];
       if (userMessage.role === 'user') {
-        const updatedMessages = currentConversation.messages.slice(0, messageIndex);
-        const updatedConversation = {
-          ...currentConversation,
-          messages: updatedMessages
-        };
-        setCurrentConversation(updatedConversation);
-        setConversations(prev => prev.map(conv =>
-          conv.id === currentConversation.id ? updatedConversation : conv
-        ));
-
-        handleSendMessage(userMessage.content, updatedConversation);
+        const updatedConversation = branchConversation(currentConversation, messageIndex);
+        applyBranch(updatedConversation);
+        handleSendMessage(userMessage.content, updatedConversation, userMessage);
       }
     }
   };
 
+  const handleRetryMessage = handleRegenerateMessage;
+
+  // Send the edit as a sibling of the original message, which keeps its replies
   const handleSendEditedMessage = (content: string) => {
     if (!currentConversation || !editingMessage) return;
 
     const index = currentConversation.messages.findIndex(m => m.id === editingMessage.id);
     if (index >= 0) {
-      const updatedMessages = currentConversation.messages.slice(0, index);
-      const updatedConversation = {
-        ...currentConversation,
-        messages: updatedMessages
-      };
-      setCurrentConversation(updatedConversation);
-      setConversations(prev => prev.map(conv =>
-        conv.id === currentConversation.id ? updatedConversation : conv
-      ));
+      const updatedConversation = branchConversation(currentConversation, index);
+      applyBranch(updatedConversation);
       setEditingMessage(null);
-      handleSendMessage(content, updatedConversation);
+      // The new version keeps the original's images and files
+      handleSendMessage(content, updatedConversation, undefined, undefined, editingMessage.attachments);
     }
   };
 
+  // Show the previous (-1) or next (+1) alternative of a message
+  const handleSwitchBranch = (messageId: string, offset: number) => {
+    if (!currentConversation || isTyping) return;
+    const all = [...currentConversation.messages, ...(currentConversation.branches || [])];
+    const message = all.find(m => m.id === messageId);
+    if (!message) return;
+    const siblings = getSiblings(all, message);
+    const target = siblings[siblings.findIndex(m => m.id === messageId) + offset];
+    if (!target) return;
+
+    const messages = pathThrough(all, target.id);
+    const onPath = new Set(messages.map(m => m.id));
+    const last = messages[messages.length - 1];
+    // The rolling summary only holds while the turns it covers are unchanged
+    const keepSummary = (currentConversation.summarizedCount || 0) <= divergenceIndex(currentConversation.messages, messages);
+    applyBranch({
+      ...currentConversation,
+      messages,
+      branches: all.filter(m => !onPath.has(m.id)),
+      lastMessage: last ? last.content || last.codeContent : undefined,
+      ...(!keepSummary && { summary: undefined, summarizedCount: undefined }),
+    });
+  };
+
+  const handleToggleCompare = () => {
+    if (compareMode) {
+      compare.clear();
+    } else if (currentProfile && usesOpenRouter(currentProfile) && !compareModels.some(Boolean)) {
+      // Start from the current model so it's compared against something
+      setCompareModels([currentProfile.model, ...compareModels.slice(1)]);
+    }
+    setCompareMode(!compareMode);
+  };
+
+  // Send one prompt, with the current chat as context, to every compared model
+  const handleCompare = async (content: string) => {
+    if (!currentProfile || !content.trim()) return;
+    const models = [...new Set(compareModels.filter(Boolean))];
+    if (models.length < MIN_COMPARE_MODELS) {
+      toast.error(`Pick at least ${MIN_COMPARE_MODELS} different models to compare`);
+      return;
+    }
+    const apiKey = secureStorage.getItem('openrouter-api-key') || '';
+    if (!apiKey) {
+      toast.error('Please set your OpenRouter API key in Settings.');
+      return;
+    }
+
+    const conv = currentConversation;
+    const systemPrompt = withSummary(await buildSystemPrompt(content), conv?.summary);
+    const history: ChatMessage[] = [
+      ...(conv?.messages.slice(conv.summarizedCount || 0) || []).map(m => ({ role: m.role, content: toChatContent(m) })),
+      { role: 'user', content: content.trim() },
+    ];
+    // Fit the smallest window so every model gets the same context
+    const lengths = models.map(getModelContextLength).filter((n): n is number => !!n);
+    const context = buildContext(systemPrompt, history, {
+      contextLength: lengths.length ? Math.min(...lengths) : undefined,
+      maxTokens: currentProfile.maxTokens,
+    });
+    const conversationId = conv?.id || '';
+    const profileId = currentProfile.id;
+    compare.start(content.trim(), models, context.messages, {
+      apiKey,
+      temperature: currentProfile.temperature,
+      maxTokens: currentProfile.maxTokens,
+      // Every compared answer is paid for, promoted or not. A promoted one
+      // shows the same usage on its message, which the ledger doesn't count again.
+      onUsage: (usage) => {
+        saveUsageLogEntries([{
+          ...priceUsage(usage, getModelPricing(usage.model)),
+          id: `compare-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+          conversationId,
+          profileId,
+          timestamp: new Date().toISOString(),
+        }]).catch(e => console.warn('Failed to record comparison usage', e));
+      },
+    });
+  };
+
+  // Add the compared prompt and the chosen answer to the conversation
+  const handlePromoteAnswer = (index: number) => {
+    const result = compare.run?.results[index];
+    if (!currentConversation || !currentProfile || !compare.run || !result?.content) return;
+
+    const now = Date.now();
+    const userMessage: Message = {
+      id: now.toString(),
+      content: compare.run.prompt,
+      role: 'user',
+      timestamp: new Date(now),
+      profileId: currentProfile.id,
+      parentId: currentConversation.messages[currentConversation.messages.length - 1]?.id ?? null,
+    };
+    const answer: Message = {
+      id: (now + 1).toString(),
+      content: result.content,
+      role: 'assistant',
+      timestamp: new Date(now + 1),
+      profileId: currentProfile.id,
+      parentId: userMessage.id,
+      ...(result.usage && { usage: [priceUsage(result.usage, getModelPricing(result.model))] }),
+    };
+    const updated: Conversation = {
+      ...currentConversation,
+      messages: [...currentConversation.messages, userMessage, answer],
+      lastMessage: answer.content,
+      timestamp: new Date(),
+      title: currentConversation.messages.length === 0
+        ? userMessage.content.substring(0, 30) + (userMessage.content.length > 30 ? '...' : '')
+        : currentConversation.title,
+    };
+    setCurrentConversation(updated);
+    setConversations(prev => prev.map(conv => conv.id === updated.id ? updated : conv));
+    persistMessage(updated, userMessage);
+    persistMessage(updated, answer);
+
+    compare.clear();
+    setCompareMode(false);
+    toast.success(`Added the ${result.model} answer to the chat`);
+  };
+
   const handleStartEditMessage = (message: Message) => {
     setEditingMessage(message);
   };
@@ -695,17 +1379,24 @@ const Index = () => {
   };
 
   const handleSelectConversation = (conversation: Conversation) => {
-    setCurrentConversation(conversation);
+    openConversation(conversation);
+    setSidebarOpen(false);
+  };
+
+  const handleOpenSearchResult = (conversation: Conversation, messageId: string) => {
+    openConversation(conversation);
+    setHighlightMessageId(messageId);
     setSidebarOpen(false);
   };
 
   const handleDeleteConversation = (conversationId: string) => {
     const newConversations = conversations.filter(conv => conv.id !== conversationId);
     setConversations(newConversations);
-    
+    deleteConversation(conversationId).catch(e => console.warn('Failed to delete conversation', e));
+
     if (currentConversation?.id === conversationId) {
       if (newConversations.length > 0) {
-        setCurrentConversation(newConversations[0]);
+        openConversation(newConversations[0]);
       } else {
         handleNewChat();
       }
@@ -728,6 +1419,7 @@ const Index = () => {
     setCurrentConversation(prev =>
       prev && prev.id === conversationId ? { ...prev, title: newTitle, autoTitled: true } : prev
     );
+    updateConversationTitle(conversationId, newTitle).catch(e => console.warn('Failed to save title', e));
 
     toast.success("Conversation renamed");
   };
@@ -740,15 +1432,15 @@ const Index = () => {
   const handleSaveSummary = async () => {
     if (!currentConversation || !currentProfile) return;
 
-    const apiKey = localStorage.getItem('openrouter-api-key');
-    if (!apiKey) {
+    const apiKey = secureStorage.getItem('openrouter-api-key') || '';
+    if (!apiKey && usesOpenRouter(currentProfile)) {
       toast.error('Please set your OpenRouter API key in Settings.');
       return;
     }
 
     const messages: ChatMessage[] = currentConversation.messages.map(m => ({
       role: m.role,
-      content: m.content
+      content: toChatContent(m)
     }));
 
     try {
@@ -757,7 +1449,8 @@ const Index = () => {
         currentProfile.model,
         apiKey,
         'profile',
-        currentProfile.id
+        currentProfile.id,
+        currentProfile
       );
     } catch (e) {
       // errors are surfaced via toast in saveConversationMemory
@@ -773,8 +1466,8 @@ const Index = () => {
     const conversation = conv || currentConversation;
     if (!conversation || !currentProfile) return;
 
-    const apiKey = localStorage.getItem('openrouter-api-key');
-    if (!apiKey) {
+    const apiKey = secureStorage.getItem('openrouter-api-key') || '';
+    if (!apiKey && usesOpenRouter(currentProfile)) {
       toast.error('Please set your OpenRouter API key in Settings.');
       return;
     }
@@ -782,26 +1475,29 @@ const Index = () => {
     // Only re-title when there are at least two messages
     if (conversation.messages.length < 2) return;
 
-    const chatService = new ChatService(apiKey);
+    const chatService = new ChatService(apiKey, currentProfile);
     const reqMessages: ChatMessage[] = conversation.messages.map(m => ({
       role: m.role,
-      content: m.content
+      content: toChatContent(m)
     }));
     reqMessages.push({
       role: 'user',
       content:
         'Give this conversation a title that is short, punchy, and feels like something Vivica would say. Make it witty, mysterious, or teasing—never generic. No more than 6 words. Just the title, nothing else.'
     });
+    const { messages: titleMessages } = buildContext('', reqMessages, {
+      contextLength: getContextLength(currentProfile),
+      maxTokens: 12,
+    });
 
     try {
       const res = await chatService.sendMessage({
         model: currentProfile.model,
-        messages: reqMessages,
+        messages: titleMessages,
         temperature: 0.7,
         max_tokens: 12
       });
-      const data = await res.json();
-      const title = data.choices?.[0]?.message?.content?.trim();
+      const title = await chatService.readMessage(res);
       if (title) {
         // Reuse the same rename logic used by the manual flow so we don't
         // replace the conversation object or lose the active ID.
@@ -834,6 +1530,7 @@ const Index = () => {
         conversations={conversations}
         currentConversation={currentConversation}
         onSelectConversation={handleSelectConversation}
+        onOpenSearchResult={handleOpenSearchResult}
         onDeleteConversation={handleDeleteConversation}
         onRenameConversation={handleRenameConversation}
         onGenerateTitle={handleGenerateTitle}
@@ -841,6 +1538,8 @@ const Index = () => {
         onOpenSettings={() => setShowSettings(true)}
         onOpenProfiles={() => setShowProfiles(true)}
         onOpenMemory={() => setShowMemory(true)}
+        onOpenUsage={() => setShowUsage(true)}
+        onOpenDocuments={() => setShowDocuments(true)}
       />
 
       <div className="flex-1 flex flex-col min-w-0 relative">
@@ -851,15 +1550,36 @@ const Index = () => {
           onProfileChange={handleProfileChange}
           onOpenProfiles={() => setShowProfiles(true)}
           onSaveSummary={handleSaveSummary}
+          conversationSummary={currentConversation?.summary}
+          summarizedCount={currentConversation?.summarizedCount || 0}
+          onEditSummary={currentConversation ? handleEditSummary : undefined}
+          compareMode={compareMode}
+          onToggleCompare={handleToggleCompare}
         />
         
         <ChatBody
           ref={chatBodyRef}
           conversation={currentConversation}
           isTyping={isTyping}
+          omittedCount={currentConversation ? omittedCounts[currentConversation.id] || 0 : 0}
+          summarizedCount={currentConversation?.summarizedCount || 0}
+          highlightMessageId={highlightMessageId}
+          onHighlightShown={() => setHighlightMessageId(null)}
           onRetryMessage={handleRetryMessage}
           onRegenerateMessage={handleRegenerateMessage}
           onEditMessage={handleStartEditMessage}
+          branchPositions={currentConversation
+            ? getBranchPositions([...currentConversation.messages, ...(currentConversation.branches || [])], currentConversation.messages)
+            : undefined}
+          onSwitchBranch={handleSwitchBranch}
+          compare={compareMode ? {
+            models: compareModels,
+            onModelsChange: setCompareModels,
+            run: compare.run,
+            running: compare.running,
+            onPromote: handlePromoteAnswer,
+            onClose: handleToggleCompare,
+          } : undefined}
           onSendMessage={handleSendMessage}
           onNewChat={handleNewChat}
         />
@@ -870,10 +1590,13 @@ const Index = () => {
         />
 
         <ChatFooter
-          onSendMessage={editingMessage ? handleSendEditedMessage : handleSendMessage}
+          onSendMessage={compareMode ? handleCompare : editingMessage ? handleSendEditedMessage : handleSubmitMessage}
           onVoiceToggle={handleVoiceToggle}
           isVoiceMode={isVoiceMode}
+          isGenerating={compareMode ? compare.running : isTyping}
+          onStopGeneration={compareMode ? compare.stop : handleStopGeneration}
           editingMessage={editingMessage?.content}
+          allowAttachments={!compareMode && !editingMessage}
         />
       </div>
 
@@ -889,6 +1612,7 @@ const Index = () => {
           getMemoryPrompt={getMemoryPrompt}
           buildSystemPrompt={buildSystemPrompt}
           onSendMessage={handleSendMessage}
+          onBriefing={runBriefing}
         />
       )}
 
@@ -905,6 +1629,18 @@ const Index = () => {
       <MemoryModal
         isOpen={showMemory}
         onClose={() => setShowMemory(false)}
+        onConsolidate={() => runMemoryConsolidation(true)}
+      />
+
+      <UsageDashboard
+        isOpen={showUsage}
+        onClose={() => setShowUsage(false)}
+      />
+
+      <DocumentsModal
+        isOpen={showDocuments}
+        onClose={() => setShowDocuments(false)}
+        profile={currentProfile}
       />
     </div>
   );
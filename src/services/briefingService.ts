@@ -0,0 +1,151 @@
+import { fetchRSSHeadlines, fetchArticleText, type Headline } from "./rssService";
+import { fetchTodayForecast, getUserLocation } from "./weatherService";
+import { getUpcomingReminders, formatDue } from "./reminderService";
+import type { ReminderRecord } from "@/utils/indexedDb";
+
+// Daily briefing: today's forecast, the top headlines with an extract of
+// each article and the reminders due today, written up by the active
+// profile in its own voice. It runs on demand (`/briefing`, or the button in
+// voice mode) and, when a time is set in Settings, once a day at that time
+// while the app is open.
+
+const LAST_RUN_KEY = 'vivica-briefing-at';
+const CHECK_INTERVAL_MS = 60_000;
+/** A scheduled briefing missed by more than this is skipped for the day */
+const LATE_LIMIT_MS = 4 * 60 * 60 * 1000;
+const HEADLINE_COUNT = 3;
+/** Characters of each article passed to the model */
+const EXTRACT_CHARS = 600;
+
+/** What stored memories are ranked against for the briefing */
+export const BRIEFING_MEMORY_QUERY = "the user's plans, schedule, routines and interests for today";
+
+export interface BriefingHeadline extends Headline {
+  /** Start of the article, or the feed's description when it can't be fetched */
+  extract: string;
+}
+
+export interface BriefingMaterial {
+  forecast?: string;
+  headlines: BriefingHeadline[];
+  /** Pending reminders due before the end of the day */
+  reminders: ReminderRecord[];
+}
+
+/** Scheduled time as "HH:MM", or '' when the briefing only runs on demand */
+export function getBriefingTime(): string {
+  try {
+    const saved = JSON.parse(localStorage.getItem('vivica-settings') || '{}');
+    return typeof saved.briefingTime === 'string' && /^\d{1,2}:\d{2}$/.test(saved.briefingTime)
+      ? saved.briefingTime
+      : '';
+  } catch {
+    return '';
+  }
+}
+
+/** True once today's scheduled time has passed and today's briefing hasn't run */
+export function isBriefingDue(now = new Date()): boolean {
+  const time = getBriefingTime();
+  if (!time) return false;
+  const [hour, minute] = time.split(':').map(Number);
+  const scheduled = new Date(now);
+  scheduled.setHours(hour, minute, 0, 0);
+  const last = Number(localStorage.getItem(LAST_RUN_KEY) || 0);
+  const late = now.getTime() - scheduled.getTime();
+  return late >= 0 && late < LATE_LIMIT_MS && last < scheduled.getTime();
+}
+
+/**
+ * Run `onDue` when the scheduled briefing comes due, checking every minute.
+ * The run is recorded before `onDue`, so it happens once a day.
+ * @returns Cleanup that stops the checks
+ */
+export function startBriefingScheduler(onDue: () => void): () => void {
+  const check = () => {
+    if (!isBriefingDue()) return;
+    localStorage.setItem(LAST_RUN_KEY, String(Date.now()));
+    onDue();
+  };
+  check();
+  const timer = window.setInterval(check, CHECK_INTERVAL_MS);
+  return () => window.clearInterval(timer);
+}
+
+const clip = (text: string, max: number) =>
+  text.length > max ? `${text.slice(0, max).replace(/\s+\S*$/, '')}…` : text;
+
+async function fetchBriefingHeadlines(): Promise<BriefingHeadline[]> {
+  const headlines = (await fetchRSSHeadlines()).slice(0, HEADLINE_COUNT);
+  return Promise.all(headlines.map(async (headline) => {
+    const article = await fetchArticleText(headline.link).catch(() => '');
+    const text = (article || headline.description || '').replace(/\s+/g, ' ').trim();
+    return { ...headline, extract: clip(text, EXTRACT_CHARS) };
+  }));
+}
+
+/** Collect the briefing's material; each part that can't be fetched is left out */
+export async function gatherBriefing(now = new Date()): Promise<BriefingMaterial> {
+  const endOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1).toISOString();
+  const [forecast, headlines, reminders] = await Promise.all([
+    getUserLocation()
+      .then(({ lat, lon }) => fetchTodayForecast(lat, lon))
+      .catch((e) => {
+        console.debug('Failed to fetch forecast', e);
+        return undefined;
+      }),
+    fetchBriefingHeadlines().catch((e) => {
+      console.debug('Failed to fetch headlines', e);
+      return [];
+    }),
+    getUpcomingReminders()
+      .then(upcoming => upcoming.filter(r => r.dueAt < endOfDay))
+      .catch(() => [] as ReminderRecord[]),
+  ]);
+  return { forecast, headlines, reminders };
+}
+
+/** Date as used in briefing titles, e.g. "Monday, October 19" */
+export function formatBriefingDate(date: Date): string {
+  return date.toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' });
+}
+
+/** The material as plain markdown, also shown when the model can't be reached */
+export function formatBriefingMaterial(material: BriefingMaterial, now = new Date()): string {
+  const sections = [`**Briefing for ${formatBriefingDate(now)}**`];
+  if (material.forecast) sections.push(`## Weather\n${material.forecast}`);
+  if (material.headlines.length) {
+    sections.push(`## Headlines\n${material.headlines
+      .map(h => `- [${h.title}](${h.link})${h.source ? ` (${h.source})` : ''}${h.extract ? `\n  ${h.extract}` : ''}`)
+      .join('\n')}`);
+  }
+  if (material.reminders.length) {
+    sections.push(`## Today\n${material.reminders.map(r => `- ${formatDue(r.dueAt)} · ${r.text}`).join('\n')}`);
+  }
+  return sections.join('\n\n');
+}
+
+/** Instruction for the persona's message that gives the briefing */
+export function briefingPrompt(material: BriefingMaterial, now = new Date()): string {
+  return `Give the user their briefing for ${formatBriefingDate(now)}, in your own voice and character, from the material below and what you know about them.
+Open with a short greeting, then use these sections in order, each under a markdown "##" heading:
+- Weather: what today looks like and anything worth preparing for.
+- Headlines: one or two sentences per story on what happened and why it matters.
+- Today: the reminders due and anything you know about the user that bears on today.
+Leave out a section with nothing to say, and close with a one-line send-off.
+It will be read aloud, so keep it under 300 words, skip links and tables, and don't mention being asked to write it.
+
+${formatBriefingMaterial(material, now)}`;
+}
+
+/** Markdown reduced to plain sentences for speech synthesis */
+export function toSpeechText(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^#{1,6}\s*(.+?)[.:!?]?$/gm, '$1.')
+    .replace(/^\s*(?:[-*+]|\d+\.)\s+/gm, '')
+    .replace(/[*_`~]+/g, '')
+    .replace(/\n{2,}/g, '\n')
+    .trim();
+}
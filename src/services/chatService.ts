@@ -1,8 +1,49 @@
 
 import { toast } from "@/components/ui/sonner";
+import {
+  getProviderAdapter,
+  resolveBaseUrl,
+  type ProviderAdapter,
+  type ProviderSettings,
+  type ReportedUsage
+} from "./providers";
+import {
+  getKeysForRequest,
+  recordKeySuccess,
+  recordKeyFailure,
+  shortKey
+} from "./keyManager";
+import { estimateMissingUsage, type MessageUsage } from "@/utils/usageUtils";
 export interface ChatMessage {
-  role: 'user' | 'assistant' | 'system';
+  role: 'user' | 'assistant' | 'system' | 'tool';
   content: string;
+  /** Tools the assistant asked to run (assistant messages only) */
+  tool_calls?: ToolCall[];
+  /** The call a `tool` message answers */
+  tool_call_id?: string;
+  /** Image data URLs sent alongside a user message's text */
+  images?: string[];
+}
+
+/** OpenAI-style function tool offered to the model */
+export interface ChatTool {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    /** JSON Schema of the arguments object */
+    parameters: Record<string, unknown>;
+  };
+}
+
+export interface ToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    /** JSON-encoded arguments as produced by the model */
+    arguments: string;
+  };
 }
 
 export interface ChatRequest {
@@ -11,10 +52,11 @@ export interface ChatRequest {
   temperature?: number;
   max_tokens?: number;
   stream?: boolean;
+  tools?: ChatTool[];
   isCodeRequest?: boolean; // Flag for code requests
   profile?: {  // Include full profile for model routing
     model: string;
-    codeModel: string;
+    codeModel?: string;
     temperature: number;
     maxTokens: number;
   };
@@ -22,88 +64,138 @@ export interface ChatRequest {
 
 export interface StreamStart {
   type: 'stream_start';
-  data: { isCodeRequest?: boolean };
+  data: { isCodeRequest?: boolean; codeModel?: string };
+}
+
+/** Which half of a code hand-off a token belongs to */
+export type HandoffStage = 'code' | 'explanation';
+
+export interface StreamStage {
+  type: 'stage_start';
+  stage: HandoffStage;
+  model: string;
+}
+
+/** Tool calls the model made; sent once its stream has ended */
+export interface StreamToolCalls {
+  type: 'tool_calls';
+  calls: ToolCall[];
+}
+
+/** A requested tool is about to run */
+export interface StreamToolStart {
+  type: 'tool_start';
+  call: ToolCall;
+}
+
+/** A tool finished; its result goes back to the model */
+export interface StreamToolResult {
+  type: 'tool_result';
+  call: ToolCall;
+  result: string;
+  failed?: boolean;
+}
+
+/** Offers tools to the model and runs the calls it makes */
+export interface ToolRunner {
+  tools: ChatTool[];
+  run(call: ToolCall, signal?: AbortSignal): Promise<string>;
+}
+
+/** Model turns per reply; the last one must answer without tools */
+const MAX_TOOL_ROUNDS = 5;
+
+/** Token counts for one finished (or stopped) request; sent last */
+export interface StreamUsage {
+  type: 'usage';
+  usage: MessageUsage;
+  stage?: HandoffStage;
 }
 
 export interface StreamContent {
   content: string;
   isCodeRequest?: boolean;
+  stage?: HandoffStage;
 }
 
-export class ChatService {
-  /** Primary key used for OpenRouter requests */
-  // TODO: allow setting multiple keys here instead of pulling from localStorage
-  private apiKey: string;
-  // apiKeyList is unused; keep until multi-key refactor
-  private apiKeyList: string[];
-  private baseUrl = 'https://openrouter.ai/api/v1';
-  private telemetry = {
-    keyUsage: {} as Record<string, {success: number, failures: number}>,
-    lastUsedKey: '',
-  };
+const HANDOFF_PROMPT = (code: string) =>
+  `A specialist coding model has already answered my last message. Its answer is shown to me right above your reply:\n\n${code}\n\n` +
+  `Explain in plain English, in your own voice, what this code does and how to use it. ` +
+  `Don't repeat the code block itself; refer to parts of it by name where helpful.`;
 
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
-    this.initKeyTelemetry();
-  }
+/** Non-2xx reply from a provider, keeping the status for key handling */
+export class ChatRequestError extends Error {
+  status: number;
+  retryAfterMs?: number;
 
-  private initKeyTelemetry() {
-    const saved = localStorage.getItem('vivica-key-telemetry');
-    if (saved) {
-      try {
-        this.telemetry = JSON.parse(saved);
-      } catch (e) {
-        console.warn('Failed to load key telemetry', e);
-      }
-    }
+  constructor(status: number, body: string, retryAfterMs?: number) {
+    super(`${status}: ${body}`);
+    this.name = 'ChatRequestError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
   }
+}
 
-  private saveKeyTelemetry() {
-    localStorage.setItem(
-      'vivica-key-telemetry', 
-      JSON.stringify(this.telemetry)
-    );
-  }
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
 
-  private trackKeyUsage(key: string, success: boolean) {
-    const shortKey = key.slice(-4);
-    if (!this.telemetry.keyUsage[shortKey]) {
-      this.telemetry.keyUsage[shortKey] = {success: 0, failures: 0};
-    }
-    
-    if (success) {
-      this.telemetry.keyUsage[shortKey].success++;
-      this.telemetry.lastUsedKey = shortKey;
-    } else {
-      this.telemetry.keyUsage[shortKey].failures++;
-    }
-    
-    this.saveKeyTelemetry();
+export class ChatService {
+  /** Key passed in by the caller; tried alongside the managed OpenRouter keys */
+  private apiKey: string;
+  private baseUrl: string;
+  private adapter: ProviderAdapter;
+  private providerSettings: ProviderSettings;
+  /** Key each successful response was sent with, for usage accounting */
+  private responseKeys = new WeakMap<Response, string>();
+
+  /**
+   * @param apiKey - OpenRouter key (ignored by other providers)
+   * @param provider - Provider fields from the active profile; defaults to OpenRouter
+   */
+  constructor(apiKey: string, provider: ProviderSettings = {}) {
+    this.apiKey = apiKey;
+    this.providerSettings = provider;
+    this.adapter = getProviderAdapter(provider.provider);
+    this.baseUrl = resolveBaseUrl(provider);
   }
 
-  private async trySendWithKey(request: ChatRequest, apiKey: string): Promise<Response> {
+  private async trySendWithKey(request: ChatRequest, apiKey: string, signal?: AbortSignal): Promise<Response> {
     try {
-      const response = await fetch(`${this.baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': window.location.origin,
-          'X-Title': 'Vivica Chat Companion'
-        },
-        body: JSON.stringify(request)
-      });
+      const { url, init } = this.adapter.buildRequest(this.baseUrl, request, apiKey);
+      const response = await fetch(url, { ...init, signal });
 
       if (!response.ok) {
-        throw new Error(await response.text());
+        throw new ChatRequestError(
+          response.status,
+          await response.text(),
+          parseRetryAfter(response.headers.get('retry-after'))
+        );
       }
       return response;
     } catch (error) {
-      console.warn(`Attempt with key ${apiKey?.slice(-4)} failed:`, error);
+      console.warn(`Attempt with key ${shortKey(apiKey || '')} failed:`, error);
       throw error;
     }
   }
 
+  /**
+   * Keys to try in order. OpenRouter keys come from the key manager, which
+   * applies the selection strategy and cooldowns; other providers use the
+   * profile key.
+   */
+  private getKeys(): string[] {
+    if (this.adapter.id !== 'openrouter') {
+      const key = this.providerSettings.apiKey?.trim() || '';
+      return key || this.adapter.keyOptional ? [key] : [];
+    }
+    return getKeysForRequest(this.apiKey);
+  }
+
   private isCodeRequest(messages: ChatMessage[]): boolean {
     // Check if last message contains code-related keywords or backticks
     const lastMessage = messages[messages.length - 1]?.content.toLowerCase() || '';
@@ -113,30 +205,18 @@ export class ChatService {
            lastMessage.includes('programming');
   }
 
-  async sendMessage(request: ChatRequest): Promise<Response> {
-    // Route to code model if this is a code request
-    const isCode = request.isCodeRequest ?? this.isCodeRequest(request.messages);
-    const effectiveModel = isCode && request.profile?.codeModel 
-      ? request.profile.codeModel 
-      : request.model;
-
-    console.log('Sending request to OpenRouter:', {
-      url: `${this.baseUrl}/chat/completions`,
-      request: {
-        ...request,
-        model: effectiveModel,
-        isCodeRequest: isCode
-      }
+  /**
+   * Send a chat request, falling back across keys.
+   * @param signal - Aborts the request; an aborted send rejects with an
+   *   AbortError and does not move on to the next key
+   */
+  async sendMessage(request: ChatRequest, signal?: AbortSignal): Promise<Response> {
+    console.log(`Sending request to ${this.adapter.label}:`, {
+      url: this.baseUrl,
+      request
     });
 
-    // Get all API keys from storage - constructor key first, then settings keys
-    const settings = JSON.parse(localStorage.getItem('vivica-settings') || '{}');
-    const keys = [
-      this.apiKey,                   // Primary key from constructor
-      settings.apiKey1 || '',        // Secondary key from settings  
-      settings.apiKey2 || '',        // Tertiary key from settings
-      settings.apiKey3 || ''         // Additional fallback key
-    ].filter(key => key?.trim());    // Filter out empty keys
+    const keys = this.getKeys();
 
     if (keys.length === 0) {
       throw new Error('No valid API keys configured. Please check your settings.');
@@ -159,8 +239,9 @@ export class ChatService {
           await new Promise(resolve => setTimeout(resolve, 300));
         }
 
-        const response = await this.trySendWithKey(request, key);
-        this.trackKeyUsage(key, true);
+        const response = await this.trySendWithKey(request, key, signal);
+        if (key) recordKeySuccess(key);
+        this.responseKeys.set(response, key);
         
         if (index > 0 && showRetryFeedback) {
           toast.success(`Connected with backup key`, {
@@ -171,7 +252,17 @@ export class ChatService {
         
         return response;
       } catch (error) {
+        // A user cancel is not a key failure
+        if (signal?.aborted) throw error;
         lastError = error as Error;
+        if (key) {
+          const status = error instanceof ChatRequestError ? error.status : undefined;
+          recordKeyFailure(
+            key,
+            lastError.message,
+            status === 429 ? { retryAfterMs: (error as ChatRequestError).retryAfterMs } : undefined
+          );
+        }
         // Continue to next key unless it's the last attempt
         if (index === keys.length - 1) break;
       }
@@ -180,19 +271,27 @@ export class ChatService {
     // All attempts failed - format a helpful error message
     const errorMsg = lastError?.message.includes('401') 
       ? 'Invalid API key(s). Please check your settings.'
-      : lastError?.message.includes('rate limit')
+      : lastError?.message.includes('rate limit') ||
+        (lastError instanceof ChatRequestError && lastError.status === 429)
       ? 'Rate limits exceeded on all keys. Please upgrade your plan or try again later.'
       : 'All API key attempts failed. Please check your connection and keys.';
     
-    console.error('OpenRouter API failed after all attempts:', errorMsg);
+    console.error(`${this.adapter.label} API failed after all attempts:`, errorMsg);
     throw new Error(errorMsg);
   }
 
 
+  /**
+   * Yield streamed tokens from a response, followed by its token usage.
+   * Counts the provider doesn't report are estimated from `request`.
+   * @param signal - The signal passed to sendMessage; once aborted the
+   *   stream ends quietly so callers keep whatever arrived so far
+   */
   async *streamResponse(
     response: Response,
-    request?: ChatRequest
-  ): AsyncGenerator<string | StreamStart | StreamContent, void, unknown> {
+    request?: Partial<Pick<ChatRequest, 'isCodeRequest' | 'model' | 'messages'>>,
+    signal?: AbortSignal
+  ): AsyncGenerator<string | StreamStart | StreamContent | StreamToolCalls | StreamUsage, void, unknown> {
     // Yield a signal before starting the stream
     const startSignal: StreamStart = {
       type: 'stream_start',
@@ -207,10 +306,23 @@ export class ChatService {
 
     const decoder = new TextDecoder();
     let buffer = '';
+    let text = '';
+    let reported: ReportedUsage = {};
+    let finished = false;
+    // Tool calls arrive in fragments, keyed by their index in the reply
+    const calls = new Map<number, ToolCall>();
 
     try {
-      while (true) {
-        const { done, value } = await reader.read();
+      while (!signal?.aborted && !finished) {
+        let chunk: ReadableStreamReadResult<Uint8Array>;
+        try {
+          chunk = await reader.read();
+        } catch (error) {
+          // Aborting the fetch rejects the pending read
+          if (signal?.aborted) break;
+          throw error;
+        }
+        const { done, value } = chunk;
         if (done) break;
 
         buffer += decoder.decode(value, { stream: true });
@@ -219,17 +331,25 @@ export class ChatService {
 
         for (const line of lines) {
           if (line.trim() === '') continue;
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            if (data === '[DONE]') return;
-            
+          if (line.startsWith('data:')) {
+            const data = line.slice(5).trim();
+
             try {
-              const parsed = JSON.parse(data);
-              const content = parsed.choices?.[0]?.delta?.content;
+              const { content, done, usage, toolCalls } = this.adapter.parseStreamData(data);
+              if (usage) reported = { ...reported, ...usage };
+              for (const part of toolCalls || []) {
+                const call = calls.get(part.index) || { id: '', type: 'function', function: { name: '', arguments: '' } };
+                if (part.id) call.id = part.id;
+                if (part.name) call.function.name += part.name;
+                if (part.arguments) call.function.arguments += part.arguments;
+                calls.set(part.index, call);
+              }
+              if (done) {
+                finished = true;
+                break;
+              }
               if (content) {
-                // If this was a code request, we'll need to send the result to Vivica for summary
-                // TODO: route the final code output back through the persona model
-                // for a plain-English explanation before displaying to the user.
+                text += content;
                 yield {
                   content,
                   isCodeRequest: request?.isCodeRequest
@@ -242,7 +362,177 @@ export class ChatService {
         }
       }
     } finally {
+      if (signal?.aborted) {
+        await reader.cancel().catch(() => undefined);
+      }
       reader.releaseLock();
     }
+
+    if (calls.size && !signal?.aborted) {
+      yield {
+        type: 'tool_calls',
+        calls: [...calls.entries()]
+          .sort(([a], [b]) => a - b)
+          .map(([index, call]) => ({ ...call, id: call.id || `call-${index}` })),
+      };
+    }
+
+    const key = this.responseKeys.get(response);
+    yield {
+      type: 'usage',
+      usage: estimateMissingUsage({
+        ...reported,
+        model: request?.model || '',
+        ...(key && { key: shortKey(key) }),
+      }, request?.messages || [], text + [...calls.values()].map(c => c.function.arguments).join('')),
+    };
+  }
+
+  /**
+   * Stream a reply, handing coding questions through two models: the
+   * profile's `codeModel` writes the code, then the persona model streams a
+   * plain-English explanation of it. Other requests stream straight from
+   * `request.model`. Both stages share the abort signal.
+   * @param tools - Offered to the model on direct replies; each round of
+   *   tool calls is run and fed back until the model answers in text
+   */
+  async *streamWithHandoff(
+    request: ChatRequest,
+    signal?: AbortSignal,
+    tools?: ToolRunner
+  ): AsyncGenerator<StreamStart | StreamStage | StreamContent | StreamToolStart | StreamToolResult | StreamUsage, void, unknown> {
+    const isCode = request.isCodeRequest ?? this.isCodeRequest(request.messages);
+    const codeModel = request.profile?.codeModel;
+    const handoff = isCode && !!codeModel && codeModel !== request.model;
+
+    if (!handoff) {
+      let messages = request.messages;
+      for (let round = 0; ; round++) {
+        // The last round offers no tools, so the model has to answer in text
+        const offerTools = !!tools?.tools.length && round < MAX_TOOL_ROUNDS - 1;
+        const roundRequest: ChatRequest = { ...request, messages, ...(offerTools && tools ? { tools: tools.tools } : {}) };
+        const response = await this.sendMessage(roundRequest, signal);
+        let text = '';
+        let calls: ToolCall[] = [];
+        for await (const chunk of this.streamResponse(response, { ...roundRequest, isCodeRequest: isCode }, signal)) {
+          if (typeof chunk === 'string') continue;
+          if ('type' in chunk && chunk.type === 'tool_calls') {
+            calls = chunk.calls;
+            continue;
+          }
+          if (!('type' in chunk)) text += chunk.content;
+          yield chunk;
+        }
+        if (!tools || !offerTools || !calls.length || signal?.aborted) return;
+
+        messages = [...messages, { role: 'assistant', content: text, tool_calls: calls }];
+        for (const call of calls) {
+          yield { type: 'tool_start', call };
+          let result: string;
+          let failed = false;
+          try {
+            result = await tools.run(call, signal);
+          } catch (error) {
+            if (signal?.aborted) return;
+            // The model sees the failure and can answer without the tool
+            result = `Error: ${error instanceof Error ? error.message : 'tool failed'}`;
+            failed = true;
+          }
+          yield { type: 'tool_result', call, result, failed };
+          messages = [...messages, { role: 'tool', tool_call_id: call.id, content: result }];
+        }
+      }
+    }
+
+    yield { type: 'stream_start', data: { isCodeRequest: true, codeModel } };
+
+    // Stage 1: the code model answers the question as asked
+    yield { type: 'stage_start', stage: 'code', model: codeModel };
+    let code = '';
+    const codeRequest = { ...request, model: codeModel };
+    const codeResponse = await this.sendMessage(codeRequest, signal);
+    for await (const chunk of this.streamResponse(codeResponse, { ...codeRequest, isCodeRequest: true }, signal)) {
+      if (typeof chunk === 'string') continue;
+      if ('type' in chunk) {
+        if (chunk.type === 'usage') yield { ...chunk, stage: 'code' };
+        continue;
+      }
+      code += chunk.content;
+      yield { ...chunk, stage: 'code' };
+    }
+    if (signal?.aborted || !code.trim()) return;
+
+    // Stage 2: the persona explains the code in its own voice
+    yield { type: 'stage_start', stage: 'explanation', model: request.model };
+    try {
+      const explainRequest: ChatRequest = {
+        ...request,
+        messages: [...request.messages, { role: 'user', content: HANDOFF_PROMPT(code) }],
+      };
+      const explainResponse = await this.sendMessage(explainRequest, signal);
+      for await (const chunk of this.streamResponse(explainResponse, { ...explainRequest, isCodeRequest: true }, signal)) {
+        if (typeof chunk === 'string') continue;
+        if ('type' in chunk) {
+          if (chunk.type === 'usage') yield { ...chunk, stage: 'explanation' };
+          continue;
+        }
+        yield { ...chunk, stage: 'explanation' };
+      }
+    } catch (error) {
+      // The code already arrived; a failed explanation shouldn't discard it
+      if (signal?.aborted) throw error;
+      console.warn('Persona explanation failed after code hand-off:', error);
+    }
+  }
+
+  /** Whether the provider exposes an embeddings endpoint */
+  supportsEmbeddings(): boolean {
+    return !!(this.adapter.buildEmbeddingsRequest && this.adapter.parseEmbeddings);
+  }
+
+  /**
+   * Embed a batch of texts through the provider's `/embeddings` endpoint,
+   * trying keys in the same order as chat requests.
+   */
+  async embed(model: string, input: string[]): Promise<number[][]> {
+    if (!this.adapter.buildEmbeddingsRequest || !this.adapter.parseEmbeddings) {
+      throw new Error(`${this.adapter.label} has no embeddings endpoint`);
+    }
+
+    const keys = this.getKeys();
+    if (keys.length === 0) {
+      throw new Error('No valid API keys configured. Please check your settings.');
+    }
+
+    let lastError: Error | null = null;
+    for (const key of keys) {
+      try {
+        const { url, init } = this.adapter.buildEmbeddingsRequest(this.baseUrl, model, input, key);
+        const response = await fetch(url, init);
+        if (!response.ok) {
+          throw new ChatRequestError(
+            response.status,
+            await response.text(),
+            parseRetryAfter(response.headers.get('retry-after'))
+          );
+        }
+        const vectors = this.adapter.parseEmbeddings(await response.json());
+        if (key) recordKeySuccess(key);
+        return vectors;
+      } catch (error) {
+        lastError = error as Error;
+        if (key) {
+          const rateLimited = error instanceof ChatRequestError && error.status === 429;
+          recordKeyFailure(key, lastError.message, rateLimited ? { retryAfterMs: error.retryAfterMs } : undefined);
+        }
+      }
+    }
+    throw lastError;
+  }
+
+  /** Read the assistant text from a non-streaming response */
+  async readMessage(response: Response): Promise<string | undefined> {
+    const data = await response.json();
+    return this.adapter.parseMessage(data)?.trim();
   }
 }
@@ -0,0 +1,227 @@
+import { fetchRSSHeadlines } from "./rssService";
+import { fetchCurrentWeather, geocodePlace, getUserLocation } from "./weatherService";
+import { saveMemory, getMemories, forgetMemory } from "@/utils/memoryUtils";
+import {
+  parseReminder,
+  addReminder,
+  getUpcomingReminders,
+  cancelReminder,
+  formatDue,
+  ReminderError
+} from "./reminderService";
+
+// Slash commands typed into the chat box. Each command parses its own
+// argument string; anything app-level (sending, switching profiles) goes
+// through the CommandContext the chat page provides.
+
+export interface CommandContext {
+  /** Send text through the normal chat flow */
+  send(content: string): void;
+  /** Add the typed command and a local answer to the chat, without calling the model */
+  reply(input: string, content: string): void;
+  /** Switch to the profile with this name; false when none matches */
+  switchProfile(name: string): boolean;
+  /** Point the current profile at another model; returns the model id used */
+  setModel(model: string): string;
+  /** Open today's briefing in a new chat */
+  briefing(): void;
+  /**
+   * Bring the chat's rolling summary up to date and show it
+   * @param input - The command as typed, posted along with the summary
+   */
+  summarize(input: string): Promise<void>;
+  profileId?: string;
+}
+
+export interface SlashCommand {
+  name: string;
+  /** Argument placeholder for help text, e.g. "<query>" or "[place]" */
+  usage?: string;
+  description: string;
+  /** Reject the command when no argument is given */
+  requiresArgs?: boolean;
+  /**
+   * @param args - Everything after the command name, trimmed
+   * @param input - The full text as typed
+   * @returns A confirmation to show, if any
+   */
+  run(args: string, ctx: CommandContext, input: string): Promise<string | void>;
+}
+
+/** Typed command failed validation or could not run */
+export class CommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommandError';
+  }
+}
+
+export const COMMANDS: SlashCommand[] = [
+  {
+    name: 'search',
+    usage: '<query>',
+    description: 'Search the web with Brave and have the reply comment on the results',
+    requiresArgs: true,
+    async run(_args, ctx, input) {
+      ctx.send(input);
+    },
+  },
+  {
+    name: 'summarize',
+    description: "Update and show this conversation's rolling summary",
+    async run(_args, ctx, input) {
+      await ctx.summarize(input);
+    },
+  },
+  {
+    name: 'remember',
+    usage: '<fact>',
+    description: 'Save a memory that every profile can see',
+    requiresArgs: true,
+    async run(args) {
+      await saveMemory(args, 'global');
+      return 'Memory saved';
+    },
+  },
+  {
+    name: 'forget',
+    usage: '<text>',
+    description: 'Delete the memory containing the text; undo it from the memory history',
+    requiresArgs: true,
+    async run(args, ctx, input) {
+      const needle = args.toLowerCase();
+      const matches = (await getMemories(ctx.profileId)).filter(m => m.content.toLowerCase().includes(needle));
+      if (!matches.length) throw new CommandError(`No memory mentions "${args}"`);
+      // Several matches are listed rather than deleted, unless one is word for word
+      const target = matches.length === 1
+        ? matches[0]
+        : matches.find(m => m.content.trim().toLowerCase() === needle);
+      if (!target) {
+        ctx.reply(input, `${matches.length} memories mention "${args}". Repeat \`/forget\` with more of the one to delete:\n`
+          + matches.map(m => `- ${m.content}`).join('\n'));
+        return;
+      }
+      await forgetMemory(target);
+      return `Forgot "${target.content}"`;
+    },
+  },
+  {
+    name: 'remind',
+    usage: '<when> <what>',
+    description: 'Set a reminder, e.g. "/remind Friday about the dentist"',
+    requiresArgs: true,
+    async run(args, ctx) {
+      try {
+        const { dueAt, text } = parseReminder(args);
+        await addReminder(text, dueAt, ctx.profileId);
+        return `Reminder set for ${formatDue(dueAt)}`;
+      } catch (error) {
+        throw error instanceof ReminderError ? new CommandError(error.message) : error;
+      }
+    },
+  },
+  {
+    name: 'reminders',
+    usage: '[cancel <text>]',
+    description: 'List upcoming reminders, or cancel the ones containing the text',
+    async run(args, ctx, input) {
+      const upcoming = await getUpcomingReminders();
+      const cancel = args.match(/^cancel\s+(.+)/i);
+      if (cancel) {
+        const needle = cancel[1].toLowerCase();
+        const matches = upcoming.filter(r => r.text.toLowerCase().includes(needle));
+        if (!matches.length) throw new CommandError(`No upcoming reminder mentions "${cancel[1]}"`);
+        await Promise.all(matches.map(r => cancelReminder(r.id)));
+        return `Cancelled ${matches.length} ${matches.length === 1 ? 'reminder' : 'reminders'}`;
+      }
+      ctx.reply(input, upcoming.length
+        ? upcoming.map(r => `- **${formatDue(r.dueAt)}** · ${r.text}`).join('\n')
+        : 'No upcoming reminders');
+    },
+  },
+  {
+    name: 'briefing',
+    description: "Today's weather, headlines and reminders, from the current profile",
+    async run(_args, ctx) {
+      ctx.briefing();
+    },
+  },
+  {
+    name: 'profile',
+    usage: '<name>',
+    description: 'Switch to another profile',
+    requiresArgs: true,
+    async run(args, ctx) {
+      if (!ctx.switchProfile(args)) throw new CommandError(`No profile called "${args}"`);
+    },
+  },
+  {
+    name: 'model',
+    usage: '<id>',
+    description: "Change the current profile's model",
+    requiresArgs: true,
+    async run(args, ctx) {
+      return `Model set to ${ctx.setModel(args)}`;
+    },
+  },
+  {
+    name: 'news',
+    description: 'Show the latest headlines from your RSS feeds',
+    async run(_args, ctx, input) {
+      const headlines = await fetchRSSHeadlines();
+      if (!headlines.length) throw new CommandError('No headlines could be loaded');
+      ctx.reply(input, headlines.map(h => `- [${h.title}](${h.link})${h.source ? ` · ${h.source}` : ''}`).join('\n'));
+    },
+  },
+  {
+    name: 'weather',
+    usage: '[place]',
+    description: 'Show the current weather here or in a named place',
+    async run(args, ctx, input) {
+      const place = args ? await geocodePlace(args) : await getUserLocation();
+      if (!place) throw new CommandError(`No place called "${args}" was found`);
+      const weather = await fetchCurrentWeather(place.lat, place.lon);
+      ctx.reply(input, place.name ? `**${place.name}:** ${weather}` : weather);
+    },
+  },
+  {
+    name: 'help',
+    description: 'List the available commands',
+    async run(_args, ctx, input) {
+      ctx.reply(input, COMMANDS.map(c => `- \`${formatUsage(c)}\` — ${c.description}`).join('\n'));
+    },
+  },
+];
+
+/** Command with its argument placeholder, e.g. "/search <query>" */
+export function formatUsage(command: SlashCommand): string {
+  return command.usage ? `/${command.name} ${command.usage}` : `/${command.name}`;
+}
+
+/** Commands whose name starts with `prefix` (typed without the slash) */
+export function matchCommands(prefix: string): SlashCommand[] {
+  const p = prefix.toLowerCase();
+  return COMMANDS.filter(c => c.name.startsWith(p));
+}
+
+/**
+ * Split typed text into a known command and its argument string. Text that
+ * merely starts with a slash, like "/r/programming", is not a command.
+ */
+export function parseCommand(input: string): { command: SlashCommand; args: string } | null {
+  const match = input.trim().match(/^\/(\w+)(?:\s+([\s\S]*))?$/);
+  if (!match) return null;
+  const command = COMMANDS.find(c => c.name === match[1].toLowerCase());
+  return command ? { command, args: (match[2] || '').trim() } : null;
+}
+
+/** Validate and run a parsed command */
+export async function runCommand(input: string, ctx: CommandContext): Promise<string | void> {
+  const parsed = parseCommand(input);
+  if (!parsed) throw new CommandError(`Unknown command: ${input.trim().split(/\s/)[0]}`);
+  const { command, args } = parsed;
+  if (command.requiresArgs && !args) {
+    throw new CommandError(`Usage: ${formatUsage(command)}`);
+  }
+  return command.run(args, ctx, input.trim());
+}
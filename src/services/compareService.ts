@@ -0,0 +1,122 @@
+import { ChatService, ChatMessage } from "./chatService";
+import { estimateTokens } from "@/utils/tokenUtils";
+import type { MessageUsage } from "@/utils/usageUtils";
+
+// Model comparison: one prompt sent to several OpenRouter models at once,
+// each streamed independently so a slow or failing model never holds up
+// the others.
+
+export const MIN_COMPARE_MODELS = 2;
+export const MAX_COMPARE_MODELS = 4;
+
+export type CompareStatus = 'waiting' | 'streaming' | 'done' | 'stopped' | 'error';
+
+export interface CompareResult {
+  model: string;
+  content: string;
+  status: CompareStatus;
+  /** Milliseconds from sending until the first token arrived */
+  firstTokenMs?: number;
+  /** Milliseconds from sending until the stream ended */
+  totalMs?: number;
+  /** Tokens in the answer so far; estimated until the provider reports usage */
+  tokens: number;
+  /** Usage of the finished request, carried over when the answer is promoted */
+  usage?: MessageUsage;
+  error?: string;
+}
+
+export interface CompareOptions {
+  apiKey: string;
+  temperature: number;
+  maxTokens: number;
+  /**
+   * Called as each model's request finishes, so spend on every answer is
+   * recorded whether or not it gets promoted
+   */
+  onUsage?: (usage: MessageUsage) => void;
+}
+
+export function emptyCompareResult(model: string): CompareResult {
+  return { model, content: '', status: 'waiting', tokens: 0 };
+}
+
+/** Output speed in tokens per second, measured after the first token */
+export function tokensPerSecond(result: CompareResult): number | undefined {
+  if (result.firstTokenMs === undefined || result.totalMs === undefined) return undefined;
+  const seconds = (result.totalMs - result.firstTokenMs) / 1000;
+  return seconds > 0 ? result.tokens / seconds : undefined;
+}
+
+async function streamModel(
+  model: string,
+  messages: ChatMessage[],
+  options: CompareOptions,
+  onUpdate: (result: CompareResult) => void,
+  signal: AbortSignal
+) {
+  const started = performance.now();
+  let result = emptyCompareResult(model);
+  const update = (patch: Partial<CompareResult>) => {
+    result = { ...result, ...patch };
+    onUpdate(result);
+  };
+
+  try {
+    const chatService = new ChatService(options.apiKey);
+    const request = {
+      model,
+      messages,
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      stream: true,
+    };
+    const response = await chatService.sendMessage(request, signal);
+    for await (const chunk of chatService.streamResponse(response, request, signal)) {
+      if (typeof chunk === 'string') continue;
+      if ('type' in chunk) {
+        if (chunk.type === 'usage') {
+          update({ usage: chunk.usage, tokens: chunk.usage.completionTokens });
+          options.onUsage?.(chunk.usage);
+        }
+        continue;
+      }
+      const content = result.content + chunk.content;
+      update({
+        content,
+        status: 'streaming',
+        tokens: estimateTokens(content),
+        firstTokenMs: result.firstTokenMs ?? performance.now() - started,
+      });
+    }
+    update({ status: signal.aborted ? 'stopped' : 'done', totalMs: performance.now() - started });
+  } catch (error) {
+    if (signal.aborted) {
+      update({ status: 'stopped', totalMs: performance.now() - started });
+      return;
+    }
+    console.warn(`Comparison with ${model} failed`, error);
+    update({
+      status: 'error',
+      totalMs: performance.now() - started,
+      error: error instanceof Error ? error.message : 'Request failed',
+    });
+  }
+}
+
+/**
+ * Stream the same messages from every model in parallel. `onUpdate` fires
+ * with the model's index each time its result changes. Resolves once all
+ * models have finished, failed or been stopped through `signal`.
+ */
+export async function runComparison(
+  models: string[],
+  messages: ChatMessage[],
+  options: CompareOptions,
+  onUpdate: (index: number, result: CompareResult) => void,
+  signal: AbortSignal
+): Promise<void> {
+  await Promise.all(models.map((model, i) =>
+    streamModel(model, messages, options, result => onUpdate(i, result), signal)
+  ));
+}
@@ -0,0 +1,227 @@
+import { ChatService } from "./chatService";
+import type { ProviderSettings } from "./providers";
+import {
+  embedTexts,
+  cosineSimilarity,
+  getEmbeddingSettings,
+  LOCAL_EMBEDDING_MODEL
+} from "./embeddingService";
+import {
+  saveDocumentToDb,
+  getAllDocumentsFromDb,
+  getDocumentChunksFromDb,
+  saveDocumentChunks,
+  deleteDocumentFromDb,
+  type DocumentRecord,
+  type DocumentChunk
+} from "@/utils/indexedDb";
+import { extractPdfText } from "@/utils/pdfText";
+import { estimateTokens } from "@/utils/tokenUtils";
+
+// Local knowledge base. Uploaded documents are split into overlapping
+// chunks, embedded with the same model as memories and searched on every
+// turn. The best chunks go into the system prompt numbered [1], [2]…, and
+// replies cite them by number; the numbered chunks are kept on the reply so
+// its footnotes still open after the document is deleted.
+
+export const DOCUMENT_FILE_TYPES = '.md,.markdown,.txt,.pdf,.html,.htm';
+
+const CHUNK_CHARS = 1200;
+/** Text repeated from the end of one chunk at the start of the next */
+const CHUNK_OVERLAP = 200;
+const MAX_SOURCES = 4;
+const SOURCE_TOKEN_BUDGET = 1500;
+/** Chunks scoring below this are left out even when nothing better exists */
+const MIN_SCORE = 0.15;
+
+/** Document chunk handed to the model, numbered as it may cite it */
+export interface Citation {
+  n: number;
+  documentId: string;
+  documentName: string;
+  chunkId: string;
+  text: string;
+}
+
+function extractHtmlText(html: string): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll('script, style, noscript').forEach(el => el.remove());
+  // Block elements become paragraph breaks so chunking has something to split on
+  doc.querySelectorAll('p, div, li, h1, h2, h3, h4, h5, h6, br, tr').forEach(el => el.append('\n\n'));
+  return doc.body.textContent || '';
+}
+
+async function extractDocumentText(file: File): Promise<string> {
+  if (file.type === 'application/pdf' || /\.pdf$/i.test(file.name)) {
+    return extractPdfText(await file.arrayBuffer());
+  }
+  if (file.type === 'text/html' || /\.html?$/i.test(file.name)) {
+    return extractHtmlText(await file.text());
+  }
+  return file.text();
+}
+
+/** Last `CHUNK_OVERLAP` characters of a chunk, starting on a word */
+function overlapOf(chunk: string): string {
+  const tail = chunk.slice(-CHUNK_OVERLAP);
+  const space = tail.indexOf(' ');
+  return space >= 0 && chunk.length > CHUNK_OVERLAP ? tail.slice(space + 1) : tail;
+}
+
+/** Split text into chunks of about `CHUNK_CHARS`, breaking between paragraphs where possible */
+export function chunkText(text: string): string[] {
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map(p => p.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    // Paragraphs longer than a chunk are cut at sentence ends, or hard if they have none
+    .flatMap(p => p.length <= CHUNK_CHARS ? [p] : p.match(new RegExp(`.{1,${CHUNK_CHARS}}(?:[.!?](?:\\s|$)|$)|.{${CHUNK_CHARS}}`, 'g')) || [p]);
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const paragraph of paragraphs) {
+    if (current && current.length + paragraph.length + 2 > CHUNK_CHARS) {
+      chunks.push(current);
+      current = overlapOf(current);
+    }
+    current = current ? `${current}\n\n${paragraph.trim()}` : paragraph.trim();
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Read, chunk and store an uploaded document.
+ * @throws When no text can be read from the file
+ */
+export async function addDocument(
+  file: File,
+  scope: 'global' | 'profile',
+  profileId?: string
+): Promise<DocumentRecord> {
+  const chunks = chunkText(await extractDocumentText(file));
+  if (!chunks.length) throw new Error(`No text could be read from ${file.name}`);
+
+  const id = `doc-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const doc: DocumentRecord = {
+    id,
+    name: file.name,
+    type: file.type,
+    size: file.size,
+    scope,
+    ...(scope === 'profile' && profileId ? { profileId } : {}),
+    chunkCount: chunks.length,
+    createdAt: new Date().toISOString(),
+  };
+  await saveDocumentToDb(doc, chunks.map((text, index) => ({ id: `${id}:${index}`, documentId: id, index, text })));
+  return doc;
+}
+
+export async function getDocuments(): Promise<DocumentRecord[]> {
+  const docs = await getAllDocumentsFromDb();
+  return docs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function deleteDocument(id: string): Promise<void> {
+  await deleteDocumentFromDb(id);
+}
+
+/** Embed chunks that have no vector for `model` yet, then score them all */
+async function rankChunks(
+  chunks: DocumentChunk[],
+  query: string,
+  model: string,
+  chatService?: ChatService
+): Promise<{ chunk: DocumentChunk; score: number }[]> {
+  const stale = chunks.filter(c => c.model !== model || !c.vector);
+  if (stale.length) {
+    const vectors = await embedTexts(stale.map(c => c.text), model, chatService);
+    stale.forEach((c, i) => {
+      c.model = model;
+      c.vector = vectors[i];
+    });
+    await saveDocumentChunks(stale);
+  }
+  const [queryVector] = await embedTexts([query], model, chatService);
+  return chunks
+    .map(chunk => ({ chunk, score: cosineSimilarity(queryVector, chunk.vector || []) }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Chunks from global and profile documents most relevant to `query`,
+ * numbered for citation. Uses the memory embedding settings, falling back
+ * to the local model when provider embeddings fail.
+ * @param query - Latest user message
+ * @param profileId - Current profile, for profile-scoped documents
+ * @param apiKey - API key for provider embeddings
+ * @param provider - Provider fields of the current profile
+ */
+export async function getRelevantSources(
+  query: string,
+  profileId?: string,
+  apiKey = '',
+  provider?: ProviderSettings
+): Promise<Citation[]> {
+  if (!query.trim()) return [];
+  const docs = (await getAllDocumentsFromDb())
+    .filter(d => d.scope === 'global' || d.profileId === profileId);
+  if (!docs.length) return [];
+  const chunks = await getDocumentChunksFromDb(docs.map(d => d.id));
+
+  const settings = getEmbeddingSettings();
+  let ranked: { chunk: DocumentChunk; score: number }[];
+  if (settings.memoryEmbeddings === 'provider') {
+    try {
+      ranked = await rankChunks(chunks, query, settings.embeddingModel, new ChatService(apiKey, provider));
+    } catch (error) {
+      console.warn('Provider embeddings failed, using local embeddings', error);
+      ranked = await rankChunks(chunks, query, LOCAL_EMBEDDING_MODEL);
+    }
+  } else {
+    ranked = await rankChunks(chunks, query, LOCAL_EMBEDDING_MODEL);
+  }
+
+  const names = new Map(docs.map(d => [d.id, d.name]));
+  const sources: Citation[] = [];
+  let tokens = 0;
+  for (const { chunk, score } of ranked) {
+    if (score < MIN_SCORE || sources.length >= MAX_SOURCES) break;
+    const cost = estimateTokens(chunk.text);
+    if (tokens + cost > SOURCE_TOKEN_BUDGET) continue;
+    tokens += cost;
+    sources.push({
+      n: sources.length + 1,
+      documentId: chunk.documentId,
+      documentName: names.get(chunk.documentId) || 'Document',
+      chunkId: chunk.id,
+      text: chunk.text,
+    });
+  }
+  return sources;
+}
+
+/** System prompt section listing the numbered sources */
+export function formatSourcesPrompt(sources: Citation[]): string {
+  if (!sources.length) return '';
+  const list = sources.map(s => `[${s.n}] From "${s.documentName}":\n${s.text}`).join('\n\n');
+  return `Reference Documents (when you use one, cite it inline by its number, like [1]):\n${list}`;
+}
+
+/**
+ * Turn `[n]` markers into `#cite-n` links the chat renders as footnotes.
+ * Code blocks and markdown links like `[1](url)` are left alone.
+ */
+export function linkCitations(content: string, citations: Citation[]): string {
+  const numbers = new Set(citations.map(c => c.n));
+  return content
+    .split(/(```[\s\S]*?```|`[^`\n]*`)/)
+    .map((part, i) => i % 2 ? part : part.replace(/\[(\d+)\](?![([])/g, (marker, n) =>
+      numbers.has(Number(n)) ? `[[${n}]](#cite-${n})` : marker))
+    .join('');
+}
+
+/** Citations whose number appears in the reply, in order */
+export function citedSources(content: string, citations: Citation[]): Citation[] {
+  return citations.filter(c => content.includes(`[${c.n}]`));
+}
@@ -0,0 +1,94 @@
+import { ChatService } from "./chatService";
+import { hashString, tokenize } from "@/utils/textUtils";
+
+// Text embeddings for memory retrieval. Vectors come either from the active
+// provider's embeddings endpoint or from a small local model: hashed word
+// and bigram counts projected into a fixed number of dimensions. The local
+// model needs no network and catches keyword overlap, which is most of what
+// short memory facts need.
+
+export const LOCAL_EMBEDDING_MODEL = 'local-hash-256';
+const LOCAL_DIMENSIONS = 256;
+
+export type EmbeddingSource = 'local' | 'provider';
+
+export interface EmbeddingSettings {
+  memoryEmbeddings: EmbeddingSource;
+  embeddingModel: string;
+  /** Max memories injected per turn */
+  memoryTopK: number;
+  /** Max estimated tokens of memories injected per turn */
+  memoryTokenBudget: number;
+}
+
+export const DEFAULT_EMBEDDING_SETTINGS: EmbeddingSettings = {
+  memoryEmbeddings: 'local',
+  embeddingModel: 'openai/text-embedding-3-small',
+  memoryTopK: 8,
+  memoryTokenBudget: 800,
+};
+
+export function getEmbeddingSettings(): EmbeddingSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem('vivica-settings') || '{}');
+    return {
+      memoryEmbeddings: saved.memoryEmbeddings || DEFAULT_EMBEDDING_SETTINGS.memoryEmbeddings,
+      embeddingModel: saved.embeddingModel || DEFAULT_EMBEDDING_SETTINGS.embeddingModel,
+      memoryTopK: Number(saved.memoryTopK) || DEFAULT_EMBEDDING_SETTINGS.memoryTopK,
+      memoryTokenBudget: Number(saved.memoryTokenBudget) || DEFAULT_EMBEDDING_SETTINGS.memoryTokenBudget,
+    };
+  } catch {
+    return DEFAULT_EMBEDDING_SETTINGS;
+  }
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm ? vector.map(v => v / norm) : vector;
+}
+
+export function embedLocally(text: string): number[] {
+  const vector = new Array(LOCAL_DIMENSIONS).fill(0);
+  const tokens = tokenize(text);
+  const features = [
+    ...tokens,
+    ...tokens.slice(1).map((t, i) => `${tokens[i]} ${t}`),
+  ];
+  for (const feature of features) {
+    const h = hashString(feature);
+    // The sign bit keeps unrelated collisions from always adding up
+    vector[h % LOCAL_DIMENSIONS] += (h & 0x80000000) ? -1 : 1;
+  }
+  // Dampen repeated words so one long memory doesn't dominate
+  return normalize(vector.map(v => Math.sign(v) * Math.log1p(Math.abs(v))));
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0, na = 0, nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+}
+
+/**
+ * Embed texts with a specific model. `LOCAL_EMBEDDING_MODEL` runs in the
+ * browser; any other id is sent to the provider behind `chatService`.
+ */
+export async function embedTexts(
+  texts: string[],
+  model: string,
+  chatService?: ChatService
+): Promise<number[][]> {
+  if (texts.length === 0) return [];
+  if (model === LOCAL_EMBEDDING_MODEL) {
+    return texts.map(embedLocally);
+  }
+  if (!chatService?.supportsEmbeddings()) {
+    throw new Error('Provider embeddings are not available');
+  }
+  return chatService.embed(model, texts);
+}
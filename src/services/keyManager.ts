@@ -0,0 +1,225 @@
+import { secureStorage } from "@/utils/vault";
+
+// OpenRouter key manager. Holds any number of labelled keys, tracks per-key
+// health in `vivica-key-telemetry` and decides the order ChatService tries
+// them in. Keys that hit a rate limit sit out a cooldown before being used
+// again.
+
+export type KeyStrategy = 'priority' | 'round-robin' | 'least-failures';
+
+export interface ApiKeyEntry {
+  id: string;
+  label: string;
+  key: string;
+}
+
+export interface KeyHealth {
+  success: number;
+  failures: number;
+  /** Epoch ms until which the key is skipped after a 429 */
+  cooldownUntil?: number;
+  lastError?: string;
+  lastUsedAt?: number;
+}
+
+interface KeyTelemetry {
+  keyUsage: Record<string, KeyHealth>;
+  lastUsedKey: string;
+}
+
+const KEYS_STORAGE = 'vivica-api-keys';
+const TELEMETRY_STORAGE = 'vivica-key-telemetry';
+const PRIMARY_KEY_STORAGE = 'openrouter-api-key';
+/** Cooldown applied when a 429 carries no Retry-After header */
+const DEFAULT_COOLDOWN_MS = 60_000;
+
+export const KEY_STRATEGIES: { value: KeyStrategy; label: string }[] = [
+  { value: 'priority', label: 'Priority (list order)' },
+  { value: 'round-robin', label: 'Round-robin' },
+  { value: 'least-failures', label: 'Least failures' },
+];
+
+/** Telemetry is keyed by the last four characters so full keys never hit it */
+export function shortKey(key: string): string {
+  return key.slice(-4);
+}
+
+export function maskKey(key: string): string {
+  return key.length > 8 ? `${key.slice(0, 6)}…${shortKey(key)}` : '••••';
+}
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const raw = secureStorage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Build the key list from the single primary key and the old fixed
+ * `apiKey1..3` settings fields. Runs once, when no list is stored yet.
+ */
+function migrateLegacyKeys(): ApiKeyEntry[] {
+  const settings = readJson<Record<string, unknown>>('vivica-settings', {});
+  const candidates = [
+    { label: 'Primary', key: secureStorage.getItem(PRIMARY_KEY_STORAGE) || '' },
+    { label: 'Backup 1', key: (settings.apiKey1 as string) || '' },
+    { label: 'Backup 2', key: (settings.apiKey2 as string) || '' },
+    { label: 'Backup 3', key: (settings.apiKey3 as string) || '' },
+  ];
+
+  const seen = new Set<string>();
+  const list: ApiKeyEntry[] = [];
+  candidates.forEach(({ label, key }, i) => {
+    const trimmed = key.trim();
+    if (!trimmed || seen.has(trimmed)) return;
+    seen.add(trimmed);
+    list.push({ id: `key-${Date.now()}-${i}`, label, key: trimmed });
+  });
+
+  delete settings.apiKey1;
+  delete settings.apiKey2;
+  delete settings.apiKey3;
+  localStorage.setItem('vivica-settings', JSON.stringify(settings));
+  saveApiKeys(list);
+  return list;
+}
+
+export function loadApiKeys(): ApiKeyEntry[] {
+  if (secureStorage.getItem(KEYS_STORAGE) === null) {
+    return migrateLegacyKeys();
+  }
+  return readJson<ApiKeyEntry[]>(KEYS_STORAGE, []);
+}
+
+/**
+ * Persist the key list. The first key is mirrored to `openrouter-api-key`
+ * so code that only needs "is there a key at all" keeps working.
+ */
+export function saveApiKeys(list: ApiKeyEntry[]) {
+  secureStorage.setItem(KEYS_STORAGE, JSON.stringify(list));
+  if (list.length > 0) {
+    secureStorage.setItem(PRIMARY_KEY_STORAGE, list[0].key);
+  } else {
+    secureStorage.removeItem(PRIMARY_KEY_STORAGE);
+  }
+  window.dispatchEvent(new Event('apiKeysUpdated'));
+}
+
+export function getKeyStrategy(): KeyStrategy {
+  const settings = readJson<{ keyStrategy?: KeyStrategy }>('vivica-settings', {});
+  return settings.keyStrategy || 'priority';
+}
+
+export function loadKeyTelemetry(): KeyTelemetry {
+  const saved = readJson<Partial<KeyTelemetry>>(TELEMETRY_STORAGE, {});
+  return { keyUsage: saved.keyUsage || {}, lastUsedKey: saved.lastUsedKey || '' };
+}
+
+function saveKeyTelemetry(telemetry: KeyTelemetry) {
+  localStorage.setItem(TELEMETRY_STORAGE, JSON.stringify(telemetry));
+  window.dispatchEvent(new Event('keyTelemetryUpdated'));
+}
+
+function updateHealth(key: string, update: (health: KeyHealth) => KeyHealth) {
+  const telemetry = loadKeyTelemetry();
+  const id = shortKey(key);
+  const current = telemetry.keyUsage[id] || { success: 0, failures: 0 };
+  telemetry.keyUsage[id] = update(current);
+  return telemetry;
+}
+
+export function getKeyHealth(key: string): KeyHealth {
+  return loadKeyTelemetry().keyUsage[shortKey(key)] || { success: 0, failures: 0 };
+}
+
+export function isCoolingDown(health: KeyHealth, now = Date.now()): boolean {
+  return !!health.cooldownUntil && health.cooldownUntil > now;
+}
+
+export function recordKeySuccess(key: string) {
+  const telemetry = updateHealth(key, h => ({
+    ...h,
+    success: h.success + 1,
+    cooldownUntil: undefined,
+    lastUsedAt: Date.now(),
+  }));
+  telemetry.lastUsedKey = shortKey(key);
+  saveKeyTelemetry(telemetry);
+}
+
+/**
+ * Count a failed attempt. Rate-limited keys are parked until the
+ * provider's Retry-After (or a default minute) has passed.
+ */
+export function recordKeyFailure(
+  key: string,
+  error: string,
+  rateLimit?: { retryAfterMs?: number }
+) {
+  const telemetry = updateHealth(key, h => ({
+    ...h,
+    failures: h.failures + 1,
+    lastError: error.slice(0, 200),
+    lastUsedAt: Date.now(),
+    cooldownUntil: rateLimit
+      ? Date.now() + (rateLimit.retryAfterMs ?? DEFAULT_COOLDOWN_MS)
+      : h.cooldownUntil,
+  }));
+  saveKeyTelemetry(telemetry);
+}
+
+export function clearKeyCooldown(key: string) {
+  saveKeyTelemetry(updateHealth(key, h => ({ ...h, cooldownUntil: undefined })));
+}
+
+export function resetKeyHealth(key: string) {
+  const telemetry = loadKeyTelemetry();
+  delete telemetry.keyUsage[shortKey(key)];
+  saveKeyTelemetry(telemetry);
+}
+
+/**
+ * Keys in the order ChatService should try them. Keys on cooldown go last,
+ * soonest-available first, so a request still has something to try when
+ * every key is parked.
+ * @param extraKey - Key passed to ChatService directly, tried if not managed
+ */
+export function getKeysForRequest(extraKey?: string): string[] {
+  const keys = loadApiKeys().map(k => k.key);
+  if (extraKey?.trim() && !keys.includes(extraKey.trim())) {
+    keys.unshift(extraKey.trim());
+  }
+  if (keys.length === 0) return [];
+
+  const { keyUsage, lastUsedKey } = loadKeyTelemetry();
+  const health = (key: string) => keyUsage[shortKey(key)] || { success: 0, failures: 0 };
+  const now = Date.now();
+
+  let ordered = [...keys];
+  switch (getKeyStrategy()) {
+    case 'round-robin': {
+      const last = ordered.findIndex(k => shortKey(k) === lastUsedKey);
+      const start = last === -1 ? 0 : (last + 1) % ordered.length;
+      ordered = [...ordered.slice(start), ...ordered.slice(0, start)];
+      break;
+    }
+    case 'least-failures':
+      ordered.sort((a, b) => {
+        const ha = health(a);
+        const hb = health(b);
+        return ha.failures - hb.failures || hb.success - ha.success;
+      });
+      break;
+    default:
+      break;
+  }
+
+  const ready = ordered.filter(k => !isCoolingDown(health(k), now));
+  const cooling = ordered
+    .filter(k => isCoolingDown(health(k), now))
+    .sort((a, b) => (health(a).cooldownUntil || 0) - (health(b).cooldownUntil || 0));
+  return [...ready, ...cooling];
+}
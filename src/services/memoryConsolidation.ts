@@ -0,0 +1,188 @@
+import { ChatService } from "./chatService";
+import { usesOpenRouter, type ProviderSettings } from "./providers";
+import { embedLocally, cosineSimilarity } from "./embeddingService";
+import { getExtractionSettings } from "./memoryExtraction";
+import { hashString } from "@/utils/textUtils";
+import {
+  getAllFacts,
+  replaceMemories,
+  memoryStrength,
+  type MemoryItem
+} from "@/utils/memoryUtils";
+
+// Periodic memory upkeep. Near-duplicate facts are merged into one and
+// long facts that have faded from use are condensed, both by the small
+// model picked for memory extraction. Each change is logged before it is
+// made, so the Memory modal can undo it. Off unless the user opts in.
+
+const LAST_RUN_KEY = 'vivica-memory-consolidated-at';
+/** Groups the model judged to be different facts, so they aren't asked about again */
+const DISTINCT_GROUPS_KEY = 'vivica-memory-distinct-groups';
+/** Distinct groups remembered; the oldest are forgotten first */
+const MAX_DISTINCT_GROUPS = 500;
+/** Minimum time between automatic runs */
+const CONSOLIDATION_INTERVAL_MS = 24 * 60 * 60 * 1000;
+/**
+ * Local-embedding similarity at which two facts become merge candidates.
+ * The local model is lexical, so this is loose and the model has the last
+ * word on whether they really repeat each other.
+ */
+const MERGE_THRESHOLD = 0.55;
+/** Strength below which a long fact is condensed */
+const STALE_STRENGTH = 0.2;
+/** Facts shorter than this are left alone however faded */
+const CONDENSE_MIN_CHARS = 280;
+/** Model calls per run, so a large backlog is worked off over several days */
+const MAX_CHANGES_PER_RUN = 10;
+
+let running = false;
+
+export interface ConsolidationResult {
+  merged: number;
+  condensed: number;
+}
+
+export function isConsolidationEnabled(): boolean {
+  try {
+    const saved = JSON.parse(localStorage.getItem('vivica-settings') || '{}');
+    return saved.memoryConsolidation === true;
+  } catch {
+    return false;
+  }
+}
+
+export function isConsolidationDue(now = Date.now()): boolean {
+  const last = Number(localStorage.getItem(LAST_RUN_KEY) || 0);
+  return isConsolidationEnabled() && now - last >= CONSOLIDATION_INTERVAL_MS;
+}
+
+const scopeKey = (m: MemoryItem) => `${m.scope}:${m.profileId || ''}`;
+
+/**
+ * Clusters of two or more facts that may repeat each other. Facts only cluster
+ * within the same scope, and pinned facts are never touched.
+ */
+export function groupNearDuplicates(memories: MemoryItem[]): MemoryItem[][] {
+  const candidates = memories
+    .filter(m => !m.pinned)
+    .map(m => ({ memory: m, vector: embedLocally(m.content) }));
+  const used = new Set<string>();
+  const groups: MemoryItem[][] = [];
+  for (const a of candidates) {
+    if (used.has(a.memory.id)) continue;
+    const group = [a.memory];
+    for (const b of candidates) {
+      if (b.memory.id === a.memory.id || used.has(b.memory.id)) continue;
+      if (scopeKey(a.memory) !== scopeKey(b.memory)) continue;
+      if (cosineSimilarity(a.vector, b.vector) >= MERGE_THRESHOLD) group.push(b.memory);
+    }
+    if (group.length > 1) {
+      group.forEach(m => used.add(m.id));
+      groups.push(group);
+    }
+  }
+  return groups;
+}
+
+/** Long, unpinned facts that have faded below `STALE_STRENGTH`, weakest first */
+export function findStaleMemories(memories: MemoryItem[], now = Date.now()): MemoryItem[] {
+  return memories
+    .filter(m => !m.pinned && m.content.length >= CONDENSE_MIN_CHARS && memoryStrength(m, now) < STALE_STRENGTH)
+    .sort((a, b) => memoryStrength(a, now) - memoryStrength(b, now));
+}
+
+/** Changes whenever a member of the group is added, removed or edited */
+const groupHash = (group: MemoryItem[]) =>
+  hashString(group.map(m => `${m.id}:${m.content}`).sort().join('\n')).toString(16);
+
+function loadDistinctGroups(): string[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(DISTINCT_GROUPS_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Merge reply for candidates that turn out to be different facts */
+const DISTINCT = 'DISTINCT';
+
+const MERGE_PROMPT = `The memories below about the user may say the same thing. If they do, merge them into one memory that keeps every distinct detail and drops the repetition, written in the third person ("The user ..."), and reply with the merged memory only.
+If they are about different things, reply with ${DISTINCT} only.`;
+
+const CONDENSE_PROMPT = `Condense the memory below about the user to the details worth keeping long term, in at most two sentences.
+Write it in the third person ("The user ..."). Reply with the condensed memory only.`;
+
+/** Model reply without wrapping quotes or code fences */
+function cleanReply(reply: string): string {
+  return reply
+    .replace(/^```\w*\n?|```$/g, '')
+    .trim()
+    .replace(/^"([\s\S]*)"$/, '$1')
+    .trim();
+}
+
+/**
+ * Merge near-duplicates and condense stale facts, at most
+ * `MAX_CHANGES_PER_RUN` model calls per run. Overlapping runs are skipped.
+ * @param profile - Profile whose provider carries the requests
+ */
+export async function consolidateMemories(
+  profile: ProviderSettings & { model: string },
+  apiKey: string
+): Promise<ConsolidationResult> {
+  const result: ConsolidationResult = { merged: 0, condensed: 0 };
+  if (running) return result;
+  running = true;
+  try {
+    const settings = getExtractionSettings();
+    const chatService = new ChatService(apiKey, profile);
+    const ask = async (instruction: string, text: string) => {
+      const response = await chatService.sendMessage({
+        model: usesOpenRouter(profile) ? settings.model : profile.model,
+        messages: [
+          { role: 'system', content: instruction },
+          { role: 'user', content: text },
+        ],
+        temperature: 0,
+        max_tokens: 300,
+      });
+      return cleanReply(await chatService.readMessage(response) || '');
+    };
+
+    let budget = MAX_CHANGES_PER_RUN;
+    const memories = await getAllFacts();
+    const merged = new Set<string>();
+    const distinct = loadDistinctGroups();
+    for (const group of groupNearDuplicates(memories)) {
+      const hash = groupHash(group);
+      if (distinct.includes(hash)) continue;
+      if (budget-- <= 0) break;
+      const content = await ask(MERGE_PROMPT, group.map(m => `- ${m.content}`).join('\n'));
+      if (content.toUpperCase().startsWith(DISTINCT)) {
+        distinct.push(hash);
+        localStorage.setItem(DISTINCT_GROUPS_KEY, JSON.stringify(distinct.slice(-MAX_DISTINCT_GROUPS)));
+        continue;
+      }
+      if (!content) continue;
+      await replaceMemories(group, content, 'merge');
+      group.forEach(m => merged.add(m.id));
+      result.merged++;
+    }
+
+    for (const memory of findStaleMemories(memories.filter(m => !merged.has(m.id)))) {
+      if (budget-- <= 0) break;
+      const content = await ask(CONDENSE_PROMPT, memory.content);
+      // A reply that isn't shorter would only lose the original wording
+      if (!content || content.length >= memory.content.length) continue;
+      await replaceMemories([memory], content, 'condense');
+      result.condensed++;
+    }
+
+    localStorage.setItem(LAST_RUN_KEY, String(Date.now()));
+    if (result.merged || result.condensed) window.dispatchEvent(new Event('memoryUpdated'));
+    return result;
+  } finally {
+    running = false;
+  }
+}
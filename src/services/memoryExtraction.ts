@@ -0,0 +1,182 @@
+import { ChatService, ChatMessage } from "./chatService";
+import { usesOpenRouter, type ProviderSettings } from "./providers";
+import { embedLocally, cosineSimilarity } from "./embeddingService";
+import { getMemories, saveMemory, type MemoryItem } from "@/utils/memoryUtils";
+import { secureStorage } from "@/utils/vault";
+
+// Background memory extraction. After a finished exchange a small model is
+// asked for durable facts about the user; facts that repeat a stored
+// memory or a pending suggestion are dropped, and the rest are saved
+// straight away or queued for approval in the Memory inbox, depending on
+// the `memoryExtraction` setting. Off unless the user opts in.
+
+export type ExtractionMode = 'off' | 'suggest' | 'auto';
+
+export interface ExtractionSettings {
+  mode: ExtractionMode;
+  /** OpenRouter model used for extraction; other providers use the profile's model */
+  model: string;
+}
+
+/** Fact waiting in the inbox */
+export interface MemorySuggestion {
+  id: string;
+  content: string;
+  scope: 'global' | 'profile';
+  profileId?: string;
+  /** Chat the fact came from */
+  conversationId?: string;
+  createdAt: string;
+}
+
+export const DEFAULT_EXTRACTION_MODEL = 'openai/gpt-4o-mini';
+/** Tag on memories saved by the extractor */
+export const EXTRACTED_TAG = 'extracted';
+
+const SUGGESTIONS_KEY = 'vivica-memory-suggestions';
+/** Oldest suggestions are dropped past this, so an ignored inbox can't grow forever */
+const MAX_SUGGESTIONS = 50;
+/** Local-embedding similarity at which a fact counts as already known */
+const DUPLICATE_THRESHOLD = 0.8;
+
+export function getExtractionSettings(): ExtractionSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem('vivica-settings') || '{}');
+    return {
+      mode: ['suggest', 'auto'].includes(saved.memoryExtraction) ? saved.memoryExtraction : 'off',
+      model: saved.extractionModel || DEFAULT_EXTRACTION_MODEL,
+    };
+  } catch {
+    return { mode: 'off', model: DEFAULT_EXTRACTION_MODEL };
+  }
+}
+
+export function loadSuggestions(): MemorySuggestion[] {
+  try {
+    return JSON.parse(secureStorage.getItem(SUGGESTIONS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+function saveSuggestions(list: MemorySuggestion[]) {
+  secureStorage.setItem(SUGGESTIONS_KEY, JSON.stringify(list.slice(-MAX_SUGGESTIONS)));
+  window.dispatchEvent(new Event('memorySuggestionsUpdated'));
+}
+
+/**
+ * Save a suggestion as a memory and remove it from the inbox.
+ * @param content - Edited text to save instead of the suggested wording
+ */
+export async function acceptSuggestion(id: string, content?: string): Promise<MemoryItem | undefined> {
+  const suggestion = loadSuggestions().find(s => s.id === id);
+  if (!suggestion) return undefined;
+  const memory = await saveMemory(
+    (content ?? suggestion.content).trim(),
+    suggestion.scope,
+    suggestion.profileId,
+    [EXTRACTED_TAG]
+  );
+  saveSuggestions(loadSuggestions().filter(s => s.id !== id));
+  return memory;
+}
+
+export function dismissSuggestion(id: string) {
+  saveSuggestions(loadSuggestions().filter(s => s.id !== id));
+}
+
+export function dismissAllSuggestions() {
+  saveSuggestions([]);
+}
+
+const normalizeFact = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/** Facts not already covered by `known`, or by an earlier fact in the same list */
+export function dropDuplicateFacts(facts: string[], known: string[]): string[] {
+  const seen = known.map(k => ({ text: normalizeFact(k), vector: embedLocally(k) }));
+  const fresh: string[] = [];
+  for (const fact of facts) {
+    const text = normalizeFact(fact);
+    const vector = embedLocally(fact);
+    const duplicate = seen.some(s =>
+      s.text === text || s.text.includes(text) || cosineSimilarity(s.vector, vector) >= DUPLICATE_THRESHOLD);
+    if (!text || duplicate) continue;
+    fresh.push(fact);
+    seen.push({ text, vector });
+  }
+  return fresh;
+}
+
+/** Pull a JSON string array out of a model reply that may wrap it in prose or fences */
+export function parseFacts(reply: string): string[] {
+  const match = reply.match(/\[[\s\S]*\]/);
+  if (!match) return [];
+  try {
+    const parsed = JSON.parse(match[0]);
+    return Array.isArray(parsed)
+      ? parsed.filter((f): f is string => typeof f === 'string' && !!f.trim()).map(f => f.trim())
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+const EXTRACTION_PROMPT = `Read the exchange below and list durable facts worth remembering about the user for future conversations: their name, people and pets in their life, preferences, plans, decisions and standing instructions.
+Skip small talk, one-off requests, anything about the assistant, and facts that only matter to this conversation.
+Write each fact as one short sentence in the third person ("The user ..."). Reply with a JSON array of strings only, or [] when there is nothing worth keeping.`;
+
+/**
+ * Run extraction over one finished exchange.
+ * @param exchange - The user message and the reply to it
+ * @param profile - Profile the chat runs as; its provider carries the request
+ * @returns Number of facts saved or queued
+ */
+export async function extractMemories(
+  exchange: ChatMessage[],
+  profile: ProviderSettings & { id: string; model: string },
+  apiKey: string,
+  conversationId?: string
+): Promise<{ mode: ExtractionMode; count: number }> {
+  const settings = getExtractionSettings();
+  if (settings.mode === 'off') return { mode: 'off', count: 0 };
+
+  const transcript = exchange.map(m => `${m.role}: ${m.content}`).join('\n\n');
+  const chatService = new ChatService(apiKey, profile);
+  const response = await chatService.sendMessage({
+    model: usesOpenRouter(profile) ? settings.model : profile.model,
+    messages: [
+      { role: 'system', content: EXTRACTION_PROMPT },
+      { role: 'user', content: transcript },
+    ],
+    temperature: 0,
+    max_tokens: 300,
+  });
+  const facts = parseFacts(await chatService.readMessage(response) || '');
+  if (!facts.length) return { mode: settings.mode, count: 0 };
+
+  const pending = loadSuggestions();
+  const known = [
+    ...(await getMemories(profile.id)).map(m => m.content),
+    ...pending.map(s => s.content),
+  ];
+  const fresh = dropDuplicateFacts(facts, known);
+
+  if (settings.mode === 'auto') {
+    for (const fact of fresh) {
+      await saveMemory(fact, 'global', undefined, [EXTRACTED_TAG]);
+    }
+  } else if (fresh.length) {
+    const createdAt = new Date().toISOString();
+    saveSuggestions([
+      ...pending,
+      ...fresh.map((content, i) => ({
+        id: `suggestion-${Date.now()}-${i}`,
+        content,
+        scope: 'global' as const,
+        ...(conversationId && { conversationId }),
+        createdAt,
+      })),
+    ]);
+  }
+  return { mode: settings.mode, count: fresh.length };
+}
@@ -0,0 +1,80 @@
+// Full-text search over every stored message. Indexing and lookups run in
+// a worker against the `searchDocs` / `searchTerms` stores so typing in the
+// sidebar never blocks the UI. Writes through conversationUtils mark the
+// index stale; the next search brings it up to date first.
+
+export interface SearchHit {
+  messageId: string;
+  conversationId: string;
+  role: 'user' | 'assistant';
+  timestamp: string;
+  snippet: string;
+  /** [start, end) ranges of `snippet` that matched the query */
+  highlights: [number, number][];
+}
+
+type SearchCommand =
+  | { type: 'sync' }
+  | { type: 'search'; query: string; limit: number; sync: boolean };
+
+export type SearchRequest = SearchCommand & { id: number };
+
+export interface SearchResponse {
+  id: number;
+  hits?: SearchHit[];
+  error?: string;
+}
+
+let worker: Worker | null = null;
+let nextId = 0;
+let stale = true;
+const pending = new Map<number, { resolve: (hits: SearchHit[]) => void; reject: (error: Error) => void }>();
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/searchIndex.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<SearchResponse>) => {
+      const { id, hits, error } = event.data;
+      const request = pending.get(id);
+      if (!request) return;
+      pending.delete(id);
+      if (error) request.reject(new Error(error));
+      else request.resolve(hits || []);
+    };
+  }
+  return worker;
+}
+
+function send(command: SearchCommand): Promise<SearchHit[]> {
+  const request: SearchRequest = { ...command, id: ++nextId };
+  return new Promise((resolve, reject) => {
+    pending.set(request.id, { resolve, reject });
+    getWorker().postMessage(request);
+  });
+}
+
+/** Flag the index as out of date after messages were written or removed */
+export function invalidateSearchIndex() {
+  stale = true;
+}
+
+/** Bring the index up to date with the messages store */
+export async function syncSearchIndex(): Promise<void> {
+  stale = false;
+  await send({ type: 'sync' });
+}
+
+/**
+ * Messages matching every word of `query`, newest first. The last word
+ * matches as a prefix so results update while typing.
+ */
+export async function searchMessages(query: string, limit = 30): Promise<SearchHit[]> {
+  const sync = stale;
+  stale = false;
+  try {
+    return await send({ type: 'search', query, limit, sync });
+  } catch (error) {
+    if (sync) stale = true;
+    throw error;
+  }
+}
@@ -0,0 +1,357 @@
+import type { ChatMessage, ChatRequest } from "./chatService";
+
+// Provider adapters translate a ChatRequest into the wire format of a given
+// LLM API and read its replies back. ChatService owns key fallback and
+// telemetry; adapters only know about URLs, headers, bodies and SSE payloads.
+
+export type ProviderId = 'openrouter' | 'openai-compatible' | 'anthropic';
+
+/** Provider fields a Profile can carry. All optional; OpenRouter is the default. */
+export interface ProviderSettings {
+  provider?: ProviderId;
+  /** Override for the API root, e.g. http://localhost:11434/v1 for Ollama */
+  baseUrl?: string;
+  /** Key for non-OpenRouter providers. OpenRouter keys come from Settings. */
+  apiKey?: string;
+}
+
+/** Token counts reported by the provider, as far as one payload carries them */
+export interface ReportedUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+  /** Price in USD when the provider bills per request (OpenRouter) */
+  cost?: number;
+}
+
+/** Fragment of a tool call; fragments with the same index are concatenated */
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  name?: string;
+  arguments?: string;
+}
+
+/** A single parsed SSE `data:` payload */
+export interface StreamDelta {
+  content?: string;
+  done?: boolean;
+  usage?: ReportedUsage;
+  toolCalls?: ToolCallDelta[];
+}
+
+export interface ProviderAdapter {
+  id: ProviderId;
+  label: string;
+  defaultBaseUrl: string;
+  /** Whether requests can be sent without an API key (local servers) */
+  keyOptional: boolean;
+  buildRequest(baseUrl: string, request: ChatRequest, apiKey: string): { url: string; init: RequestInit };
+  parseStreamData(data: string): StreamDelta;
+  /** Extract the assistant text from a non-streaming JSON response */
+  parseMessage(data: unknown): string | undefined;
+  /** OpenAI-style `/embeddings` call; absent when the provider has none */
+  buildEmbeddingsRequest?(baseUrl: string, model: string, input: string[], apiKey: string): { url: string; init: RequestInit };
+  parseEmbeddings?(data: unknown): number[][];
+}
+
+/** Messages with attached images become OpenAI-style content parts */
+function toOpenAIMessage({ images, ...message }: ChatMessage) {
+  if (!images?.length) return message;
+  return {
+    ...message,
+    content: [
+      ...(message.content ? [{ type: 'text', text: message.content }] : []),
+      ...images.map(url => ({ type: 'image_url', image_url: { url } })),
+    ],
+  };
+}
+
+// Strip our routing-only fields before the request leaves the app
+function openAIBody(request: ChatRequest) {
+  return {
+    model: request.model,
+    messages: request.messages.map(toOpenAIMessage),
+    temperature: request.temperature,
+    max_tokens: request.max_tokens,
+    stream: request.stream,
+    tools: request.tools,
+  };
+}
+
+/** The parts of an OpenAI-style streamed chunk read here */
+interface OpenAIChunk {
+  choices?: {
+    delta?: {
+      content?: string;
+      tool_calls?: { index?: number; id?: string; function?: { name?: string; arguments?: string } }[];
+    };
+  }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number; cost?: unknown };
+}
+
+interface OpenAIMessageResponse {
+  choices?: { message?: { content?: string } }[];
+}
+
+interface OpenAIEmbeddingsResponse {
+  data?: { index: number; embedding: number[] }[];
+}
+
+function parseOpenAIStream(data: string): StreamDelta {
+  if (data === '[DONE]') return { done: true };
+  const parsed: OpenAIChunk = JSON.parse(data);
+  // Usage arrives on the last chunk, usually with an empty `choices`
+  const usage = parsed.usage && {
+    promptTokens: parsed.usage.prompt_tokens,
+    completionTokens: parsed.usage.completion_tokens,
+    cost: typeof parsed.usage.cost === 'number' ? parsed.usage.cost : undefined,
+  };
+  const delta = parsed.choices?.[0]?.delta;
+  const toolCalls: ToolCallDelta[] | undefined = delta?.tool_calls?.map(c => ({
+    index: c.index ?? 0,
+    id: c.id,
+    name: c.function?.name,
+    arguments: c.function?.arguments,
+  }));
+  return { content: delta?.content, usage, toolCalls };
+}
+
+function parseOpenAIMessage(data: unknown): string | undefined {
+  return (data as OpenAIMessageResponse | null)?.choices?.[0]?.message?.content;
+}
+
+function openAIEmbeddingsRequest(baseUrl: string, model: string, input: string[], apiKey: string) {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+  return {
+    url: `${baseUrl}/embeddings`,
+    init: { method: 'POST', headers, body: JSON.stringify({ model, input }) }
+  };
+}
+
+function parseOpenAIEmbeddings(data: unknown): number[][] {
+  const rows = (data as OpenAIEmbeddingsResponse | null)?.data || [];
+  return [...rows].sort((a, b) => a.index - b.index).map(r => r.embedding);
+}
+
+const openRouterAdapter: ProviderAdapter = {
+  id: 'openrouter',
+  label: 'OpenRouter',
+  defaultBaseUrl: 'https://openrouter.ai/api/v1',
+  keyOptional: false,
+  buildRequest(baseUrl, request, apiKey) {
+    return {
+      url: `${baseUrl}/chat/completions`,
+      init: {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+          'HTTP-Referer': window.location.origin,
+          'X-Title': 'Vivica Chat Companion'
+        },
+        // Ask for token counts and cost on the final stream chunk
+        body: JSON.stringify({ ...openAIBody(request), usage: { include: true } })
+      }
+    };
+  },
+  parseStreamData: parseOpenAIStream,
+  parseMessage: parseOpenAIMessage,
+  buildEmbeddingsRequest: openAIEmbeddingsRequest,
+  parseEmbeddings: parseOpenAIEmbeddings,
+};
+
+const openAICompatibleAdapter: ProviderAdapter = {
+  id: 'openai-compatible',
+  label: 'OpenAI-compatible (llama.cpp, Ollama, vLLM)',
+  defaultBaseUrl: 'http://localhost:8080/v1',
+  keyOptional: true,
+  buildRequest(baseUrl, request, apiKey) {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+    return {
+      url: `${baseUrl}/chat/completions`,
+      init: {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          ...openAIBody(request),
+          // Servers that ignore this simply send no usage; it gets estimated
+          ...(request.stream && { stream_options: { include_usage: true } }),
+        })
+      }
+    };
+  },
+  parseStreamData: parseOpenAIStream,
+  parseMessage: parseOpenAIMessage,
+  buildEmbeddingsRequest: openAIEmbeddingsRequest,
+  parseEmbeddings: parseOpenAIEmbeddings,
+};
+
+function parseToolArguments(json: string): unknown {
+  try {
+    return JSON.parse(json || '{}');
+  } catch {
+    return {};
+  }
+}
+
+/** Anthropic takes images as base64 blocks rather than data URLs */
+function toAnthropicImage(dataUrl: string) {
+  const [, mediaType = 'image/png', data = ''] = dataUrl.match(/^data:([^;,]+)?(?:;base64)?,(.*)$/) || [];
+  return { type: 'image', source: { type: 'base64', media_type: mediaType, data } };
+}
+
+/**
+ * Anthropic carries tool calls as `tool_use` blocks on the assistant turn
+ * and their results as `tool_result` blocks on the following user turn.
+ * Those blocks are refused without tool definitions, so a request offering
+ * no tools gets the earlier calls and results as plain text.
+ */
+function toAnthropicMessages(messages: ChatMessage[], withTools: boolean) {
+  const out: { role: 'user' | 'assistant'; content: unknown }[] = [];
+  for (const m of messages) {
+    if (m.role === 'tool') {
+      const block = withTools
+        ? { type: 'tool_result', tool_use_id: m.tool_call_id, content: m.content }
+        : { type: 'text', text: `Tool result: ${m.content}` };
+      const last = out[out.length - 1];
+      // Results of one round share a single user turn
+      if (last?.role === 'user' && Array.isArray(last.content)) {
+        last.content.push(block);
+      } else {
+        out.push({ role: 'user', content: [block] });
+      }
+    } else if (m.role === 'assistant' && m.tool_calls?.length) {
+      out.push({
+        role: 'assistant',
+        content: [
+          ...(m.content ? [{ type: 'text', text: m.content }] : []),
+          ...m.tool_calls.map(c => withTools ? {
+            type: 'tool_use',
+            id: c.id,
+            name: c.function.name,
+            input: parseToolArguments(c.function.arguments),
+          } : { type: 'text', text: `Called ${c.function.name} with ${c.function.arguments || '{}'}` }),
+        ],
+      });
+    } else if (m.images?.length) {
+      out.push({
+        role: m.role as 'user' | 'assistant',
+        content: [
+          ...m.images.map(toAnthropicImage),
+          ...(m.content ? [{ type: 'text', text: m.content }] : []),
+        ],
+      });
+    } else {
+      out.push({ role: m.role as 'user' | 'assistant', content: m.content });
+    }
+  }
+  return out;
+}
+
+interface AnthropicMessageResponse {
+  content?: { type: string; text?: string }[];
+}
+
+/** The Messages API stream events read here; others (ping, block stops) are skipped */
+type AnthropicStreamEvent =
+  | { type: 'message_start'; message?: { usage?: { input_tokens?: number } } }
+  | { type: 'message_delta'; usage?: { output_tokens?: number } }
+  | { type: 'content_block_start'; index: number; content_block?: { type: string; id?: string; name?: string } }
+  | {
+      type: 'content_block_delta';
+      index: number;
+      delta?: { type: 'text_delta'; text: string } | { type: 'input_json_delta'; partial_json: string };
+    }
+  | { type: 'message_stop' }
+  | { type: 'ping' | 'content_block_stop' | 'error' };
+
+const anthropicAdapter: ProviderAdapter = {
+  id: 'anthropic',
+  label: 'Anthropic',
+  defaultBaseUrl: 'https://api.anthropic.com/v1',
+  keyOptional: false,
+  buildRequest(baseUrl, request, apiKey) {
+    // Anthropic takes the system prompt as a top-level field
+    const system = request.messages
+      .filter(m => m.role === 'system')
+      .map(m => m.content)
+      .join('\n\n');
+    const messages = toAnthropicMessages(request.messages.filter(m => m.role !== 'system'), !!request.tools?.length);
+
+    return {
+      url: `${baseUrl}/messages`,
+      init: {
+        method: 'POST',
+        headers: {
+          'x-api-key': apiKey,
+          'anthropic-version': '2023-06-01',
+          'anthropic-dangerous-direct-browser-access': 'true',
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: request.model,
+          system: system || undefined,
+          messages,
+          temperature: request.temperature,
+          // max_tokens is mandatory for the Messages API
+          max_tokens: request.max_tokens ?? 1024,
+          stream: request.stream,
+          tools: request.tools?.map(t => ({
+            name: t.function.name,
+            description: t.function.description,
+            input_schema: t.function.parameters,
+          })),
+        })
+      }
+    };
+  },
+  parseStreamData(data) {
+    const parsed: AnthropicStreamEvent = JSON.parse(data);
+    if (parsed.type === 'message_stop') return { done: true };
+    // Input tokens come with the opening event, output tokens with the closing delta
+    if (parsed.type === 'message_start' && parsed.message?.usage) {
+      return { usage: { promptTokens: parsed.message.usage.input_tokens } };
+    }
+    if (parsed.type === 'message_delta' && parsed.usage) {
+      return { usage: { completionTokens: parsed.usage.output_tokens } };
+    }
+    if (parsed.type === 'content_block_delta' && parsed.delta?.type === 'text_delta') {
+      return { content: parsed.delta.text };
+    }
+    if (parsed.type === 'content_block_start' && parsed.content_block?.type === 'tool_use') {
+      return { toolCalls: [{ index: parsed.index, id: parsed.content_block.id, name: parsed.content_block.name }] };
+    }
+    if (parsed.type === 'content_block_delta' && parsed.delta?.type === 'input_json_delta') {
+      return { toolCalls: [{ index: parsed.index, arguments: parsed.delta.partial_json }] };
+    }
+    return {};
+  },
+  parseMessage(data) {
+    const blocks = (data as AnthropicMessageResponse | null)?.content || [];
+    const text = blocks.filter(b => b.type === 'text').map(b => b.text).join('');
+    return text || undefined;
+  },
+};
+
+export const PROVIDERS: ProviderAdapter[] = [
+  openRouterAdapter,
+  openAICompatibleAdapter,
+  anthropicAdapter,
+];
+
+export function getProviderAdapter(id?: ProviderId): ProviderAdapter {
+  return PROVIDERS.find(p => p.id === id) || openRouterAdapter;
+}
+
+/** Resolve the API root for a profile, falling back to the provider default */
+export function resolveBaseUrl(settings?: ProviderSettings): string {
+  const adapter = getProviderAdapter(settings?.provider);
+  return (settings?.baseUrl?.trim() || adapter.defaultBaseUrl).replace(/\/+$/, '');
+}
+
+/** True when the profile talks to OpenRouter and therefore needs the OpenRouter key */
+export function usesOpenRouter(settings?: ProviderSettings): boolean {
+  return getProviderAdapter(settings?.provider).id === 'openrouter';
+}
@@ -0,0 +1,255 @@
+import {
+  saveReminderToDb,
+  getAllRemindersFromDb,
+  deleteReminderFromDb,
+  type ReminderRecord
+} from "@/utils/indexedDb";
+
+// Reminders set with `/remind` or the set_reminder tool. They live in
+// IndexedDB and are checked while the app is open; one that came due while
+// it was closed fires on the next launch. Due reminders show a notification
+// through the service worker, and opening it has the active profile deliver
+// the reminder in a new chat.
+
+/** Hour used when a reminder names a day but no time */
+const DEFAULT_HOUR = 9;
+/** Hour meant by "tonight" */
+const TONIGHT_HOUR = 20;
+const CHECK_INTERVAL_MS = 30_000;
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const UNIT_MS: Record<string, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 7 * 86_400_000,
+};
+
+/** Reminder time or text that couldn't be understood */
+export class ReminderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReminderError';
+  }
+}
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * Read a time expression off the front of `input`: "in 2 hours",
+ * "tomorrow at 8am", "Friday", "next mon 17:30", "2026-11-03 14:00" and
+ * the like. A day without a time means 9am; a time without a day means
+ * its next occurrence.
+ * @returns The due time and whatever text follows, or null when `input`
+ *   doesn't start with a time
+ */
+export function parseWhen(input: string, now = new Date()): { dueAt: Date; rest: string } | null {
+  let rest = input.trim();
+  let day: Date | null = null;
+  let time: [number, number] | null = null;
+  let tonight = false;
+  const take = (re: RegExp) => {
+    const match = rest.match(re);
+    if (match) rest = rest.slice(match[0].length).trim();
+    return match;
+  };
+
+  const relative = take(/^in\s+(an?|\d+(?:\.\d+)?)\s*(m(?:in(?:ute)?s?)?|h(?:(?:ou)?rs?)?|d(?:ays?)?|w(?:(?:ee)?ks?)?)\b/i);
+  if (relative) {
+    const count = /^an?$/i.test(relative[1]) ? 1 : parseFloat(relative[1]);
+    return { dueAt: new Date(now.getTime() + count * UNIT_MS[relative[2][0].toLowerCase()]), rest };
+  }
+
+  // The day and the time may come in either order
+  for (let i = 0; i < 2; i++) {
+    let match;
+    if (!day && (match = take(/^(today|tonight|tomorrow)\b/i))) {
+      const word = match[1].toLowerCase();
+      day = startOfDay(now);
+      if (word === 'tomorrow') day.setDate(day.getDate() + 1);
+      tonight = word === 'tonight';
+    } else if (!day && (match = take(/^(?:on\s+)?(?:next\s+)?(sun(?:day)?|mon(?:day)?|tue(?:s(?:day)?)?|wed(?:nesday)?|thu(?:rs(?:day)?)?|fri(?:day)?|sat(?:urday)?)\b/i))) {
+      // Naming today's weekday means next week's
+      const ahead = (WEEKDAYS.indexOf(match[1].slice(0, 3).toLowerCase()) - now.getDay() + 7) % 7 || 7;
+      day = startOfDay(now);
+      day.setDate(day.getDate() + ahead);
+    } else if (!day && (match = take(/^(?:on\s+)?(\d{4})-(\d{2})-(\d{2})(?:[T\s](\d{1,2}):(\d{2}))?\b/))) {
+      day = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+      if (match[4]) time = [Number(match[4]), Number(match[5])];
+    } else if (!time) {
+      // A bare number only counts as a time after "at" or with am/pm or minutes
+      const clock = rest.match(/^(at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\b/i);
+      if (!clock || !(clock[1] || clock[3] || clock[4])) break;
+      rest = rest.slice(clock[0].length).trim();
+      let hour = Number(clock[2]);
+      const suffix = clock[4]?.toLowerCase();
+      if (suffix === 'pm' && hour < 12) hour += 12;
+      if (suffix === 'am' && hour === 12) hour = 0;
+      time = [hour, Number(clock[3] || 0)];
+    } else {
+      break;
+    }
+  }
+
+  if (!day && !time) return null;
+  const dueAt = day ?? startOfDay(now);
+  const [hour, minute] = time ?? [tonight ? TONIGHT_HOUR : DEFAULT_HOUR, 0];
+  dueAt.setHours(hour, minute, 0, 0);
+  // "at 7" after 7 o'clock means tomorrow
+  if (!day && dueAt <= now) dueAt.setDate(dueAt.getDate() + 1);
+  return { dueAt, rest };
+}
+
+/**
+ * Split "Friday about the dentist" into a due time and reminder text.
+ * @throws ReminderError when either part is missing or the time has passed
+ */
+export function parseReminder(input: string, now = new Date()): { dueAt: Date; text: string } {
+  const parsed = parseWhen(input.trim().replace(/^me\s+/i, ''), now);
+  if (!parsed) throw new ReminderError('Say when, e.g. "Friday about the dentist" or "in 2 hours to call Sam"');
+  const text = parsed.rest.replace(/^(?:about|to|that|of)\b\s*|^[:,-]\s*/i, '').trim();
+  if (!text) throw new ReminderError('Say what to be reminded about');
+  if (parsed.dueAt <= now) throw new ReminderError('That time has already passed');
+  return { dueAt: parsed.dueAt, text };
+}
+
+/**
+ * Due time from a model's tool call: anything `parseWhen` reads in full,
+ * or an ISO 8601 date.
+ * @throws ReminderError when the time can't be read or has passed
+ */
+export function parseDueTime(when: string, now = new Date()): Date {
+  const parsed = parseWhen(when, now);
+  const dueAt = parsed && !parsed.rest ? parsed.dueAt : new Date(when);
+  if (Number.isNaN(dueAt.getTime())) throw new ReminderError(`Could not read the time "${when}"`);
+  if (dueAt <= now) throw new ReminderError('That time has already passed');
+  return dueAt;
+}
+
+/** Due time as shown to the user and the model, e.g. "Fri, Oct 23, 9:00 AM" */
+export function formatDue(dueAt: string | Date): string {
+  return new Date(dueAt).toLocaleString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+/** Ask for notification permission if it hasn't been decided yet */
+export async function ensureNotificationPermission(): Promise<boolean> {
+  if (typeof Notification === 'undefined') return false;
+  if (Notification.permission === 'default') {
+    try {
+      await Notification.requestPermission();
+    } catch {
+      // Some browsers only allow the prompt from a click
+    }
+  }
+  return Notification.permission === 'granted';
+}
+
+export async function addReminder(text: string, dueAt: Date, profileId?: string): Promise<ReminderRecord> {
+  const reminder: ReminderRecord = {
+    id: `reminder-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+    text,
+    dueAt: dueAt.toISOString(),
+    ...(profileId && { profileId }),
+    createdAt: new Date().toISOString(),
+    status: 'pending',
+  };
+  await saveReminderToDb(reminder);
+  window.dispatchEvent(new Event('remindersUpdated'));
+  ensureNotificationPermission();
+  return reminder;
+}
+
+/** Reminders still to come, soonest first */
+export async function getUpcomingReminders(): Promise<ReminderRecord[]> {
+  const all = await getAllRemindersFromDb();
+  return all.filter(r => r.status === 'pending').sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+}
+
+export async function getReminder(id: string): Promise<ReminderRecord | undefined> {
+  return (await getAllRemindersFromDb()).find(r => r.id === id);
+}
+
+export async function cancelReminder(id: string): Promise<void> {
+  await deleteReminderFromDb(id);
+  window.dispatchEvent(new Event('remindersUpdated'));
+}
+
+export async function markReminderDelivered(reminder: ReminderRecord, conversationId: string): Promise<void> {
+  await saveReminderToDb({ ...reminder, status: 'delivered', conversationId });
+}
+
+/**
+ * Show a due reminder as a notification. The service worker handles taps
+ * when it's running; otherwise a page notification calls `onOpen` itself.
+ */
+export async function showReminderNotification(
+  reminder: ReminderRecord,
+  title: string,
+  onOpen: (reminderId: string) => void
+): Promise<boolean> {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return false;
+  const options: NotificationOptions = {
+    body: reminder.text,
+    tag: reminder.id,
+    icon: '/logo-defaultdark.png',
+    data: { reminderId: reminder.id },
+  };
+  const registration = 'serviceWorker' in navigator
+    ? await navigator.serviceWorker.getRegistration()
+    : undefined;
+  if (registration?.active) {
+    await registration.showNotification(title, options);
+  } else {
+    const notification = new Notification(title, options);
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+      onOpen(reminder.id);
+    };
+  }
+  return true;
+}
+
+/**
+ * Fire pending reminders as they come due, checking every 30 seconds and
+ * whenever reminders change. Each one is marked fired before `onDue` runs,
+ * so it fires once.
+ * @returns Cleanup that stops the checks
+ */
+export function startReminderScheduler(onDue: (reminder: ReminderRecord) => void): () => void {
+  let checking = false;
+  const check = async () => {
+    if (checking) return;
+    checking = true;
+    try {
+      const now = new Date().toISOString();
+      for (const reminder of await getUpcomingReminders()) {
+        if (reminder.dueAt > now) break;
+        const fired: ReminderRecord = { ...reminder, status: 'fired' };
+        await saveReminderToDb(fired);
+        onDue(fired);
+      }
+    } catch (e) {
+      console.warn('Failed to check reminders', e);
+    } finally {
+      checking = false;
+    }
+  };
+  check();
+  const timer = window.setInterval(check, CHECK_INTERVAL_MS);
+  window.addEventListener('remindersUpdated', check);
+  return () => {
+    window.clearInterval(timer);
+    window.removeEventListener('remindersUpdated', check);
+  };
+}
+
+/** Instruction for the persona's message that delivers a reminder */
+export function reminderDeliveryPrompt(reminder: ReminderRecord): string {
+  return `On ${formatDue(reminder.createdAt)} the user asked you to remind them: "${reminder.text}". It is now ${formatDue(new Date())}. Write the message that delivers this reminder, in your own voice and character. Keep it short, and don't mention being asked to write it.`;
+}
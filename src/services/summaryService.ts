@@ -0,0 +1,154 @@
+import { ChatService, ChatMessage } from "./chatService";
+import type { ProviderSettings } from "./providers";
+
+// Conversation summarisation shared by Save & Summarize (memories) and the
+// rolling per-conversation summary that stands in for old turns in prompts.
+
+/** Messages always replayed verbatim after the rolling summary */
+export const SUMMARY_KEEP_RECENT = 10;
+/** Unsummarised older messages needed before the summary is rolled forward */
+export const SUMMARY_BATCH = 10;
+
+export interface SummaryOptions {
+  provider?: ProviderSettings;
+  /** What the summary is for, e.g. "create a global memory from this conversation." */
+  instructions?: string;
+  /** Defaults to a limit scaled by the number of messages */
+  charLimit?: number;
+  /** Earlier summary the new messages are folded into */
+  previousSummary?: string;
+}
+
+/** Minimal conversation shape needed for rolling summaries */
+interface SummarizableConversation {
+  messages: { role: 'user' | 'assistant'; content: string; codeContent?: string; failed?: boolean }[];
+  summary?: string;
+  summarizedCount?: number;
+}
+
+export interface RollingSummary {
+  summary: string;
+  /** Number of oldest messages the summary covers */
+  summarizedCount: number;
+}
+
+/**
+ * Condense chat messages with the given model. Output follows the
+ * "Summary: / Key Points:" format and is trimmed to the char limit.
+ * @throws When the request fails or the model returns nothing
+ */
+export async function summarizeMessages(
+  messages: ChatMessage[],
+  model: string,
+  apiKey: string,
+  options: SummaryOptions = {}
+): Promise<string> {
+  const messageCount = messages.length;
+  // Allow much longer summaries so important details aren't lost
+  const charLimit = options.charLimit
+    ?? (messageCount < 10 ? 1000 : messageCount <= 30 ? 2000 : 4000);
+
+  const previous = options.previousSummary
+    ? `
+  Summary so far (fold the new messages into it, keeping what still matters):
+  ${options.previousSummary}
+  `
+    : '';
+
+  const prompt = `
+  As Vivica, ${options.instructions || 'summarize this conversation.'}
+
+  Keep the entire summary under ${charLimit} characters.
+
+  Format requirements:
+  1. Start with "Summary:" followed by 1-2 sentence overview
+  2. List key points as bullets
+  3. Keep professional but friendly tone
+
+  Key Points to Include:
+  - Important facts/names
+  - User preferences
+  - Key decisions
+  - Special instructions
+  ${previous}
+  Conversation:
+  ${messages.map(m => `${m.role}: ${m.content}`).join('\n')}
+
+  Response Format:
+  Summary: [summary here]
+  Key Points:
+  - [point 1]
+  - [point 2]
+  - [...]
+  `;
+
+  // Goes through ChatService for key fallback, telemetry and provider routing
+  const chatService = new ChatService(apiKey, options.provider);
+  const response = await chatService.sendMessage({
+    model,
+    messages: [
+      { role: 'system', content: 'You are Vivica, summarizing conversations concisely.' },
+      { role: 'user', content: prompt }
+    ],
+    temperature: 0.3 // Lower temp for more factual summaries
+  });
+
+  const summary = await chatService.readMessage(response);
+  if (!summary) {
+    throw new Error('No summary generated');
+  }
+
+  // Clean up the response if it has bullet points
+  const cleaned = summary
+    .replace(/^- /mg, '• ') // Convert hyphens to bullets
+    .replace(/\n\s*\n/g, '\n\n'); // Normalize spacing
+
+  return cleaned.length > charLimit ? cleaned.slice(0, charLimit) : cleaned;
+}
+
+/**
+ * Index where the rolling summary should end, or null when too few old
+ * messages have piled up. Never ends right before an assistant turn so the
+ * replayed history still opens with the user.
+ * @param minBatch - Old messages needed for an update; 1 folds whatever is there
+ */
+export function getSummaryCutoff(conv: SummarizableConversation, minBatch = SUMMARY_BATCH): number | null {
+  const start = conv.summarizedCount || 0;
+  let end = conv.messages.length - SUMMARY_KEEP_RECENT;
+  if (end - start < Math.max(1, minBatch)) return null;
+  while (end < conv.messages.length - 1 && conv.messages[end].role === 'assistant') {
+    end++;
+  }
+  return end;
+}
+
+/**
+ * Fold the messages between the current summary and the recent window into
+ * a new summary. Returns null when no update is due.
+ * @param minBatch - See getSummaryCutoff
+ */
+export async function rollSummary(
+  conv: SummarizableConversation,
+  model: string,
+  apiKey: string,
+  provider?: ProviderSettings,
+  minBatch = SUMMARY_BATCH
+): Promise<RollingSummary | null> {
+  const end = getSummaryCutoff(conv, minBatch);
+  if (end === null) return null;
+
+  const messages: ChatMessage[] = conv.messages
+    .slice(conv.summarizedCount || 0, end)
+    // Code hand-off turns keep their code apart; the model saw it ahead of the explanation
+    .map(m => ({ role: m.role, failed: m.failed, content: `${m.codeContent || ''}\n\n${m.content}`.trim() }))
+    .filter(m => !m.failed && m.content)
+    .map(m => ({ role: m.role, content: m.content }));
+
+  const summary = await summarizeMessages(messages, model, apiKey, {
+    provider,
+    instructions: 'condense the earlier part of this conversation so it can stand in for those messages. Keep anything later replies may refer back to.',
+    charLimit: 3000,
+    previousSummary: conv.summary,
+  });
+  return { summary, summarizedCount: end };
+}
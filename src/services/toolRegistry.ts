@@ -0,0 +1,192 @@
+import type { ChatTool, ToolCall, ToolRunner } from "./chatService";
+import { searchBrave } from "./searchService";
+import { fetchArticleText } from "./rssService";
+import { fetchCurrentWeather, geocodePlace, getUserLocation } from "./weatherService";
+import { saveMemory } from "@/utils/memoryUtils";
+import { addReminder, parseDueTime, formatDue } from "./reminderService";
+import { secureStorage } from "@/utils/vault";
+
+// Tools the model may call mid-reply. Each tool declares a JSON schema that
+// goes out as an OpenAI-style function definition; ChatService runs the
+// calls through `createToolRunner` and feeds the results back.
+
+/** One tool call shown as a step above the reply */
+export interface ToolStep {
+  id: string;
+  name: string;
+  /** JSON arguments the model passed */
+  arguments: string;
+  /** Unset while the tool is still running */
+  result?: string;
+  failed?: boolean;
+}
+
+export interface ToolContext {
+  /** Profile the reply is written as, for profile-scoped memories */
+  profileId?: string;
+}
+
+interface ToolDefinition {
+  name: string;
+  /** Short label for the step in the chat, e.g. "Web search" */
+  label: string;
+  description: string;
+  parameters: Record<string, unknown>;
+  /** Whether the tool can run with the current settings */
+  isAvailable?: () => boolean;
+  run(args: Record<string, unknown>, context: ToolContext): Promise<string>;
+}
+
+/** Longest article text handed back, so one page can't flood the context */
+const MAX_ARTICLE_CHARS = 8000;
+
+function requireString(args: Record<string, unknown>, name: string): string {
+  const value = args[name];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`Missing "${name}" argument`);
+  }
+  return value.trim();
+}
+
+const TOOLS: ToolDefinition[] = [
+  {
+    name: 'web_search',
+    label: 'Web search',
+    description: 'Search the web with Brave Search. Use for recent events or facts you are unsure about.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Search query' },
+      },
+      required: ['query'],
+    },
+    isAvailable: () => !!secureStorage.getItem('braveApiKey'),
+    async run(args) {
+      const results = await searchBrave(requireString(args, 'query'), secureStorage.getItem('braveApiKey') || '');
+      if (!results.length) return 'No results.';
+      return results.map((r, i) => `${i + 1}. ${r.title}\n${r.description}\n${r.url}`).join('\n\n');
+    },
+  },
+  {
+    name: 'get_weather',
+    label: 'Weather',
+    description: "Current weather for a place, or for the user's location when no place is given.",
+    parameters: {
+      type: 'object',
+      properties: {
+        location: { type: 'string', description: 'City or place name, e.g. "Paris, France"' },
+      },
+    },
+    async run(args) {
+      const place = typeof args.location === 'string' && args.location.trim()
+        ? await geocodePlace(args.location.trim())
+        : await getUserLocation();
+      if (!place) return `No place called "${args.location}" was found.`;
+      const weather = await fetchCurrentWeather(place.lat, place.lon);
+      return place.name ? `${place.name}: ${weather}` : weather;
+    },
+  },
+  {
+    name: 'fetch_article',
+    label: 'Read article',
+    description: 'Fetch a web page, such as an RSS headline link, and return its readable text.',
+    parameters: {
+      type: 'object',
+      properties: {
+        url: { type: 'string', description: 'Absolute http(s) URL' },
+      },
+      required: ['url'],
+    },
+    async run(args) {
+      const url = requireString(args, 'url');
+      if (!/^https?:\/\//i.test(url)) throw new Error('Only http(s) URLs can be fetched');
+      const text = await fetchArticleText(url);
+      return text.length > MAX_ARTICLE_CHARS ? `${text.slice(0, MAX_ARTICLE_CHARS)}…` : text;
+    },
+  },
+  {
+    name: 'save_memory',
+    label: 'Save memory',
+    description: 'Remember a lasting fact or preference about the user for future chats.',
+    parameters: {
+      type: 'object',
+      properties: {
+        content: { type: 'string', description: 'The fact to remember, in one sentence' },
+        scope: {
+          type: 'string',
+          enum: ['global', 'profile'],
+          description: 'global: every persona sees it; profile: only the current persona',
+        },
+      },
+      required: ['content'],
+    },
+    isAvailable: () => localStorage.getItem('vivica-memory-active') === 'true',
+    async run(args, context) {
+      const scope = args.scope === 'profile' && context.profileId ? 'profile' : 'global';
+      await saveMemory(requireString(args, 'content'), scope, context.profileId);
+      return 'Saved.';
+    },
+  },
+  {
+    name: 'set_reminder',
+    label: 'Set reminder',
+    description: 'Remind the user about something later. You will deliver the reminder yourself when it comes due.',
+    parameters: {
+      type: 'object',
+      properties: {
+        what: { type: 'string', description: 'What to remind the user about, e.g. "call the dentist"' },
+        when: {
+          type: 'string',
+          description: 'When, as the user said it ("Friday", "tomorrow at 8am", "in 2 hours") or as an ISO 8601 date-time',
+        },
+      },
+      required: ['what', 'when'],
+    },
+    async run(args, context) {
+      const dueAt = parseDueTime(requireString(args, 'when'));
+      await addReminder(requireString(args, 'what'), dueAt, context.profileId);
+      return `Reminder set for ${formatDue(dueAt)}.`;
+    },
+  },
+];
+
+/** Whether tool use is switched on in Settings (default on) */
+export function isToolUseEnabled(): boolean {
+  try {
+    const saved = JSON.parse(localStorage.getItem('vivica-settings') || '{}');
+    return saved.enableTools !== false;
+  } catch {
+    return true;
+  }
+}
+
+export function getToolLabel(name: string): string {
+  return TOOLS.find(t => t.name === name)?.label || name;
+}
+
+function toChatTool(tool: ToolDefinition): ChatTool {
+  return {
+    type: 'function',
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+  };
+}
+
+/** Runner over every tool usable right now, or undefined when there are none */
+export function createToolRunner(context: ToolContext): ToolRunner | undefined {
+  const available = TOOLS.filter(t => !t.isAvailable || t.isAvailable());
+  if (!available.length) return undefined;
+  return {
+    tools: available.map(toChatTool),
+    async run(call: ToolCall) {
+      const tool = available.find(t => t.name === call.function.name);
+      if (!tool) throw new Error(`Unknown tool "${call.function.name}"`);
+      let args: Record<string, unknown>;
+      try {
+        args = JSON.parse(call.function.arguments || '{}');
+      } catch {
+        throw new Error('Arguments are not valid JSON');
+      }
+      return tool.run(args, context);
+    },
+  };
+}
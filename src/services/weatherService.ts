@@ -0,0 +1,105 @@
+// Open-Meteo weather lookups. No key needed; places are resolved through
+// Open-Meteo's geocoding API and the browser location falls back to Welsh, LA.
+
+export interface Coordinates {
+  lat: number;
+  lon: number;
+  name?: string;
+}
+
+const FALLBACK_LOCATION: Coordinates = { lat: 30.2366, lon: -92.8204, name: 'Welsh, LA' };
+
+// Open-Meteo weather codes to human descriptions
+export function weatherCodeToText(code: number): string {
+  const map: Record<number, string> = {
+    0: 'Clear sky',
+    1: 'Mainly clear',
+    2: 'Partly cloudy',
+    3: 'Overcast',
+    45: 'Fog',
+    48: 'Depositing rime fog',
+    51: 'Light drizzle',
+    53: 'Drizzle',
+    55: 'Dense drizzle',
+    56: 'Freezing drizzle',
+    57: 'Freezing dense drizzle',
+    61: 'Slight rain',
+    63: 'Rain',
+    65: 'Heavy rain',
+    66: 'Freezing rain',
+    67: 'Heavy freezing rain',
+    71: 'Slight snow',
+    73: 'Snow',
+    75: 'Heavy snow',
+    77: 'Snow grains',
+    80: 'Slight showers',
+    81: 'Showers',
+    82: 'Violent showers',
+    85: 'Slight snow showers',
+    86: 'Heavy snow showers',
+    95: 'Thunderstorm',
+    96: 'Thunderstorm with hail',
+    99: 'Violent thunderstorm'
+  };
+  return map[code] || 'Unknown';
+}
+
+/** Current conditions as e.g. "Partly cloudy, 72°F" */
+export async function fetchCurrentWeather(lat: number, lon: number): Promise<string> {
+  const url = `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&current_weather=true&temperature_unit=fahrenheit`;
+  const resp = await fetch(url);
+  if (!resp.ok) throw new Error(`Weather lookup failed: ${resp.status}`);
+  const data = await resp.json();
+  const current = data.current_weather;
+  return `${weatherCodeToText(current.weathercode)}, ${Math.round(current.temperature)}°F`;
+}
+
+/**
+ * Current conditions and the rest of today, e.g. "Partly cloudy, 72°F now.
+ * Today: Slight showers, high 81°F, low 66°F, 40% chance of rain."
+ */
+export async function fetchTodayForecast(lat: number, lon: number): Promise<string> {
+  const url = `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&current_weather=true`
+    + '&daily=weathercode,temperature_2m_max,temperature_2m_min,precipitation_probability_max'
+    + '&forecast_days=1&timezone=auto&temperature_unit=fahrenheit';
+  const resp = await fetch(url);
+  if (!resp.ok) throw new Error(`Forecast lookup failed: ${resp.status}`);
+  const data = await resp.json();
+  const current = data.current_weather;
+  const daily = data.daily;
+  const rain = daily.precipitation_probability_max?.[0];
+  return `${weatherCodeToText(current.weathercode)}, ${Math.round(current.temperature)}°F now. `
+    + `Today: ${weatherCodeToText(daily.weathercode[0])}, high ${Math.round(daily.temperature_2m_max[0])}°F, `
+    + `low ${Math.round(daily.temperature_2m_min[0])}°F`
+    + (rain != null ? `, ${rain}% chance of rain.` : '.');
+}
+
+/** Best match for a place name, or undefined when nothing matches */
+export async function geocodePlace(name: string): Promise<Coordinates | undefined> {
+  const url = `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(name)}&count=1`;
+  const resp = await fetch(url);
+  if (!resp.ok) throw new Error(`Place lookup failed: ${resp.status}`);
+  const data = await resp.json();
+  const place = data.results?.[0];
+  if (!place) return undefined;
+  return {
+    lat: place.latitude,
+    lon: place.longitude,
+    name: [place.name, place.admin1, place.country].filter(Boolean).join(', '),
+  };
+}
+
+/** Browser location, or the fallback when it is unavailable or denied */
+export function getUserLocation(): Promise<Coordinates> {
+  return new Promise((resolve) => {
+    if (!('geolocation' in navigator)) {
+      resolve(FALLBACK_LOCATION);
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (pos) => resolve({ lat: pos.coords.latitude, lon: pos.coords.longitude }),
+      () => resolve(FALLBACK_LOCATION),
+      { enableHighAccuracy: false, timeout: 4000, maximumAge: 180000 }
+    );
+  });
+}
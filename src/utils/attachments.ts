@@ -0,0 +1,119 @@
+import { saveAttachmentsToDb, getAttachmentsFromDb, type AttachmentRecord } from './indexedDb';
+import { extractPdfText } from './pdfText';
+
+// Files attached to chat messages. The blob and any extracted text live in
+// the `attachments` store; messages carry only the metadata below. Images
+// go to vision models as data URLs, everything else as text.
+
+export type AttachmentKind = 'image' | 'pdf' | 'text';
+
+/** What a message stores about each of its files */
+export interface AttachmentMeta {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  kind: AttachmentKind;
+}
+
+/** File picker filter matching `attachmentKind` */
+export const ACCEPTED_FILE_TYPES = 'image/*,application/pdf,text/*,.md,.csv,.json,.txt,.log';
+
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+/** Longest text sent per file, so one document can't flood the context */
+const MAX_ATTACHMENT_TEXT = 20000;
+
+const TEXT_EXTENSIONS = /\.(txt|md|markdown|csv|tsv|json|log|xml|ya?ml|html?)$/i;
+
+export function attachmentKind(type: string, name: string): AttachmentKind | null {
+  if (type.startsWith('image/')) return 'image';
+  if (type === 'application/pdf' || /\.pdf$/i.test(name)) return 'pdf';
+  if (type.startsWith('text/') || type === 'application/json' || TEXT_EXTENSIONS.test(name)) return 'text';
+  return null;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function extractText(file: File, kind: AttachmentKind): Promise<string | undefined> {
+  if (kind === 'text') return file.text();
+  if (kind === 'pdf') return extractPdfText(await file.arrayBuffer());
+  return undefined;
+}
+
+/**
+ * Save picked files against a conversation, extracting text from PDFs and
+ * text files up front.
+ * @throws When a file is an unsupported type or too large
+ */
+export async function storeAttachments(conversationId: string, files: File[]): Promise<AttachmentMeta[]> {
+  const records: AttachmentRecord[] = [];
+  const metas: AttachmentMeta[] = [];
+  for (const file of files) {
+    const kind = attachmentKind(file.type, file.name);
+    if (!kind) throw new Error(`${file.name} is not an image, PDF or text file`);
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      throw new Error(`${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}`);
+    }
+    const id = `att-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const type = file.type || (kind === 'pdf' ? 'application/pdf' : 'text/plain');
+    const text = await extractText(file, kind);
+    records.push({ id, conversationId, name: file.name, type, size: file.size, blob: file, ...(text !== undefined && { text }) });
+    metas.push({ id, name: file.name, type, size: file.size, kind });
+  }
+  await saveAttachmentsToDb(records);
+  return metas;
+}
+
+/**
+ * Turn a message's files into what the model receives: extracted text and
+ * notes appended to the message, plus image data URLs when the model can
+ * see them.
+ */
+export async function buildAttachmentContent(
+  metas: AttachmentMeta[],
+  vision: boolean
+): Promise<{ text: string; images: string[] }> {
+  const records = new Map((await getAttachmentsFromDb(metas.map(m => m.id))).map(r => [r.id, r]));
+  const parts: string[] = [];
+  const images: string[] = [];
+  for (const meta of metas) {
+    const record = records.get(meta.id);
+    if (!record) {
+      parts.push(`[Attached file ${meta.name} is no longer available]`);
+    } else if (meta.kind === 'image') {
+      if (vision) images.push(await blobToDataUrl(record.blob));
+      else parts.push(`[Attached image ${meta.name}; this model can't view images]`);
+    } else if (record.text?.trim()) {
+      const text = record.text.length > MAX_ATTACHMENT_TEXT ? `${record.text.slice(0, MAX_ATTACHMENT_TEXT)}…` : record.text;
+      parts.push(`[Attached file: ${meta.name}]\n${text.trim()}`);
+    } else {
+      parts.push(`[Attached file ${meta.name}; no text could be extracted]`);
+    }
+  }
+  return { text: parts.join('\n\n'), images };
+}
+
+/** Backup form of an attachment, with the blob as a data URL */
+export async function exportAttachment(record: AttachmentRecord) {
+  const { blob, ...rest } = record;
+  return { ...rest, data: await blobToDataUrl(blob) };
+}
+
+export async function importAttachment(raw: Omit<AttachmentRecord, 'blob'> & { data: string }): Promise<AttachmentRecord> {
+  const { data, ...rest } = raw;
+  const blob = await (await fetch(data)).blob();
+  return { ...rest, blob };
+}
@@ -0,0 +1,330 @@
+import {
+  BACKUP_STORES,
+  getStoreRecords,
+  getStoreKeys,
+  restoreStoreRecords,
+  clearDerivedStores,
+  clearMemoryHistoryFromDb,
+  usageLogEntriesFor,
+  type BackupStore,
+  type AttachmentRecord,
+  type MessageRecord,
+  type DocumentChunk
+} from './indexedDb';
+import { secureStorage, flushVault, VAULT_KEYS } from './vault';
+import { openMemory, sealMemory, type MemoryItem } from './memoryUtils';
+import { exportAttachment, importAttachment } from './attachments';
+
+// Full-app backup: every Vivica localStorage key plus the user-data stores
+// of `vivica-db`, in one versioned JSON file. Caches (embeddings, search
+// index) are left out and rebuild after a restore. Storage goes through
+// `secureStorage`, so vault contents are exported decrypted and re-sealed
+// on restore. Attachment blobs travel as data URLs; document chunks go
+// without their vectors, which are recomputed on the next search.
+
+export const BACKUP_SCHEMA = 'vivica.backup';
+/** Bump when the layout changes and add a step to `migrateBackup` */
+export const BACKUP_VERSION = 2;
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BackupFile {
+  schema: typeof BACKUP_SCHEMA;
+  version: number;
+  createdAt: string;
+  /** False when API keys were stripped on export */
+  includesSecrets: boolean;
+  localStorage: Record<string, string>;
+  indexedDb: Partial<Record<BackupStore, unknown[]>>;
+}
+
+export type KeyChange = 'new' | 'overwrite' | 'same' | 'remove';
+
+export interface RestorePreview {
+  settings: { key: string; change: KeyChange }[];
+  stores: { name: BackupStore; added: number; overwritten: number; removed: number }[];
+}
+
+/** Keys outside the `vivica-` prefix that still belong to the app */
+const EXTRA_KEYS = ['openrouter-api-key', 'braveApiKey', 'activePersonaId'];
+/** Whole keys that only hold secrets */
+const SECRET_KEYS = ['openrouter-api-key', 'braveApiKey', 'vivica-api-keys'];
+/** Secret fields nested inside `vivica-settings` */
+const SECRET_SETTINGS = ['braveApiKey', 'apiKey1', 'apiKey2', 'apiKey3'];
+
+const isAppKey = (key: string) =>
+  !VAULT_KEYS.includes(key) && (key.startsWith('vivica-') || EXTRA_KEYS.includes(key));
+
+function parseJson<T>(raw: string | null | undefined, fallback: T): T {
+  try {
+    return raw ? JSON.parse(raw) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function readAppStorage(): Record<string, string> {
+  const entries: Record<string, string> = {};
+  for (let i = 0; i < secureStorage.length; i++) {
+    const key = secureStorage.key(i);
+    if (key && isAppKey(key)) entries[key] = secureStorage.getItem(key) ?? '';
+  }
+  return entries;
+}
+
+/** Remove API keys from a storage snapshot, including ones nested in JSON */
+function stripSecrets(storage: Record<string, string>): Record<string, string> {
+  const result = { ...storage };
+  SECRET_KEYS.forEach(key => delete result[key]);
+
+  if (result['vivica-settings']) {
+    const settings = parseJson<Record<string, unknown>>(result['vivica-settings'], {});
+    SECRET_SETTINGS.forEach(field => delete settings[field]);
+    result['vivica-settings'] = JSON.stringify(settings);
+  }
+  if (result['vivica-profiles']) {
+    const profiles = parseJson<Record<string, unknown>[]>(result['vivica-profiles'], []);
+    result['vivica-profiles'] = JSON.stringify(profiles.map(({ apiKey, ...rest }) => rest));
+  }
+  return result;
+}
+
+/**
+ * Keep the API keys already on this device when restoring a backup that
+ * was exported without them.
+ */
+function keepLocalSecrets(storage: Record<string, string>): Record<string, string> {
+  const result = { ...storage };
+  if (result['vivica-settings']) {
+    const current = parseJson<Record<string, unknown>>(localStorage.getItem('vivica-settings'), {});
+    const settings = parseJson<Record<string, unknown>>(result['vivica-settings'], {});
+    SECRET_SETTINGS.forEach(field => {
+      if (current[field] !== undefined) settings[field] = current[field];
+    });
+    result['vivica-settings'] = JSON.stringify(settings);
+  }
+  if (result['vivica-profiles']) {
+    const current = parseJson<{ id: string; apiKey?: string }[]>(secureStorage.getItem('vivica-profiles'), []);
+    const keys = new Map(current.map(p => [p.id, p.apiKey]));
+    const profiles = parseJson<{ id: string; apiKey?: string }[]>(result['vivica-profiles'], []);
+    result['vivica-profiles'] = JSON.stringify(profiles.map(p => keys.get(p.id) ? { ...p, apiKey: keys.get(p.id) } : p));
+  }
+  return result;
+}
+
+export async function createBackup(includeSecrets: boolean): Promise<BackupFile> {
+  const storage = readAppStorage();
+  const stores: Partial<Record<BackupStore, unknown[]>> = {};
+  for (const name of BACKUP_STORES) {
+    const records = await getStoreRecords(name);
+    stores[name] = name === 'memories'
+      ? await Promise.all((records as MemoryItem[]).map(openMemory))
+      : name === 'attachments'
+        ? await Promise.all((records as AttachmentRecord[]).map(exportAttachment))
+        : name === 'documentChunks'
+          ? (records as DocumentChunk[]).map(({ model, vector, ...chunk }) => chunk)
+          : records;
+  }
+  return {
+    schema: BACKUP_SCHEMA,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    includesSecrets: includeSecrets,
+    localStorage: includeSecrets ? storage : stripSecrets(storage),
+    indexedDb: stores,
+  };
+}
+
+export async function downloadBackup(includeSecrets: boolean): Promise<void> {
+  const backup = await createBackup(includeSecrets);
+  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `vivica-backup-${backup.createdAt.slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Bring data from older app versions up to the current layout. Steps key
+ * off the data they fix rather than the bundle version, so they are safe
+ * to run on every restore; the spend ledger step is the exception, since
+ * a promoted comparison's usage sits on both its message and the ledger.
+ * Legacy `vivica-conversations` is left in place; the app moves it into
+ * IndexedDB on the next launch.
+ */
+function migrateBackup(backup: BackupFile): BackupFile {
+  const storage = { ...backup.localStorage };
+
+  // Single `vivica-memory` key predates scoped memory
+  if (storage['vivica-memory']) {
+    storage['vivica-memory-global'] ??= storage['vivica-memory'];
+    delete storage['vivica-memory'];
+  }
+
+  // Fixed backup key fields predate the key manager
+  const settings = parseJson<Record<string, string>>(storage['vivica-settings'], {});
+  const legacyFields = ['apiKey1', 'apiKey2', 'apiKey3'].filter(f => f in settings);
+  if (legacyFields.length) {
+    if (!storage['vivica-api-keys']) {
+      const candidates = [
+        { label: 'Primary', key: storage['openrouter-api-key'] || '' },
+        ...legacyFields.map((f, i) => ({ label: `Backup ${i + 1}`, key: settings[f] || '' })),
+      ];
+      const seen = new Set<string>();
+      const list = candidates
+        .map(c => ({ ...c, key: c.key.trim() }))
+        .filter(c => c.key && !seen.has(c.key) && seen.add(c.key))
+        .map((c, i) => ({ id: `key-${Date.now()}-${i}`, ...c }));
+      if (list.length) storage['vivica-api-keys'] = JSON.stringify(list);
+    }
+    legacyFields.forEach(f => delete settings[f]);
+    storage['vivica-settings'] = JSON.stringify(settings);
+  }
+
+  // The Brave key was also saved inside the settings, where the vault can't reach it
+  if (settings.braveApiKey) {
+    storage['braveApiKey'] ??= settings.braveApiKey;
+    delete settings.braveApiKey;
+    storage['vivica-settings'] = JSON.stringify(settings);
+  }
+
+  // Version 1 kept spend only on messages, apart from unkept comparisons
+  let indexedDb = backup.indexedDb;
+  if (backup.version < 2 && indexedDb.messages) {
+    const messages = indexedDb.messages as MessageRecord[];
+    indexedDb = { ...indexedDb, usageLog: [...(indexedDb.usageLog || []), ...messages.flatMap(usageLogEntriesFor)] };
+  }
+
+  return { ...backup, version: BACKUP_VERSION, localStorage: storage, indexedDb };
+}
+
+/**
+ * Parse, validate and migrate a backup file.
+ * @throws With a readable reason when the file isn't a usable backup
+ */
+export function parseBackup(text: string): BackupFile {
+  let data;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  if (data?.schema !== BACKUP_SCHEMA) {
+    throw new Error('Not a Vivica backup');
+  }
+  if (typeof data.version !== 'number') {
+    throw new Error('Backup has no version');
+  }
+  if (data.version > BACKUP_VERSION) {
+    throw new Error('Backup was made by a newer version of Vivica');
+  }
+  const storage = data.localStorage;
+  if (!storage || typeof storage !== 'object' || Object.values(storage).some(v => typeof v !== 'string')) {
+    throw new Error('Backup settings are malformed');
+  }
+  const stores = data.indexedDb || {};
+  for (const [name, records] of Object.entries(stores)) {
+    if (!BACKUP_STORES.includes(name as BackupStore)) {
+      throw new Error(`Unknown data store "${name}"`);
+    }
+    if (!Array.isArray(records) || records.some(r => !r || typeof r !== 'object' || !('id' in r))) {
+      throw new Error(`Records in "${name}" are malformed`);
+    }
+  }
+  return migrateBackup({ ...data, includesSecrets: !!data.includesSecrets, indexedDb: stores });
+}
+
+/** Union two JSON lists by `field`, letting the backup's entries win */
+function mergeList(current: string | null, incoming: string, field: string): string {
+  const local = parseJson<Record<string, unknown>[]>(current, []);
+  const restored = parseJson<Record<string, unknown>[]>(incoming, []);
+  const restoredIds = new Set(restored.map(item => item[field]));
+  return JSON.stringify([...local.filter(item => !restoredIds.has(item[field])), ...restored]);
+}
+
+/** Lists merged entry by entry instead of overwritten in merge mode */
+const MERGED_LISTS: Record<string, string> = {
+  'vivica-profiles': 'id',
+  'vivica-api-keys': 'key',
+};
+
+/** Storage values the restore would write, after secret and merge handling */
+function incomingStorage(backup: BackupFile, mode: RestoreMode): Record<string, string> {
+  const storage = Object.fromEntries(
+    Object.entries(backup.localStorage).filter(([key]) => isAppKey(key))
+  );
+  if (mode === 'merge') {
+    for (const [key, field] of Object.entries(MERGED_LISTS)) {
+      if (storage[key]) storage[key] = mergeList(secureStorage.getItem(key), storage[key], field);
+    }
+  }
+  return backup.includesSecrets ? storage : keepLocalSecrets(storage);
+}
+
+/** Keys replace mode would delete; local secrets survive a secret-less backup */
+function removableKeys(backup: BackupFile, incoming: Record<string, string>): string[] {
+  return Object.keys(readAppStorage()).filter(key =>
+    !(key in incoming) && (backup.includesSecrets || !SECRET_KEYS.includes(key))
+  );
+}
+
+/** Work out what a restore would change, without writing anything */
+export async function previewRestore(backup: BackupFile, mode: RestoreMode): Promise<RestorePreview> {
+  const incoming = incomingStorage(backup, mode);
+  const settings: RestorePreview['settings'] = Object.entries(incoming).map(([key, value]) => {
+    const current = secureStorage.getItem(key);
+    return { key, change: current === null ? 'new' : current === value ? 'same' : 'overwrite' };
+  });
+  if (mode === 'replace') {
+    removableKeys(backup, incoming).forEach(key => settings.push({ key, change: 'remove' }));
+  }
+
+  const stores: RestorePreview['stores'] = [];
+  for (const name of BACKUP_STORES) {
+    const records = (backup.indexedDb[name] || []) as { id: IDBValidKey }[];
+    const existing = new Set((await getStoreKeys(name)).map(String));
+    const incomingIds = new Set(records.map(r => String(r.id)));
+    const overwritten = records.filter(r => existing.has(String(r.id))).length;
+    stores.push({
+      name,
+      added: records.length - overwritten,
+      overwritten,
+      removed: mode === 'replace' ? [...existing].filter(id => !incomingIds.has(id)).length : 0,
+    });
+  }
+  return { settings: settings.sort((a, b) => a.key.localeCompare(b.key)), stores };
+}
+
+/**
+ * Apply a backup. `merge` keeps local data the backup doesn't mention and
+ * lets the backup win on conflicts; `replace` makes the app match the
+ * backup exactly (apart from API keys a secret-less backup lacks).
+ */
+export async function restoreBackup(backup: BackupFile, mode: RestoreMode): Promise<void> {
+  const replace = mode === 'replace';
+  for (const name of BACKUP_STORES) {
+    let records = backup.indexedDb[name] || [];
+    if (name === 'memories') {
+      records = await Promise.all((records as MemoryItem[]).map(sealMemory));
+    }
+    if (name === 'attachments') {
+      records = await Promise.all((records as Parameters<typeof importAttachment>[0][]).map(importAttachment));
+    }
+    await restoreStoreRecords(name, records, replace);
+  }
+  if (replace) {
+    await clearDerivedStores();
+    // Undo entries would point at memories the backup just replaced
+    await clearMemoryHistoryFromDb();
+  }
+
+  const incoming = incomingStorage(backup, mode);
+  if (replace) {
+    removableKeys(backup, incoming).forEach(key => secureStorage.removeItem(key));
+  }
+  Object.entries(incoming).forEach(([key, value]) => secureStorage.setItem(key, value));
+  // Callers reload straight after; let the vault finish writing first
+  await flushVault();
+}
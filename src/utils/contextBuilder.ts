@@ -0,0 +1,86 @@
+import type { ChatMessage } from "@/services/chatService";
+import { estimateTokens } from "./tokenUtils";
+
+// Fits outgoing chat history into the model's context window. The system
+// prompt and the newest message always go out; older turns are dropped from
+// the front until the estimate fits, leaving room for the reply.
+
+/** Window assumed when the model's context length is unknown */
+export const DEFAULT_CONTEXT_LENGTH = 8192;
+/** Role markers and separators the API adds around each message */
+const MESSAGE_OVERHEAD = 4;
+
+export interface ContextWindow {
+  /** Model context length in tokens */
+  contextLength?: number;
+  /** Tokens reserved for the reply (the profile's maxTokens) */
+  maxTokens?: number;
+}
+
+export interface BuiltContext {
+  messages: ChatMessage[];
+  /** Number of history messages left out, counted from the oldest */
+  omitted: number;
+  /** Estimated prompt size of `messages` */
+  promptTokens: number;
+}
+
+export function estimateMessageTokens(message: ChatMessage): number {
+  return estimateTokens(message.content) + MESSAGE_OVERHEAD;
+}
+
+function omissionNote(count: number): string {
+  return `\n\n(${count} earlier message${count === 1 ? ' was' : 's were'} omitted to fit the context window.)`;
+}
+
+/**
+ * Build the message list for a request.
+ * @param systemPrompt - Prompt sent first; skipped when empty
+ * @param history - Conversation turns, oldest first
+ * @param window - Context length and reply reservation of the target model
+ */
+export function buildContext(
+  systemPrompt: string,
+  history: ChatMessage[],
+  window: ContextWindow = {}
+): BuiltContext {
+  const contextLength = window.contextLength || DEFAULT_CONTEXT_LENGTH;
+  const reserved = Math.min(window.maxTokens || 0, Math.floor(contextLength / 2));
+  // Leave space for the omission note in case it's needed
+  const budget = contextLength - reserved - estimateTokens(omissionNote(history.length));
+
+  const system: ChatMessage | null = systemPrompt
+    ? { role: 'system', content: systemPrompt }
+    : null;
+  let used = system ? estimateMessageTokens(system) : 0;
+
+  let start = history.length;
+  while (start > 0) {
+    const cost = estimateMessageTokens(history[start - 1]);
+    // The newest message is sent even when it alone exceeds the budget
+    if (start < history.length && used + cost > budget) break;
+    used += cost;
+    start--;
+  }
+  // Some providers reject a history that opens with an assistant turn
+  while (start > 0 && start < history.length - 1 && history[start].role === 'assistant') {
+    used -= estimateMessageTokens(history[start]);
+    start++;
+  }
+
+  const kept = history.slice(start);
+  const omitted = start;
+  const messages: ChatMessage[] = [];
+  if (system) {
+    messages.push(omitted
+      ? { ...system, content: system.content + omissionNote(omitted) }
+      : system);
+  }
+  messages.push(...kept);
+
+  return {
+    messages,
+    omitted,
+    promptTokens: messages.reduce((sum, m) => sum + estimateMessageTokens(m), 0),
+  };
+}
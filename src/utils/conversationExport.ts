@@ -0,0 +1,447 @@
+import {
+  loadConversationList,
+  loadConversationTree,
+  saveConversation
+} from './conversationUtils';
+import { getAllMessageIdsFromDb } from './indexedDb';
+import { secureStorage } from './vault';
+import type { MessageUsage } from './usageUtils';
+import type { AttachmentMeta } from './attachments';
+
+interface Message {
+  id: string;
+  content: string;
+  role: 'user' | 'assistant';
+  timestamp: Date;
+  failed?: boolean;
+  stopped?: boolean;
+  profileId?: string;
+  isCodeResponse?: boolean;
+  codeContent?: string;
+  codeModel?: string;
+  parentId?: string | null;
+  usage?: MessageUsage[];
+  attachments?: AttachmentMeta[];
+}
+
+interface Conversation {
+  id: string;
+  title: string;
+  messages: Message[];
+  lastMessage?: string;
+  timestamp: Date;
+  autoTitled?: boolean;
+  summary?: string;
+  summarizedCount?: number;
+  branches?: Message[];
+}
+
+// Conversation export in three formats: Markdown and HTML transcripts for
+// reading, and a versioned JSON document that can be imported back.
+
+export type ExportFormat = 'markdown' | 'json' | 'html';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: string; mime: string }[] = [
+  { value: 'markdown', label: 'Markdown', extension: 'md', mime: 'text/markdown' },
+  { value: 'json', label: 'JSON', extension: 'json', mime: 'application/json' },
+  { value: 'html', label: 'HTML', extension: 'html', mime: 'text/html' },
+];
+
+export const EXPORT_SCHEMA = 'vivica.conversations';
+/**
+ * Bump when the JSON layout changes; import accepts this version and older.
+ * Version 2 added the message tree (`parentId`, `branches`), usage records
+ * and attachment references.
+ */
+export const EXPORT_VERSION = 2;
+
+export interface ExportedMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+  profileId?: string;
+  failed?: boolean;
+  stopped?: boolean;
+  isCodeResponse?: boolean;
+  codeContent?: string;
+  codeModel?: string;
+  /** Message this one answers or follows; unset in version 1 files */
+  parentId?: string | null;
+  usage?: MessageUsage[];
+  /** File details only; the files themselves stay on the exporting device */
+  attachments?: AttachmentMeta[];
+}
+
+export interface ExportedConversation {
+  id: string;
+  title: string;
+  timestamp: string;
+  autoTitled?: boolean;
+  summary?: string;
+  summarizedCount?: number;
+  /** Active path, oldest first */
+  messages: ExportedMessage[];
+  /** Alternatives to messages on the path, from edits and regenerations */
+  branches?: ExportedMessage[];
+}
+
+export interface ConversationExport {
+  schema: typeof EXPORT_SCHEMA;
+  version: number;
+  exportedAt: string;
+  conversations: ExportedConversation[];
+}
+
+export interface ImportResult {
+  imported: number;
+  /** Conversations already present unchanged */
+  skipped: number;
+}
+
+function profileNames(): Record<string, string> {
+  try {
+    const profiles: { id: string; name: string }[] = JSON.parse(secureStorage.getItem('vivica-profiles') || '[]');
+    return Object.fromEntries(profiles.map(p => [p.id, p.name]));
+  } catch {
+    return {};
+  }
+}
+
+function speaker(message: Message, names: Record<string, string>): string {
+  if (message.role === 'user') return 'You';
+  return (message.profileId && names[message.profileId]) || 'Vivica';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** Fill in message history, branches included, for conversations only loaded as headers */
+async function withMessages(conversations: Conversation[]): Promise<Conversation[]> {
+  return Promise.all(conversations.map(async conv =>
+    conv.messages.length ? conv : { ...conv, ...await loadConversationTree(conv.id) }
+  ));
+}
+
+export function toMarkdown(conversations: Conversation[]): string {
+  const names = profileNames();
+  return conversations.map(conv => {
+    const lines = [`# ${conv.title}`, '', `_${new Date(conv.timestamp).toLocaleString()}_`, ''];
+    if (conv.summary) {
+      lines.push('> **Summary of earlier messages**', ...conv.summary.split('\n').map(l => `> ${l}`), '');
+    }
+    for (const msg of conv.messages) {
+      lines.push(`**${speaker(msg, names)}** · ${new Date(msg.timestamp).toLocaleString()}`, '');
+      if (msg.codeContent) {
+        lines.push(`_Code · ${msg.codeModel || 'code model'}_`, '', msg.codeContent, '');
+      }
+      lines.push(msg.content, '');
+    }
+    return lines.join('\n');
+  }).join('\n---\n\n');
+}
+
+function toExportedMessage(msg: Message): ExportedMessage {
+  return {
+    id: msg.id,
+    role: msg.role,
+    content: msg.content,
+    timestamp: new Date(msg.timestamp).toISOString(),
+    profileId: msg.profileId,
+    failed: msg.failed,
+    stopped: msg.stopped,
+    isCodeResponse: msg.isCodeResponse,
+    codeContent: msg.codeContent,
+    codeModel: msg.codeModel,
+    parentId: msg.parentId,
+    usage: msg.usage,
+    attachments: msg.attachments,
+  };
+}
+
+export function toJson(conversations: Conversation[]): string {
+  const data: ConversationExport = {
+    schema: EXPORT_SCHEMA,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversations: conversations.map(conv => ({
+      id: conv.id,
+      title: conv.title,
+      timestamp: new Date(conv.timestamp).toISOString(),
+      autoTitled: conv.autoTitled,
+      summary: conv.summary,
+      summarizedCount: conv.summarizedCount,
+      messages: conv.messages.map(toExportedMessage),
+      branches: conv.branches?.length ? conv.branches.map(toExportedMessage) : undefined,
+    })),
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+export function toHtml(conversations: Conversation[]): string {
+  const names = profileNames();
+  const body = conversations.map(conv => {
+    const messages = conv.messages.map(msg => `
+      <div class="msg ${msg.role}">
+        <div class="meta">${escapeHtml(speaker(msg, names))} · ${escapeHtml(new Date(msg.timestamp).toLocaleString())}</div>
+        ${msg.codeContent ? `<div class="code-label">Code · ${escapeHtml(msg.codeModel || 'code model')}</div><pre>${escapeHtml(msg.codeContent)}</pre>` : ''}
+        <div class="text">${escapeHtml(msg.content)}</div>
+      </div>`).join('');
+    return `
+    <section>
+      <h1>${escapeHtml(conv.title)}</h1>
+      <p class="date">${escapeHtml(new Date(conv.timestamp).toLocaleString())}</p>
+      ${conv.summary ? `<blockquote><strong>Summary of earlier messages</strong><div class="text">${escapeHtml(conv.summary)}</div></blockquote>` : ''}
+      ${messages}
+    </section>`;
+  }).join('\n');
+
+  const title = conversations.length === 1 ? conversations[0].title : 'Vivica conversations';
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; background: #111; color: #eee; max-width: 760px; margin: 0 auto; padding: 24px; }
+    section { margin-bottom: 48px; }
+    h1 { font-size: 1.4rem; margin-bottom: 4px; }
+    .date, .meta, .code-label { color: #999; font-size: 0.8rem; }
+    .msg { border-radius: 12px; padding: 12px 16px; margin: 12px 0; }
+    .msg.user { background: #2a2a3a; margin-left: 15%; }
+    .msg.assistant { background: #1e1e1e; margin-right: 15%; }
+    .text { white-space: pre-wrap; margin-top: 6px; line-height: 1.5; }
+    pre { background: #000; padding: 12px; border-radius: 8px; overflow-x: auto; }
+    blockquote { border-left: 3px solid #555; margin: 12px 0; padding-left: 12px; color: #bbb; }
+  </style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+function download(content: string, filename: string, mime: string) {
+  const blob = new Blob([content], { type: mime });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'conversation';
+}
+
+/**
+ * Download one or more conversations. Headers without loaded messages
+ * have their history read from IndexedDB first.
+ */
+export async function exportConversations(conversations: Conversation[], format: ExportFormat): Promise<void> {
+  const full = await withMessages(conversations);
+  const { extension, mime } = EXPORT_FORMATS.find(f => f.value === format)!;
+  const content = format === 'markdown' ? toMarkdown(full) : format === 'html' ? toHtml(full) : toJson(full);
+  const date = new Date().toISOString().slice(0, 10);
+  const name = full.length === 1 ? slugify(full[0].title) : `vivica-conversations-${date}`;
+  download(content, `${name}.${extension}`, mime);
+}
+
+/** Export every stored conversation */
+export async function exportAllConversations(format: ExportFormat): Promise<number> {
+  const list = await loadConversationList();
+  if (list.length) await exportConversations(list, format);
+  return list.length;
+}
+
+type RawObject = Record<string, unknown>;
+
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isObject = (v: unknown): v is RawObject => !!v && typeof v === 'object' && !Array.isArray(v);
+const isDate = (v: unknown): v is string => isString(v) && !isNaN(Date.parse(v));
+
+/** Text field that may be missing or null; anything else is rejected */
+function optionalString(raw: RawObject, field: string, where: string): string | undefined {
+  const value = raw[field];
+  if (value === undefined || value === null) return undefined;
+  if (!isString(value)) throw new Error(`${where}: ${field} must be text`);
+  return value;
+}
+
+const optionalFlag = (raw: RawObject, field: string) => raw[field] === true || undefined;
+const isCount = (v: unknown): v is number => typeof v === 'number' && v >= 0;
+
+function validateUsage(raw: unknown, where: string): MessageUsage {
+  if (!isObject(raw)) throw new Error(`${where}: usage must be a list of records`);
+  const { model, promptTokens, completionTokens, cost } = raw;
+  if (!isString(model) || !isCount(promptTokens) || !isCount(completionTokens)) {
+    throw new Error(`${where}: usage needs a model and token counts`);
+  }
+  return {
+    model,
+    promptTokens,
+    completionTokens,
+    cost: typeof cost === 'number' ? cost : undefined,
+    estimated: optionalFlag(raw, 'estimated'),
+    key: optionalString(raw, 'key', where),
+  };
+}
+
+function validateAttachment(raw: unknown, where: string): AttachmentMeta {
+  if (!isObject(raw)) throw new Error(`${where}: attachments must be a list of files`);
+  const { id, name, type, size, kind } = raw;
+  if (!isString(id) || !isString(name) || !isString(type) || !isCount(size)
+    || (kind !== 'image' && kind !== 'pdf' && kind !== 'text')) {
+    throw new Error(`${where}: invalid attachment`);
+  }
+  return { id, name, type, size, kind };
+}
+
+function optionalList<T>(raw: RawObject, field: string, where: string, validate: (item: unknown, where: string) => T): T[] | undefined {
+  const value = raw[field];
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) throw new Error(`${where}: ${field} must be a list`);
+  return value.map(item => validate(item, where));
+}
+
+function validateMessage(raw: unknown, where: string): ExportedMessage {
+  if (!isObject(raw)) throw new Error(`${where}: not an object`);
+  const { id, role, content, timestamp } = raw;
+  if (!isString(id) || !id) throw new Error(`${where}: missing id`);
+  if (role !== 'user' && role !== 'assistant') throw new Error(`${where}: invalid role`);
+  if (!isString(content)) throw new Error(`${where}: content must be text`);
+  if (!isDate(timestamp)) throw new Error(`${where}: invalid timestamp`);
+  // null marks the first message; undefined a version 1 file without links
+  const parentId = raw.parentId === null ? null : optionalString(raw, 'parentId', where);
+  return {
+    id,
+    role,
+    content,
+    timestamp,
+    profileId: optionalString(raw, 'profileId', where),
+    failed: optionalFlag(raw, 'failed'),
+    stopped: optionalFlag(raw, 'stopped'),
+    isCodeResponse: optionalFlag(raw, 'isCodeResponse'),
+    codeContent: optionalString(raw, 'codeContent', where),
+    codeModel: optionalString(raw, 'codeModel', where),
+    parentId,
+    usage: optionalList(raw, 'usage', where, validateUsage),
+    attachments: optionalList(raw, 'attachments', where, validateAttachment),
+  };
+}
+
+function validateConversation(raw: unknown, index: number): ExportedConversation {
+  const where = `Conversation ${index + 1}`;
+  if (!isObject(raw)) throw new Error(`${where}: not an object`);
+  const { id, title, timestamp, messages, branches, summarizedCount } = raw;
+  if (!isString(id) || !id) throw new Error(`${where}: missing id`);
+  if (!isString(title)) throw new Error(`${where}: missing title`);
+  if (!isDate(timestamp)) throw new Error(`${where}: invalid timestamp`);
+  if (!Array.isArray(messages)) throw new Error(`${where}: messages must be a list`);
+  if (branches !== undefined && branches !== null && !Array.isArray(branches)) {
+    throw new Error(`${where}: branches must be a list`);
+  }
+  return {
+    id,
+    title,
+    timestamp,
+    autoTitled: typeof raw.autoTitled === 'boolean' ? raw.autoTitled : undefined,
+    summary: optionalString(raw, 'summary', where),
+    summarizedCount: typeof summarizedCount === 'number' ? summarizedCount : undefined,
+    messages: messages.map((m, i) => validateMessage(m, `${where}, message ${i + 1}`)),
+    branches: Array.isArray(branches) ? branches.map((m, i) => validateMessage(m, `${where}, branch message ${i + 1}`)) : undefined,
+  };
+}
+
+/**
+ * Parse and validate a JSON export.
+ * @throws With a readable reason when the file doesn't match the schema
+ */
+export function parseConversationExport(text: string): ConversationExport {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  if (!isObject(data) || data.schema !== EXPORT_SCHEMA) {
+    throw new Error('Not a Vivica conversation export');
+  }
+  const { version, exportedAt, conversations } = data;
+  if (typeof version !== 'number' || version > EXPORT_VERSION) {
+    throw new Error(`Unsupported export version ${version}`);
+  }
+  if (!Array.isArray(conversations)) {
+    throw new Error('Export has no conversations list');
+  }
+  return {
+    schema: EXPORT_SCHEMA,
+    version,
+    exportedAt: isString(exportedAt) ? exportedAt : '',
+    conversations: conversations.map(validateConversation),
+  };
+}
+
+/**
+ * Import a JSON export next to existing chats. Conversations already
+ * stored unchanged are skipped; anything whose conversation or message
+ * ids are taken gets fresh ids so nothing is overwritten, and replies are
+ * pointed at the renamed messages. Attachments come back as references
+ * only, so their files show as missing on another device.
+ */
+export async function importConversations(text: string): Promise<ImportResult> {
+  const data = parseConversationExport(text);
+  const existing = new Map((await loadConversationList()).map(c => [c.id, c]));
+  const messageIds = new Set(await getAllMessageIdsFromDb());
+  const freshId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+  let imported = 0;
+  let skipped = 0;
+  for (const conv of data.conversations) {
+    const current = existing.get(conv.id);
+    if (current && current.timestamp.toISOString() === new Date(conv.timestamp).toISOString()) {
+      skipped++;
+      continue;
+    }
+
+    const id = current ? freshId() : conv.id;
+    const renamed = new Map<string, string>();
+    for (const msg of [...conv.messages, ...(conv.branches || [])]) {
+      const msgId = messageIds.has(msg.id) ? freshId() : msg.id;
+      messageIds.add(msgId);
+      renamed.set(msg.id, msgId);
+    }
+    const toMessage = (msg: ExportedMessage): Message => ({
+      ...msg,
+      id: renamed.get(msg.id) || msg.id,
+      parentId: msg.parentId ? renamed.get(msg.parentId) || msg.parentId : msg.parentId,
+      timestamp: new Date(msg.timestamp),
+    });
+    const messages = conv.messages.map(toMessage);
+    const last = messages[messages.length - 1];
+
+    await saveConversation({
+      id,
+      title: conv.title,
+      messages,
+      branches: conv.branches?.map(toMessage),
+      lastMessage: last ? last.content || last.codeContent : undefined,
+      timestamp: new Date(conv.timestamp),
+      autoTitled: conv.autoTitled ?? true,
+      summary: conv.summary || undefined,
+      summarizedCount: conv.summary ? conv.summarizedCount : undefined,
+    });
+    imported++;
+  }
+
+  window.dispatchEvent(new Event('conversationsUpdated'));
+  return { imported, skipped };
+}
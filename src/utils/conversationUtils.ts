@@ -0,0 +1,228 @@
+import {
+  saveConversationToDb,
+  getConversationFromDb,
+  getAllConversationsFromDb,
+  deleteConversationFromDb,
+  clearAllConversationsFromDb,
+  saveMessageToDb,
+  saveMessagesToDb,
+  getMessagesForConversation,
+  type ConversationRecord,
+  type MessageRecord
+} from './indexedDb';
+import { invalidateSearchIndex } from '@/services/messageSearch';
+import { linkLegacyMessages, splitBranches } from './messageTree';
+import type { MessageUsage } from './usageUtils';
+import type { ToolStep } from '@/services/toolRegistry';
+import type { AttachmentMeta } from './attachments';
+import type { Citation } from '@/services/documentService';
+
+interface Message {
+  id: string;
+  content: string;
+  role: 'user' | 'assistant';
+  timestamp: Date;
+  failed?: boolean;
+  stopped?: boolean;
+  profileId?: string;
+  isCodeResponse?: boolean;
+  codeContent?: string;
+  codeModel?: string;
+  parentId?: string | null;
+  usage?: MessageUsage[];
+  toolSteps?: ToolStep[];
+  attachments?: AttachmentMeta[];
+  citations?: Citation[];
+}
+
+interface Conversation {
+  id: string;
+  title: string;
+  messages: Message[];
+  lastMessage?: string;
+  timestamp: Date;
+  autoTitled?: boolean;
+  summary?: string;
+  summarizedCount?: number;
+  branches?: Message[];
+}
+
+// Conversations live in IndexedDB: one header row per chat plus one row per
+// message. Headers are loaded up front for the sidebar, message history is
+// only read when a chat is opened.
+
+const LEGACY_KEY = 'vivica-conversations';
+
+function toConversationRecord(conv: Conversation): ConversationRecord {
+  return {
+    id: conv.id,
+    title: conv.title,
+    lastMessage: conv.lastMessage,
+    timestamp: conv.timestamp.toISOString(),
+    autoTitled: conv.autoTitled || false,
+    summary: conv.summary,
+    summarizedCount: conv.summarizedCount,
+    activeLeafId: conv.messages[conv.messages.length - 1]?.id,
+  };
+}
+
+function toMessageRecord(conversationId: string, msg: Message, position: number): MessageRecord {
+  return {
+    id: msg.id,
+    conversationId,
+    position,
+    content: msg.content,
+    role: msg.role,
+    timestamp: new Date(msg.timestamp).toISOString(),
+    failed: msg.failed,
+    stopped: msg.stopped,
+    profileId: msg.profileId,
+    isCodeResponse: msg.isCodeResponse,
+    codeContent: msg.codeContent,
+    codeModel: msg.codeModel,
+    parentId: msg.parentId,
+    usage: msg.usage,
+    toolSteps: msg.toolSteps,
+    attachments: msg.attachments,
+    citations: msg.citations,
+  };
+}
+
+function fromMessageRecord(record: MessageRecord): Message {
+  const { conversationId, position, ...rest } = record;
+  return { ...rest, timestamp: new Date(record.timestamp) };
+}
+
+/**
+ * Moves chats saved by older versions under `vivica-conversations` into
+ * IndexedDB. The legacy key is only removed after every write succeeded,
+ * so a failed migration is retried on the next launch.
+ */
+export async function migrateLegacyConversations(): Promise<void> {
+  const saved = localStorage.getItem(LEGACY_KEY);
+  if (!saved) return;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let parsed: any[];
+  try {
+    parsed = JSON.parse(saved);
+  } catch {
+    console.warn('Discarding unreadable legacy conversations');
+    localStorage.removeItem(LEGACY_KEY);
+    return;
+  }
+
+  for (const conv of parsed) {
+    const conversation: Conversation = {
+      ...conv,
+      timestamp: new Date(conv.timestamp),
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      messages: (conv.messages || []).map((msg: any) => ({
+        ...msg,
+        timestamp: new Date(msg.timestamp)
+      })),
+    };
+    await saveConversation(conversation);
+  }
+
+  localStorage.removeItem(LEGACY_KEY);
+}
+
+/** Conversation headers, newest first, with empty message lists */
+export async function loadConversationList(): Promise<Conversation[]> {
+  const records = await getAllConversationsFromDb();
+  return records.map(r => ({
+    ...r,
+    timestamp: new Date(r.timestamp),
+    messages: [],
+    autoTitled: r.autoTitled || false,
+  }));
+}
+
+/**
+ * Load every stored message of a conversation, split into the active path
+ * and the alternative branches. Histories saved before branching get their
+ * parent links written back on first load.
+ */
+export async function loadConversationTree(conversationId: string): Promise<{ messages: Message[]; branches: Message[] }> {
+  const [records, header] = await Promise.all([
+    getMessagesForConversation(conversationId),
+    getConversationFromDb(conversationId),
+  ]);
+  const linked = linkLegacyMessages(records);
+  if (records.some(r => r.parentId === undefined)) {
+    await saveMessagesToDb(linked);
+  }
+  return splitBranches(linked.map(fromMessageRecord), header?.activeLeafId);
+}
+
+/** Persist only the header fields (title, preview, timestamp) */
+export async function saveConversationMeta(conv: Conversation): Promise<void> {
+  await saveConversationToDb(toConversationRecord(conv));
+}
+
+/** Rename a stored conversation without touching its messages */
+export async function updateConversationTitle(id: string, title: string): Promise<void> {
+  const record = await getConversationFromDb(id);
+  if (!record) return;
+  await saveConversationToDb({ ...record, title, autoTitled: true });
+}
+
+/**
+ * Store the rolling summary of a conversation. An empty summary clears it,
+ * so the covered messages are replayed in full again.
+ */
+export async function updateConversationSummary(
+  id: string,
+  summary: string,
+  summarizedCount: number
+): Promise<void> {
+  const record = await getConversationFromDb(id);
+  if (!record) return;
+  await saveConversationToDb({
+    ...record,
+    summary: summary || undefined,
+    summarizedCount: summary ? summarizedCount : undefined,
+  });
+}
+
+/**
+ * Persist one message at its position in the conversation. Used while
+ * chatting so a new reply never rewrites the whole history.
+ */
+export async function saveConversationMessage(conv: Conversation, msg: Message): Promise<void> {
+  const position = conv.messages.findIndex(m => m.id === msg.id);
+  await Promise.all([
+    saveConversationToDb(toConversationRecord(conv)),
+    saveMessageToDb(toMessageRecord(conv.id, msg, position === -1 ? conv.messages.length : position)),
+  ]);
+  invalidateSearchIndex();
+}
+
+/** Persist the header and every message of a conversation, branches included */
+export async function saveConversation(conv: Conversation): Promise<void> {
+  const messages = linkLegacyMessages(conv.messages);
+  const byId = new Map([...messages, ...(conv.branches || [])].map(m => [m.id, m]));
+  // Branch messages are stored at their depth in the tree, like path messages
+  const depthOf = (msg: Message): number => {
+    const parent = msg.parentId ? byId.get(msg.parentId) : undefined;
+    return parent ? depthOf(parent) + 1 : 0;
+  };
+  await saveConversationToDb(toConversationRecord(conv));
+  await saveMessagesToDb([
+    ...messages.map((m, i) => toMessageRecord(conv.id, m, i)),
+    ...(conv.branches || []).map(m => toMessageRecord(conv.id, m, depthOf(m))),
+  ]);
+  invalidateSearchIndex();
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  await deleteConversationFromDb(id);
+  invalidateSearchIndex();
+}
+
+export async function clearAllConversations(): Promise<void> {
+  await clearAllConversationsFromDb();
+  invalidateSearchIndex();
+  localStorage.removeItem(LEGACY_KEY);
+}
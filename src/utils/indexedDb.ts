@@ -1,12 +1,37 @@
-import { openDB, type DBSchema, type IDBPDatabase } from 'idb';
+import { openDB, type DBSchema, type IDBPDatabase, type IDBPTransaction } from 'idb';
+import type { MessageUsage } from './usageUtils';
+import type { ToolStep } from '@/services/toolRegistry';
+import type { AttachmentMeta } from './attachments';
+import type { Citation } from '@/services/documentService';
+import type { MemoryProfile } from './memoryUtils';
 
-interface MemoryEntry {
+export interface MemoryEntry {
   id: string;
+  /** 'profile' records hold the structured Memory form fields for one scope */
+  kind?: 'fact' | 'profile';
   content: string;
   scope: 'global' | 'profile';
   profileId?: string;
   createdAt: string;
   tags: string[];
+  pinned?: boolean;
+  fields?: MemoryProfile;
+  importance?: number;
+  lastUsedAt?: string;
+  useCount?: number;
+  /** Sealed content when the vault is on; `content` is then empty */
+  encrypted?: { iv: string; data: string };
+}
+
+/** One change made by memory consolidation or `/forget`, kept so it can be undone */
+export interface MemoryHistoryEntry {
+  id: string;
+  action: 'merge' | 'condense' | 'forget';
+  createdAt: string;
+  /** Records as they were before the change, sealed when the vault is on */
+  before: MemoryEntry[];
+  /** Record that replaced them; unset when they were forgotten */
+  after?: MemoryEntry;
 }
 
 interface WelcomeMessage {
@@ -15,6 +40,131 @@ interface WelcomeMessage {
   createdAt: string;
 }
 
+export interface ConversationRecord {
+  id: string;
+  title: string;
+  lastMessage?: string;
+  timestamp: string;
+  autoTitled?: boolean;
+  /** Rolling summary standing in for the oldest messages */
+  summary?: string;
+  summarizedCount?: number;
+  /** Last message of the selected branch; the newest path when unset */
+  activeLeafId?: string;
+}
+
+export interface MessageRecord {
+  id: string;
+  conversationId: string;
+  /** Depth within the conversation tree, used to restore ordering */
+  position: number;
+  /** Message this one follows; null for the first, unset for pre-branching records */
+  parentId?: string | null;
+  content: string;
+  role: 'user' | 'assistant';
+  timestamp: string;
+  failed?: boolean;
+  stopped?: boolean;
+  profileId?: string;
+  isCodeResponse?: boolean;
+  codeContent?: string;
+  codeModel?: string;
+  /** One entry per request that produced this reply */
+  usage?: MessageUsage[];
+  toolSteps?: ToolStep[];
+  attachments?: AttachmentMeta[];
+  citations?: Citation[];
+}
+
+/** File attached to a message; the message only keeps its metadata */
+export interface AttachmentRecord {
+  id: string;
+  conversationId: string;
+  name: string;
+  /** MIME type */
+  type: string;
+  size: number;
+  blob: Blob;
+  /** Text pulled out of PDFs and text files for models that can't take the file */
+  text?: string;
+}
+
+/** Reference document in the knowledge base; its text lives in chunks */
+export interface DocumentRecord {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  scope: 'global' | 'profile';
+  profileId?: string;
+  chunkCount: number;
+  createdAt: string;
+}
+
+/** Retrieval-sized piece of a document */
+export interface DocumentChunk {
+  /** `${documentId}:${index}` */
+  id: string;
+  documentId: string;
+  /** Position in the document, from 0 */
+  index: number;
+  text: string;
+  /** Embedding model of `vector`; unset until the chunk is first searched */
+  model?: string;
+  vector?: number[];
+}
+
+/** Reminder the persona delivers when it comes due */
+export interface ReminderRecord {
+  id: string;
+  /** What to be reminded about, e.g. "call the dentist" */
+  text: string;
+  /** ISO time the reminder is due */
+  dueAt: string;
+  /** Profile that was active when it was set */
+  profileId?: string;
+  createdAt: string;
+  /** pending until its notification is shown, delivered once opened as a chat */
+  status: 'pending' | 'fired' | 'delivered';
+  /** Chat the reminder was delivered in */
+  conversationId?: string;
+}
+
+export interface MemoryEmbedding {
+  memoryId: string;
+  /** Embedding model id, e.g. `local-hash-256` or a provider model */
+  model: string;
+  /** Hash of the memory text the vector was computed from */
+  contentHash: string;
+  vector: number[];
+}
+
+/**
+ * One request's spend in the ledger the usage dashboard reads. Entries are
+ * kept when their conversation is deleted, so past spend stays put.
+ */
+export interface UsageLogEntry extends MessageUsage {
+  id: string;
+  conversationId: string;
+  profileId?: string;
+  timestamp: string;
+}
+
+/** Forward entry of the message search index: which terms a message holds */
+export interface SearchDoc {
+  messageId: string;
+  conversationId: string;
+  /** Hash of the indexed text, to spot edited messages */
+  hash: string;
+  terms: string[];
+}
+
+/** Inverted entry of the message search index */
+export interface SearchTerm {
+  term: string;
+  messageIds: string[];
+}
+
 interface VivicaDb extends DBSchema {
   memories: {
     key: string;
@@ -25,14 +175,63 @@ interface VivicaDb extends DBSchema {
     key: number;
     value: WelcomeMessage;
   };
+  conversations: {
+    key: string;
+    value: ConversationRecord;
+    indexes: { 'by-timestamp': string };
+  };
+  messages: {
+    key: string;
+    value: MessageRecord;
+    indexes: { 'by-conversation': string };
+  };
+  memoryEmbeddings: {
+    key: string;
+    value: MemoryEmbedding;
+  };
+  searchDocs: {
+    key: string;
+    value: SearchDoc;
+  };
+  searchTerms: {
+    key: string;
+    value: SearchTerm;
+  };
+  attachments: {
+    key: string;
+    value: AttachmentRecord;
+    indexes: { 'by-conversation': string };
+  };
+  documents: {
+    key: string;
+    value: DocumentRecord;
+  };
+  documentChunks: {
+    key: string;
+    value: DocumentChunk;
+    indexes: { 'by-document': string };
+  };
+  memoryHistory: {
+    key: string;
+    value: MemoryHistoryEntry;
+  };
+  reminders: {
+    key: string;
+    value: ReminderRecord;
+  };
+  usageLog: {
+    key: string;
+    value: UsageLogEntry;
+    indexes: { 'by-conversation': string };
+  };
 }
 
 let dbPromise: Promise<IDBPDatabase<VivicaDb>> | null = null;
 
 function getDb() {
   if (!dbPromise) {
-    dbPromise = openDB<VivicaDb>('vivica-db', 1, {
-      upgrade(db) {
+    dbPromise = openDB<VivicaDb>('vivica-db', 10, {
+      upgrade(db, oldVersion, _newVersion, tx) {
         if (!db.objectStoreNames.contains('memories')) {
           const store = db.createObjectStore('memories', { keyPath: 'id' });
           store.createIndex('by-profile', 'profileId');
@@ -40,6 +239,59 @@ function getDb() {
         if (!db.objectStoreNames.contains('welcomeMessages')) {
           db.createObjectStore('welcomeMessages', { keyPath: 'id', autoIncrement: true });
         }
+        // v2: chats moved out of localStorage
+        if (!db.objectStoreNames.contains('conversations')) {
+          const store = db.createObjectStore('conversations', { keyPath: 'id' });
+          store.createIndex('by-timestamp', 'timestamp');
+        }
+        if (!db.objectStoreNames.contains('messages')) {
+          const store = db.createObjectStore('messages', { keyPath: 'id' });
+          store.createIndex('by-conversation', 'conversationId');
+        }
+        // v3: vectors for semantic memory retrieval
+        if (!db.objectStoreNames.contains('memoryEmbeddings')) {
+          db.createObjectStore('memoryEmbeddings', { keyPath: 'memoryId' });
+        }
+        // v4: full-text index over messages, maintained by the search worker
+        if (!db.objectStoreNames.contains('searchDocs')) {
+          db.createObjectStore('searchDocs', { keyPath: 'messageId' });
+        }
+        if (!db.objectStoreNames.contains('searchTerms')) {
+          db.createObjectStore('searchTerms', { keyPath: 'term' });
+        }
+        // v5: files attached to messages
+        if (!db.objectStoreNames.contains('attachments')) {
+          const store = db.createObjectStore('attachments', { keyPath: 'id' });
+          store.createIndex('by-conversation', 'conversationId');
+        }
+        // v6: document knowledge base
+        if (!db.objectStoreNames.contains('documents')) {
+          db.createObjectStore('documents', { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains('documentChunks')) {
+          const store = db.createObjectStore('documentChunks', { keyPath: 'id' });
+          store.createIndex('by-document', 'documentId');
+        }
+        // v7: undo history for memory consolidation
+        if (!db.objectStoreNames.contains('memoryHistory')) {
+          db.createObjectStore('memoryHistory', { keyPath: 'id' });
+        }
+        // v8: scheduled reminders
+        if (!db.objectStoreNames.contains('reminders')) {
+          db.createObjectStore('reminders', { keyPath: 'id' });
+        }
+        // v9: spend ledger, at first only for compared answers that weren't kept
+        if (!db.objectStoreNames.contains('usageLog')) {
+          const store = db.createObjectStore('usageLog', { keyPath: 'id' });
+          store.createIndex('by-conversation', 'conversationId');
+        }
+        // v10: the ledger holds all spend; seed it from the usage on stored replies
+        if (oldVersion >= 2 && oldVersion < 10) {
+          const ledger = tx.objectStore('usageLog');
+          tx.objectStore('messages').getAll().then(messages =>
+            messages.flatMap(usageLogEntriesFor).forEach(entry => ledger.put(entry))
+          );
+        }
       }
     });
   }
@@ -55,6 +307,12 @@ export async function saveMemoryToDb(entry: MemoryEntry) {
 export async function deleteMemoryFromDb(id: string) {
   const db = await getDb();
   await db.delete('memories', id);
+  await db.delete('memoryEmbeddings', id);
+}
+
+export async function getMemoryFromDb(id: string) {
+  const db = await getDb();
+  return db.get('memories', id);
 }
 
 export async function getAllMemoriesFromDb() {
@@ -71,6 +329,51 @@ export async function getMemoriesForProfile(profileId?: string) {
 export async function clearAllMemoriesFromDb() {
   const db = await getDb();
   await db.clear('memories');
+  await db.clear('memoryEmbeddings');
+  await db.clear('memoryHistory');
+}
+
+/** Record a consolidation change and drop all but the newest `keep` entries */
+export async function saveMemoryHistoryEntry(entry: MemoryHistoryEntry, keep: number) {
+  const db = await getDb();
+  await db.put('memoryHistory', entry);
+  const all = await db.getAll('memoryHistory');
+  const stale = all.sort((a, b) => b.createdAt.localeCompare(a.createdAt)).slice(keep);
+  for (const old of stale) await db.delete('memoryHistory', old.id);
+}
+
+/** Consolidation changes, newest first */
+export async function getMemoryHistoryFromDb() {
+  const db = await getDb();
+  const all = await db.getAll('memoryHistory');
+  return all.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function deleteMemoryHistoryEntry(id: string) {
+  const db = await getDb();
+  await db.delete('memoryHistory', id);
+}
+
+export async function clearMemoryHistoryFromDb() {
+  const db = await getDb();
+  await db.clear('memoryHistory');
+}
+
+export async function getAllMemoryEmbeddings() {
+  const db = await getDb();
+  return db.getAll('memoryEmbeddings');
+}
+
+export async function clearMemoryEmbeddings() {
+  const db = await getDb();
+  await db.clear('memoryEmbeddings');
+}
+
+export async function saveMemoryEmbeddings(entries: MemoryEmbedding[]) {
+  if (!entries.length) return;
+  const db = await getDb();
+  const tx = db.transaction('memoryEmbeddings', 'readwrite');
+  await Promise.all([...entries.map(e => tx.store.put(e)), tx.done]);
 }
 
 export async function saveWelcomeMessage(text: string) {
@@ -90,3 +393,280 @@ export async function getCachedWelcomeMessages() {
   return db.getAll('welcomeMessages');
 }
 
+
+export async function saveConversationToDb(record: ConversationRecord) {
+  const db = await getDb();
+  await db.put('conversations', record);
+  return record;
+}
+
+export async function getConversationFromDb(id: string) {
+  const db = await getDb();
+  return db.get('conversations', id);
+}
+
+/** All conversation headers, newest first. Messages are loaded separately. */
+export async function getAllConversationsFromDb() {
+  const db = await getDb();
+  const all = await db.getAll('conversations');
+  return all.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+/**
+ * Remove a conversation together with all of its messages and attachments.
+ * Its spend stays in the usage ledger.
+ */
+export async function deleteConversationFromDb(id: string) {
+  const db = await getDb();
+  const tx = db.transaction(['conversations', 'messages', 'attachments'], 'readwrite');
+  const keys = await tx.objectStore('messages').index('by-conversation').getAllKeys(id);
+  const fileKeys = await tx.objectStore('attachments').index('by-conversation').getAllKeys(id);
+  await Promise.all([
+    tx.objectStore('conversations').delete(id),
+    ...keys.map(key => tx.objectStore('messages').delete(key)),
+    ...fileKeys.map(key => tx.objectStore('attachments').delete(key)),
+    tx.done,
+  ]);
+}
+
+export async function clearAllConversationsFromDb() {
+  const db = await getDb();
+  const tx = db.transaction(['conversations', 'messages', 'attachments'], 'readwrite');
+  await Promise.all([
+    tx.objectStore('conversations').clear(),
+    tx.objectStore('messages').clear(),
+    tx.objectStore('attachments').clear(),
+    tx.done,
+  ]);
+}
+
+export async function saveAttachmentsToDb(records: AttachmentRecord[]) {
+  if (!records.length) return;
+  const db = await getDb();
+  const tx = db.transaction('attachments', 'readwrite');
+  await Promise.all([...records.map(r => tx.store.put(r)), tx.done]);
+}
+
+export async function getAttachmentsFromDb(ids: string[]) {
+  const db = await getDb();
+  const tx = db.transaction('attachments');
+  const records = await Promise.all(ids.map(id => tx.store.get(id)));
+  await tx.done;
+  return records.filter((r): r is AttachmentRecord => !!r);
+}
+
+export async function saveDocumentToDb(doc: DocumentRecord, chunks: DocumentChunk[]) {
+  const db = await getDb();
+  const tx = db.transaction(['documents', 'documentChunks'], 'readwrite');
+  await Promise.all([
+    tx.objectStore('documents').put(doc),
+    ...chunks.map(c => tx.objectStore('documentChunks').put(c)),
+    tx.done,
+  ]);
+}
+
+export async function getAllDocumentsFromDb() {
+  const db = await getDb();
+  return db.getAll('documents');
+}
+
+export async function getDocumentChunksFromDb(documentIds: string[]) {
+  const db = await getDb();
+  const tx = db.transaction('documentChunks');
+  const index = tx.store.index('by-document');
+  const chunks = await Promise.all(documentIds.map(id => index.getAll(id)));
+  await tx.done;
+  return chunks.flat();
+}
+
+/** Store freshly computed chunk vectors */
+export async function saveDocumentChunks(chunks: DocumentChunk[]) {
+  if (!chunks.length) return;
+  const db = await getDb();
+  const tx = db.transaction('documentChunks', 'readwrite');
+  await Promise.all([...chunks.map(c => tx.store.put(c)), tx.done]);
+}
+
+/** Remove a document together with its chunks */
+export async function deleteDocumentFromDb(id: string) {
+  const db = await getDb();
+  const tx = db.transaction(['documents', 'documentChunks'], 'readwrite');
+  const keys = await tx.objectStore('documentChunks').index('by-document').getAllKeys(id);
+  await Promise.all([
+    tx.objectStore('documents').delete(id),
+    ...keys.map(key => tx.objectStore('documentChunks').delete(key)),
+    tx.done,
+  ]);
+}
+
+export async function saveReminderToDb(reminder: ReminderRecord) {
+  const db = await getDb();
+  await db.put('reminders', reminder);
+}
+
+export async function getAllRemindersFromDb() {
+  const db = await getDb();
+  return db.getAll('reminders');
+}
+
+export async function deleteReminderFromDb(id: string) {
+  const db = await getDb();
+  await db.delete('reminders', id);
+}
+
+/**
+ * Ledger entries for the usage on a stored reply, keyed by message and
+ * position so writing them twice leaves one copy
+ */
+export function usageLogEntriesFor(
+  message: Pick<MessageRecord, 'id' | 'conversationId' | 'profileId' | 'timestamp' | 'usage'>
+): UsageLogEntry[] {
+  return (message.usage || []).map((usage, i) => ({
+    ...usage,
+    id: `${message.id}:${i}`,
+    conversationId: message.conversationId,
+    profileId: message.profileId,
+    timestamp: message.timestamp,
+  }));
+}
+
+export async function saveUsageLogEntries(entries: UsageLogEntry[]) {
+  if (!entries.length) return;
+  const db = await getDb();
+  const tx = db.transaction('usageLog', 'readwrite');
+  await Promise.all([...entries.map(entry => tx.store.put(entry)), tx.done]);
+}
+
+export async function getAllUsageLogEntries() {
+  const db = await getDb();
+  return db.getAll('usageLog');
+}
+
+export async function saveMessageToDb(record: MessageRecord) {
+  const db = await getDb();
+  await db.put('messages', record);
+  return record;
+}
+
+/** Write a batch of messages in a single transaction */
+export async function saveMessagesToDb(records: MessageRecord[]) {
+  if (!records.length) return;
+  const db = await getDb();
+  const tx = db.transaction('messages', 'readwrite');
+  await Promise.all([...records.map(r => tx.store.put(r)), tx.done]);
+}
+
+/** Messages for one conversation in display order */
+export async function getMessagesForConversation(conversationId: string) {
+  const db = await getDb();
+  const list = await db.getAllFromIndex('messages', 'by-conversation', conversationId);
+  return list.sort((a, b) => a.position - b.position);
+}
+
+export async function getAllMessagesFromDb() {
+  const db = await getDb();
+  return db.getAll('messages');
+}
+
+export async function getAllMessageIdsFromDb() {
+  const db = await getDb();
+  return db.getAllKeys('messages');
+}
+
+export async function getMessagesByIds(ids: string[]) {
+  const db = await getDb();
+  const tx = db.transaction('messages');
+  const records = await Promise.all(ids.map(id => tx.store.get(id)));
+  await tx.done;
+  return records.filter((r): r is MessageRecord => !!r);
+}
+
+export async function getAllSearchDocs() {
+  const db = await getDb();
+  return db.getAll('searchDocs');
+}
+
+/**
+ * Apply a batch of index changes in one transaction. Removed docs are
+ * dropped from every term they listed before the added docs are written.
+ */
+export async function updateSearchIndex(added: SearchDoc[], removedIds: string[]) {
+  const db = await getDb();
+  const tx = db.transaction(['searchDocs', 'searchTerms'], 'readwrite');
+  const docs = tx.objectStore('searchDocs');
+  const terms = tx.objectStore('searchTerms');
+  const changed = new Map<string, Set<string>>();
+
+  const postings = async (term: string) => {
+    if (!changed.has(term)) {
+      const record = await terms.get(term);
+      changed.set(term, new Set(record?.messageIds || []));
+    }
+    return changed.get(term)!;
+  };
+
+  for (const id of removedIds) {
+    const doc = await docs.get(id);
+    if (!doc) continue;
+    for (const term of doc.terms) (await postings(term)).delete(id);
+    await docs.delete(id);
+  }
+  for (const doc of added) {
+    for (const term of doc.terms) (await postings(term)).add(doc.messageId);
+    await docs.put(doc);
+  }
+  for (const [term, ids] of changed) {
+    if (ids.size) await terms.put({ term, messageIds: [...ids] });
+    else await terms.delete(term);
+  }
+  await tx.done;
+}
+
+/** Index entries for every term starting with `prefix` */
+export async function findSearchTerms(prefix: string) {
+  const db = await getDb();
+  return db.getAll('searchTerms', IDBKeyRange.bound(prefix, `${prefix}\uffff`));
+}
+
+/**
+ * Stores holding user data; the rest are caches rebuilt on demand, apart
+ * from memoryHistory, which only undoes changes to this device's memories
+ */
+export const BACKUP_STORES = [
+  'memories',
+  'welcomeMessages',
+  'conversations',
+  'messages',
+  'attachments',
+  'documents',
+  'documentChunks',
+  'reminders',
+  'usageLog',
+] as const;
+export type BackupStore = typeof BACKUP_STORES[number];
+const DERIVED_STORES = ['memoryEmbeddings', 'searchDocs', 'searchTerms'] as const;
+
+export async function getStoreRecords(name: BackupStore): Promise<unknown[]> {
+  const db = await getDb();
+  return db.getAll(name);
+}
+
+export async function getStoreKeys(name: BackupStore): Promise<IDBValidKey[]> {
+  const db = await getDb();
+  return db.getAllKeys(name);
+}
+
+/** Write backup records into a store, emptying it first with `replace` */
+export async function restoreStoreRecords(name: BackupStore, records: unknown[], replace: boolean) {
+  const db = await getDb();
+  // Records come from a validated backup; the typed schema can't express that
+  const tx = db.transaction(name, 'readwrite') as unknown as IDBPTransaction<unknown, [string], 'readwrite'>;
+  if (replace) await tx.store.clear();
+  await Promise.all([...records.map(r => tx.store.put(r)), tx.done]);
+}
+
+/** Drop cached embeddings and the search index so they rebuild from scratch */
+export async function clearDerivedStores() {
+  const db = await getDb();
+  for (const store of DERIVED_STORES) await db.clear(store);
+}
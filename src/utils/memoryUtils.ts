@@ -1,57 +1,330 @@
-import { ChatMessage } from "@/services/chatService";
+import { ChatService, ChatMessage } from "@/services/chatService";
+import { summarizeMessages } from "@/services/summaryService";
+import type { ProviderSettings } from "@/services/providers";
 import { toast } from "sonner";
 import {
   saveMemoryToDb,
   deleteMemoryFromDb,
   getAllMemoriesFromDb,
+  getMemoryFromDb,
   getMemoriesForProfile,
-  clearAllMemoriesFromDb
+  clearAllMemoriesFromDb,
+  getAllMemoryEmbeddings,
+  saveMemoryEmbeddings,
+  clearMemoryEmbeddings,
+  saveMemoryHistoryEntry,
+  getMemoryHistoryFromDb,
+  deleteMemoryHistoryEntry,
+  type MemoryEmbedding,
+  type MemoryHistoryEntry
 } from './indexedDb';
+import {
+  LOCAL_EMBEDDING_MODEL,
+  embedTexts,
+  cosineSimilarity,
+  getEmbeddingSettings
+} from "@/services/embeddingService";
+import { estimateTokens } from "./tokenUtils";
+import { hashString } from "./textUtils";
+import { isVaultEnabled, encryptText, decryptText, secureStorage, type EncryptedText } from "./vault";
+
+/**
+ * Structured "about you" fields. Each scope holds at most one record of
+ * them; everything else in memory is a free-text fact.
+ */
+export interface MemoryProfile {
+  name: string;
+  pronouns: string;
+  occupation: string;
+  location: string;
+  tone: string;
+  style: string;
+  interests: string;
+  customInstructions: string;
+  systemNotes: string;
+}
 
-interface MemoryItem {
+export const EMPTY_MEMORY_PROFILE: MemoryProfile = {
+  name: '',
+  pronouns: '',
+  occupation: '',
+  location: '',
+  tone: '',
+  style: '',
+  interests: '',
+  customInstructions: '',
+  systemNotes: '',
+};
+
+export interface MemoryItem {
   id: string;
+  /** 'fact' when unset, for records saved before the profile kind existed */
+  kind?: 'fact' | 'profile';
+  /** Fact text; empty on profile records */
   content: string;
   scope: 'global' | 'profile';
   profileId?: string;
   createdAt: string;
   tags: string[];
+  /** Sent with every message, whatever the query */
+  pinned?: boolean;
+  /** Set on profile records */
+  fields?: MemoryProfile;
+  /** 0 to 1; raised each time the memory is sent, see `memoryStrength` */
+  importance?: number;
+  /** Last time the memory was added to a prompt */
+  lastUsedAt?: string;
+  useCount?: number;
+  encrypted?: EncryptedText;
+}
+
+/** A logged memory change with its records opened for display */
+export interface MemoryChange {
+  id: string;
+  action: 'merge' | 'condense' | 'forget';
+  createdAt: string;
+  before: MemoryItem[];
+  after?: MemoryItem;
+}
+
+/** Fields the memory manager can change */
+export type MemoryChanges = Partial<Pick<MemoryItem, 'content' | 'tags' | 'scope' | 'pinned'>> & {
+  /** Profile to move to when `scope` becomes 'profile' */
+  profileId?: string;
+};
+
+// Memory helpers for IndexedDB storage. The `memories` store holds both
+// kinds of memory: free-text facts, and one profile record per scope with
+// the structured fields of the Memory form. `renderMemoryPrompt` turns them
+// into the system prompt section. The form used to live in the
+// `vivica-memory-global` and `vivica-memory-profile-*` keys, which
+// `migrateLegacyMemory` moves over.
+
+const isProfileRecord = (memory: MemoryItem) => memory.kind === 'profile';
+
+/** Importance of a memory that was never sent */
+const DEFAULT_IMPORTANCE = 0.5;
+/** Share of the gap to full importance closed each time a memory is sent */
+const USE_REINFORCEMENT = 0.2;
+/** Days without use that halve a memory's strength */
+const DECAY_HALF_LIFE_DAYS = 30;
+/** How much strength weighs against query similarity when ranking */
+const STRENGTH_WEIGHT = 0.3;
+/** Consolidation changes kept for undo */
+const MAX_HISTORY = 100;
+
+/** Encrypt a memory's text, or a profile record's fields, when the vault is on */
+export async function sealMemory<T extends MemoryItem>(memory: T): Promise<T> {
+  if (!isVaultEnabled() || memory.encrypted) return memory;
+  const { fields, ...rest } = memory;
+  const plain = isProfileRecord(memory) ? JSON.stringify(fields ?? EMPTY_MEMORY_PROFILE) : memory.content;
+  return { ...rest, content: '', encrypted: await encryptText(plain) } as T;
+}
+
+/** Decrypt a stored memory back to plain text */
+export async function openMemory<T extends MemoryItem>(memory: T): Promise<T> {
+  if (!memory.encrypted) return memory;
+  const { encrypted, ...rest } = memory;
+  const plain = await decryptText(encrypted);
+  return (isProfileRecord(memory)
+    ? { ...rest, fields: { ...EMPTY_MEMORY_PROFILE, ...JSON.parse(plain) } }
+    : { ...rest, content: plain }) as T;
+}
+
+/**
+ * Rewrite every stored memory, and the consolidation history, sealed or in
+ * plain text. Run after enabling the vault, and before disabling it while
+ * the key is still around.
+ */
+export async function resealMemories(encrypt: boolean): Promise<void> {
+  // Vectors give away the words they were made from, so the vault keeps them in memory only
+  sessionVectors.clear();
+  if (encrypt) await clearMemoryEmbeddings();
+  const reseal = async (memory: MemoryItem) => {
+    const plain = await openMemory(memory);
+    return encrypt ? sealMemory(plain) : plain;
+  };
+  const all = await getAllMemoriesFromDb();
+  for (const memory of all) {
+    await saveMemoryToDb(await reseal(memory));
+  }
+  for (const entry of await getMemoryHistoryFromDb()) {
+    await saveMemoryHistoryEntry({
+      ...entry,
+      before: await Promise.all(entry.before.map(reseal)),
+      after: entry.after && await reseal(entry.after),
+    }, MAX_HISTORY);
+  }
+}
+
+/** Drop memories sealed with a vault that was reset and can't be opened */
+export async function deleteSealedMemories(): Promise<void> {
+  const all = await getAllMemoriesFromDb();
+  for (const memory of all) {
+    if (memory.encrypted) await deleteMemoryFromDb(memory.id);
+  }
+  for (const entry of await getMemoryHistoryFromDb()) {
+    if (entry.after?.encrypted || entry.before.some(m => m.encrypted)) await deleteMemoryHistoryEntry(entry.id);
+  }
+}
+
+/**
+ * Importance decayed by the time since the memory was last sent (or
+ * created), halving every `DECAY_HALF_LIFE_DAYS`. Pinned memories never fade.
+ */
+export function memoryStrength(memory: MemoryItem, now = Date.now()): number {
+  if (memory.pinned) return 1;
+  const since = Date.parse(memory.lastUsedAt || memory.createdAt);
+  const days = Number.isNaN(since) ? 0 : Math.max(0, now - since) / 86_400_000;
+  return (memory.importance ?? DEFAULT_IMPORTANCE) * Math.pow(0.5, days / DECAY_HALF_LIFE_DAYS);
+}
+
+/** Bump importance, use count and last-used time of memories sent in a prompt */
+export async function markMemoriesUsed(ids: string[]): Promise<void> {
+  const now = new Date().toISOString();
+  for (const id of ids) {
+    // Only plaintext metadata changes, so sealed records stay sealed
+    const record = await getMemoryFromDb(id);
+    if (!record) continue;
+    const importance = record.importance ?? DEFAULT_IMPORTANCE;
+    await saveMemoryToDb({
+      ...record,
+      importance: importance + (1 - importance) * USE_REINFORCEMENT,
+      lastUsedAt: now,
+      useCount: (record.useCount || 0) + 1,
+    });
+  }
 }
 
-// Memory helpers for IndexedDB storage. Prompt building now reads from
-// the DB, so these entries fully influence Vivica's replies. The legacy
-// `vivica-memory` key has been retired in favor of scoped keys.
+/** Every fact memory across all profiles */
+export async function getAllFacts(): Promise<MemoryItem[]> {
+  const facts = (await getAllMemoriesFromDb()).filter(m => !isProfileRecord(m));
+  return Promise.all(facts.map(openMemory));
+}
+
+/**
+ * Replace memories with one record holding `content`, logging the change
+ * for undo. A single memory keeps its id; a merge gets a new one and
+ * inherits the strongest importance and the combined use of its sources.
+ * @param sources - Facts being replaced, all from the same scope
+ */
+export async function replaceMemories(
+  sources: MemoryItem[],
+  content: string,
+  action: 'merge' | 'condense'
+): Promise<MemoryItem> {
+  const [first] = sources;
+  const lastUsed = sources.map(m => m.lastUsedAt).filter((t): t is string => !!t).sort().pop();
+  const replacement: MemoryItem = {
+    ...first,
+    id: sources.length === 1 ? first.id : `memory-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+    content,
+    tags: [...new Set(sources.flatMap(m => m.tags || []))],
+    importance: Math.max(...sources.map(m => m.importance ?? DEFAULT_IMPORTANCE)),
+    useCount: sources.reduce((sum, m) => sum + (m.useCount || 0), 0),
+    ...(lastUsed && { lastUsedAt: lastUsed }),
+  };
+
+  const before = await Promise.all(sources.map(m => sealMemory(m)));
+  const after = await sealMemory(replacement);
+  // History goes first so a change is never made without a way back
+  await saveMemoryHistoryEntry({
+    id: `change-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+    action,
+    createdAt: new Date().toISOString(),
+    before,
+    after,
+  }, MAX_HISTORY);
+  await saveMemoryToDb(after);
+  for (const source of sources) {
+    if (source.id !== replacement.id) await deleteMemoryFromDb(source.id);
+  }
+  return replacement;
+}
+
+/** Delete a memory, logging it so the deletion can be undone */
+export async function forgetMemory(memory: MemoryItem): Promise<void> {
+  await saveMemoryHistoryEntry({
+    id: `change-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+    action: 'forget',
+    createdAt: new Date().toISOString(),
+    before: [await sealMemory(memory)],
+  }, MAX_HISTORY);
+  await deleteMemoryFromDb(memory.id);
+  window.dispatchEvent(new Event('memoryUpdated'));
+}
+
+/** Logged changes, newest first, opened for display */
+export async function getMemoryChanges(): Promise<MemoryChange[]> {
+  const history = await getMemoryHistoryFromDb();
+  return Promise.all(history.map(async (entry: MemoryHistoryEntry) => ({
+    ...entry,
+    before: await Promise.all(entry.before.map(openMemory)),
+    after: entry.after && await openMemory(entry.after),
+  })));
+}
+
+/**
+ * Put back the memories a logged change replaced or forgot.
+ * @returns False when the replacement has since been deleted, so undoing
+ *   would bring back memories the user already removed
+ */
+export async function undoMemoryChange(id: string): Promise<boolean> {
+  const entry = (await getMemoryHistoryFromDb()).find(e => e.id === id);
+  if (!entry) return false;
+  const { after } = entry;
+  if (after && !(await getMemoryFromDb(after.id))) {
+    await deleteMemoryHistoryEntry(id);
+    return false;
+  }
+  if (after && !entry.before.some(m => m.id === after.id)) await deleteMemoryFromDb(after.id);
+  for (const record of entry.before) await saveMemoryToDb(record);
+  await deleteMemoryHistoryEntry(id);
+  window.dispatchEvent(new Event('memoryUpdated'));
+  return true;
+}
 
 /**
  * Saves a new memory item with scope control
  * @param content - Memory content text
  * @param scope - 'global' or 'profile' scope
  * @param profileId - Required for profile-scoped memories
+ * @param extraTags - Tags added after the scope tag, e.g. where the memory came from
  * @returns Promise with saved memory data
  */
-export async function saveMemory(content: string, scope: 'global' | 'profile', profileId?: string): Promise<MemoryItem> {
+export async function saveMemory(
+  content: string,
+  scope: 'global' | 'profile',
+  profileId?: string,
+  extraTags: string[] = []
+): Promise<MemoryItem> {
   const memory: MemoryItem = {
-    id: `memory-${Date.now()}`,
+    id: `memory-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+    kind: 'fact',
     content,
     scope,
     profileId: scope === 'profile' ? profileId : undefined,
     createdAt: new Date().toISOString(),
-    tags: scope === 'global' ? ['global'] : ['profile']
+    tags: [scope === 'global' ? 'global' : 'profile', ...extraTags],
+    importance: DEFAULT_IMPORTANCE,
+    useCount: 0
   };
 
   // Persist new memory in IndexedDB
-  await saveMemoryToDb(memory);
+  await saveMemoryToDb(await sealMemory(memory));
 
   return memory;
 }
 
 /**
- * Gets memories filtered by scope
+ * Gets fact memories filtered by scope
  * @param profileId - Required to get profile-specific memories
  * @param scopeFilter - Optional filter ('global' | 'profile' | 'all')
  * @returns Filtered array of MemoryItem
  */
 export async function getMemories(profileId?: string, scopeFilter: 'global' | 'profile' | 'all' = 'all'): Promise<MemoryItem[]> {
-  const all = await getMemoriesForProfile(profileId);
+  const facts = (await getMemoriesForProfile(profileId)).filter(m => !isProfileRecord(m));
+  const all = await Promise.all(facts.map(openMemory));
   switch (scopeFilter) {
     case 'global':
       return all.filter(m => m.scope === 'global');
@@ -62,26 +335,331 @@ export async function getMemories(profileId?: string, scopeFilter: 'global' | 'p
   }
 }
 
-/** Update an existing memory item */
-export async function editMemory(id: string, newContent: string): Promise<MemoryItem | undefined> {
+/**
+ * Apply changes to a stored memory. Moving scope also swaps a `global` or
+ * `profile` tag, which saved memories carry from creation.
+ */
+export async function updateMemory(id: string, changes: MemoryChanges): Promise<MemoryItem | undefined> {
   const all = await getAllMemoriesFromDb();
   const item = all.find(m => m.id === id);
   if (!item) return undefined;
-  const updated = { ...item, content: newContent };
-  await saveMemoryToDb(updated);
+  const plain = await openMemory(item);
+  const { profileId, ...fields } = changes;
+  const updated: MemoryItem = { ...plain, ...fields };
+  if (changes.scope && changes.scope !== plain.scope) {
+    updated.profileId = changes.scope === 'profile' ? profileId : undefined;
+    updated.tags = updated.tags.map(t => t === plain.scope ? changes.scope! : t);
+  }
+  await saveMemoryToDb(await sealMemory(updated));
   return updated;
 }
 
+const profileRecordId = (scope: 'global' | 'profile', profileId?: string) =>
+  scope === 'global' ? 'memory-profile-global' : `memory-profile-${profileId}`;
+
+/**
+ * Structured fields and tags saved for one scope; empty when none are saved.
+ * @param profileId - Required for the profile scope
+ */
+export async function getMemoryProfile(
+  scope: 'global' | 'profile',
+  profileId?: string
+): Promise<{ fields: MemoryProfile; tags: string[] }> {
+  const record = await getMemoryFromDb(profileRecordId(scope, profileId));
+  if (!record) return { fields: { ...EMPTY_MEMORY_PROFILE }, tags: [] };
+  const opened = await openMemory(record);
+  return { fields: { ...EMPTY_MEMORY_PROFILE, ...opened.fields }, tags: opened.tags };
+}
+
+/**
+ * Save the structured fields for one scope, replacing what was there.
+ * @param tags - Organizing tags shown with the record
+ */
+export async function saveMemoryProfile(
+  fields: MemoryProfile,
+  scope: 'global' | 'profile',
+  profileId?: string,
+  tags: string[] = []
+): Promise<void> {
+  const id = profileRecordId(scope, profileId);
+  const existing = await getMemoryFromDb(id);
+  const record: MemoryItem = {
+    id,
+    kind: 'profile',
+    content: '',
+    fields,
+    scope,
+    profileId: scope === 'profile' ? profileId : undefined,
+    createdAt: existing?.createdAt || new Date().toISOString(),
+    tags,
+  };
+  await saveMemoryToDb(await sealMemory(record));
+  window.dispatchEvent(new Event('memoryUpdated'));
+}
+
+/** Profile records that apply to `profileId`, global first */
+async function getProfileRecords(profileId?: string): Promise<MemoryItem[]> {
+  const records = (await getMemoriesForProfile(profileId)).filter(isProfileRecord);
+  const opened = await Promise.all(records.map(openMemory));
+  return opened.sort((a, b) => (a.scope === b.scope ? 0 : a.scope === 'global' ? -1 : 1));
+}
+
+/** Name the user gave in the Memory form; a profile's record wins over the global one */
+export async function getUserName(profileId?: string): Promise<string> {
+  const records = await getProfileRecords(profileId);
+  return records.map(r => r.fields?.name).filter(Boolean).pop() || '';
+}
+
+/**
+ * The one renderer for memory in the system prompt: profile fields as
+ * sentences, then facts as a list.
+ * @param profiles - Structured fields, global first
+ * @param facts - Fact text, already ranked and capped
+ */
+export function renderMemoryPrompt(profiles: MemoryProfile[], facts: string[] = []): string {
+  let prompt = '';
+  for (const p of profiles) {
+    if (p.name) prompt += `The user's name is ${p.name}. `;
+    if (p.pronouns) prompt += `Use ${p.pronouns} pronouns when referring to the user. `;
+    if (p.occupation) prompt += `The user works as ${p.occupation}. `;
+    if (p.location) prompt += `The user is located in ${p.location}. `;
+    if (p.tone) prompt += `Adopt a ${p.tone} tone when responding. `;
+    if (p.style) prompt += `Use a ${p.style} communication style. `;
+    if (p.interests) prompt += `The user is interested in: ${p.interests}. `;
+    if (p.customInstructions) prompt += `${p.customInstructions} `;
+    if (p.systemNotes) prompt += `Additional notes: ${p.systemNotes} `;
+  }
+  prompt = prompt.trim();
+  if (facts.length) {
+    const list = facts.map(f => `- ${f}`).join('\n');
+    prompt += `${prompt ? '\n\n' : ''}Stored Facts:\n${list}`;
+  }
+  return prompt;
+}
+
+/**
+ * Memory section of the system prompt for `profileId`: its profile
+ * records plus the facts most relevant to `query`.
+ */
+export async function buildMemoryPrompt(
+  query: string,
+  profileId?: string,
+  apiKey = '',
+  provider?: ProviderSettings
+): Promise<string> {
+  const profiles = (await getProfileRecords(profileId)).map(r => r.fields ?? EMPTY_MEMORY_PROFILE);
+  let facts: string[] = [];
+  try {
+    const relevant = await getRelevantMemories(query, profileId, apiKey, provider);
+    facts = relevant.map(m => m.content);
+    markMemoriesUsed(relevant.map(m => m.id)).catch(e => console.warn('Failed to record memory use', e));
+  } catch (e) {
+    console.warn('Failed to load memories from DB', e);
+  }
+  return renderMemoryPrompt(profiles, facts);
+}
+
+/** Shape of the Memory form as older versions stored it */
+interface LegacyMemoryData {
+  identity?: Partial<Record<'name' | 'pronouns' | 'occupation' | 'location', string>>;
+  personality?: Partial<Record<'tone' | 'style' | 'interests', string>>;
+  customInstructions?: string;
+  systemNotes?: string;
+  tags?: string;
+}
+
+/** Fields and tags out of a legacy form object, e.g. an old memory export */
+export function fromLegacyMemoryData(data: LegacyMemoryData): { fields: MemoryProfile; tags: string[] } {
+  return {
+    fields: {
+      name: data.identity?.name || '',
+      pronouns: data.identity?.pronouns || '',
+      occupation: data.identity?.occupation || '',
+      location: data.identity?.location || '',
+      tone: data.personality?.tone || '',
+      style: data.personality?.style || '',
+      interests: data.personality?.interests || '',
+      customInstructions: data.customInstructions || '',
+      systemNotes: data.systemNotes || '',
+    },
+    tags: (data.tags || '').split(',').map(t => t.trim()).filter(Boolean),
+  };
+}
+
+const LEGACY_GLOBAL_KEY = 'vivica-memory-global';
+const LEGACY_PROFILE_PREFIX = 'vivica-memory-profile-';
+
+/**
+ * Move the legacy Memory form keys into profile records and mark older
+ * fact rows with their kind. A key is only imported when its scope has no
+ * record yet, and removed either way. Needs the vault unlocked.
+ */
+export async function migrateLegacyMemory(): Promise<void> {
+  const legacyKeys: string[] = [];
+  for (let i = 0; i < secureStorage.length; i++) {
+    const key = secureStorage.key(i);
+    if (key && (key === LEGACY_GLOBAL_KEY || key.startsWith(LEGACY_PROFILE_PREFIX))) legacyKeys.push(key);
+  }
+
+  for (const key of legacyKeys) {
+    const profileId = key === LEGACY_GLOBAL_KEY ? undefined : key.slice(LEGACY_PROFILE_PREFIX.length);
+    const scope = profileId ? 'profile' : 'global';
+    try {
+      const data = JSON.parse(secureStorage.getItem(key) || 'null');
+      if (data && !(await getMemoryFromDb(profileRecordId(scope, profileId)))) {
+        const { fields, tags } = fromLegacyMemoryData(data);
+        await saveMemoryProfile(fields, scope, profileId, tags);
+      }
+    } catch (e) {
+      console.warn(`Could not migrate ${key}`, e);
+    }
+    secureStorage.removeItem(key);
+  }
+  secureStorage.removeItem('vivica-memory');
+
+  for (const memory of await getAllMemoriesFromDb()) {
+    if (memory.kind) continue;
+    await saveMemoryToDb({ ...memory, kind: 'fact', scope: memory.scope || 'global', tags: memory.tags || [] });
+  }
+}
+
+/** Update an existing memory item */
+export async function editMemory(id: string, newContent: string): Promise<MemoryItem | undefined> {
+  return updateMemory(id, { content: newContent });
+}
+
 /** Remove a memory item by id */
 export async function deleteMemory(id: string): Promise<void> {
   await deleteMemoryFromDb(id);
 }
 
+/** Remove several memories at once */
+export async function deleteMemories(ids: string[]): Promise<void> {
+  await Promise.all(ids.map(deleteMemoryFromDb));
+}
+
 /** Remove all stored memories */
 export async function clearAllMemories(): Promise<void> {
   await clearAllMemoriesFromDb();
 }
 
+/**
+ * Vectors computed while the vault is on. The local model hashes words and
+ * word pairs, so a stored vector would give away the sealed text; these
+ * only live until the page closes.
+ */
+const sessionVectors = new Map<string, MemoryEmbedding>();
+
+/**
+ * Make sure every memory has a vector for `model`, computing only the ones
+ * that are missing or whose text changed since they were embedded.
+ */
+async function loadMemoryVectors(
+  memories: MemoryItem[],
+  model: string,
+  chatService?: ChatService
+): Promise<Map<string, number[]>> {
+  const vaulted = isVaultEnabled();
+  const cached = vaulted
+    ? sessionVectors
+    : new Map((await getAllMemoryEmbeddings()).map(e => [e.memoryId, e]));
+  const vectors = new Map<string, number[]>();
+  const stale: MemoryItem[] = [];
+
+  for (const memory of memories) {
+    const entry = cached.get(memory.id);
+    if (entry && entry.model === model && entry.contentHash === hashString(memory.content).toString(16)) {
+      vectors.set(memory.id, entry.vector);
+    } else {
+      stale.push(memory);
+    }
+  }
+
+  if (stale.length) {
+    const fresh = await embedTexts(stale.map(m => m.content), model, chatService);
+    const entries: MemoryEmbedding[] = stale.map((m, i) => ({
+      memoryId: m.id,
+      model,
+      contentHash: hashString(m.content).toString(16),
+      vector: fresh[i],
+    }));
+    if (vaulted) entries.forEach(e => sessionVectors.set(e.memoryId, e));
+    else await saveMemoryEmbeddings(entries);
+    entries.forEach(e => vectors.set(e.memoryId, e.vector));
+  }
+
+  return vectors;
+}
+
+async function rankMemories(
+  memories: MemoryItem[],
+  query: string,
+  model: string,
+  chatService?: ChatService
+): Promise<MemoryItem[]> {
+  const vectors = await loadMemoryVectors(memories, model, chatService);
+  const [queryVector] = await embedTexts([query], model, chatService);
+  const now = Date.now();
+  return memories
+    .map(m => ({ memory: m, similarity: cosineSimilarity(queryVector, vectors.get(m.id) || []) }))
+    .filter(r => r.similarity > 0)
+    // Faded memories sink below fresh ones of similar relevance
+    .map(r => ({ ...r, score: r.similarity * (1 - STRENGTH_WEIGHT + STRENGTH_WEIGHT * memoryStrength(r.memory, now)) }))
+    .sort((a, b) => b.score - a.score)
+    .map(r => r.memory);
+}
+
+/**
+ * Global and profile memories most relevant to `query`, capped by the
+ * `memoryTopK` and `memoryTokenBudget` settings. Similarity is weighed
+ * against each memory's decayed strength. Pinned memories always come
+ * first and count toward both caps. Provider embeddings fall back to
+ * the local model when the endpoint is unavailable or fails. Without a
+ * query the newest memories are used instead.
+ * @param query - Latest user message
+ * @param profileId - Current profile, for profile-scoped memories
+ * @param apiKey - API key for provider embeddings
+ * @param provider - Provider fields of the current profile
+ */
+export async function getRelevantMemories(
+  query: string,
+  profileId?: string,
+  apiKey = '',
+  provider?: ProviderSettings
+): Promise<MemoryItem[]> {
+  const globalMems = await getMemories(undefined, 'global');
+  const profileMems = profileId ? await getMemories(profileId, 'profile') : [];
+  const pinned = [...globalMems, ...profileMems].filter(m => m.pinned);
+  const memories = [...globalMems, ...profileMems].filter(m => !m.pinned);
+  if (memories.length === 0) return pinned;
+
+  const settings = getEmbeddingSettings();
+  let ranked: MemoryItem[];
+  if (!query.trim()) {
+    ranked = [...memories].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  } else if (settings.memoryEmbeddings === 'provider') {
+    try {
+      ranked = await rankMemories(memories, query, settings.embeddingModel, new ChatService(apiKey, provider));
+    } catch (error) {
+      console.warn('Provider embeddings failed, using local embeddings', error);
+      ranked = await rankMemories(memories, query, LOCAL_EMBEDDING_MODEL);
+    }
+  } else {
+    ranked = await rankMemories(memories, query, LOCAL_EMBEDDING_MODEL);
+  }
+
+  const selected: MemoryItem[] = [...pinned];
+  let tokens = pinned.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+  for (const memory of ranked) {
+    if (selected.length >= settings.memoryTopK) break;
+    const cost = estimateTokens(memory.content);
+    if (tokens + cost > settings.memoryTokenBudget) continue;
+    selected.push(memory);
+    tokens += cost;
+  }
+  return selected;
+}
+
 /**
  * Summarizes a conversation and saves it to memory
  * @param messages - Chat messages to summarize
@@ -89,6 +667,7 @@ export async function clearAllMemories(): Promise<void> {
  * @param apiKey - API key for LLM calls
  * @param scope - Memory scope ('global' or 'profile')
  * @param profileId - Required for profile memories
+ * @param provider - Provider fields of the profile whose model is used
  * @returns Promise with saved memory data
  */
 // Used by the "Save & Summarize" button in ChatHeader
@@ -97,89 +676,23 @@ export async function saveConversationMemory(
   model: string,
   apiKey: string,
   scope: 'global' | 'profile' = 'global',
-  profileId?: string
+  profileId?: string,
+  provider?: ProviderSettings
 ): Promise<MemoryItem> {
   // Enhanced prompt with scope awareness
   const scopeHint = scope === 'profile'
     ? "This is a persona-specific memory - focus on details relevant to this persona's specialty."
     : "This is a global memory - keep it broadly applicable to all personas.";
 
-  const messageCount = messages.length;
-  // Allow much longer memory summaries so important details aren't lost
-  const charLimit = messageCount < 10 ? 1000 : messageCount <= 30 ? 2000 : 4000;
-
-  const prompt = `
-  As Vivica, create a ${scope} memory from this conversation.
-  ${scopeHint}
-
-  Keep the entire summary under ${charLimit} characters.
-
-  Format requirements:
-  1. Start with "Summary:" followed by 1-2 sentence overview
-  2. List key points as bullets
-  3. Keep professional but friendly tone
-
-  Key Points to Include:
-  - Important facts/names
-  - User preferences
-  - Key decisions
-  - Special instructions
-
-  Conversation:
-  ${messages.map(m => `${m.role}: ${m.content}`).join('\n')}
-
-  Response Format:
-  Summary: [summary here]
-  Key Points:
-  - [point 1]
-  - [point 2]
-  - [...]
-  `;
-
   try {
-    // TODO: refactor to use ChatService so we get API key fallback and telemetry
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model,
-        messages: [
-          { role: 'system', content: 'You are Vivica, summarizing conversations concisely.' },
-          { role: 'user', content: prompt }
-        ],
-        temperature: 0.3 // Lower temp for more factual summaries
-      })
+    const cleanedSummary = await summarizeMessages(messages, model, apiKey, {
+      provider,
+      instructions: `create a ${scope} memory from this conversation.\n  ${scopeHint}`,
     });
 
-    const data = await response.json();
-    const summary = data.choices?.[0]?.message?.content?.trim();
-
-    if (!summary) {
-      throw new Error('No summary generated');
-    }
-
-    // Clean up the response if it has bullet points
-    let cleanedSummary = summary
-      .replace(/^- /mg, '• ') // Convert hyphens to bullets
-      .replace(/\n\s*\n/g, '\n\n'); // Normalize spacing
-
-    if (cleanedSummary.length > charLimit) {
-      cleanedSummary = cleanedSummary.slice(0, charLimit);
-    }
-
-    const memoryData = {
-      id: `memory-${Date.now()}`,
-      content: cleanedSummary,
-      createdAt: new Date().toISOString(),
-      tags: ['auto-summary']
-    };
-
-    await saveMemory(cleanedSummary, scope, profileId);
+    const memory = await saveMemory(cleanedSummary, scope, profileId, ['auto-summary']);
     toast.success("Conversation saved to memory!");
-    return memoryData;
+    return memory;
   } catch (error) {
     console.error('Failed to save memory:', error);
     toast.error("Failed to save summary");
@@ -0,0 +1,102 @@
+// Chat history is a tree: each message points at the one it follows, and
+// editing or regenerating adds a sibling instead of discarding the old
+// turns. A conversation's `messages` is always the active path from the
+// root to the selected leaf; everything else is kept in `branches`.
+
+interface TreeMessage {
+  id: string;
+  /** Previous message on this message's path; null for the first message */
+  parentId?: string | null;
+  timestamp: Date | string;
+}
+
+export interface BranchPosition {
+  /** Zero-based index among the message's siblings */
+  index: number;
+  count: number;
+}
+
+/** Children of every message, keyed by parent id ('' for roots), oldest first */
+function groupChildren<T extends TreeMessage>(all: T[]): Map<string, T[]> {
+  const children = new Map<string, T[]>();
+  for (const message of all) {
+    const key = message.parentId ?? '';
+    if (!children.has(key)) children.set(key, []);
+    children.get(key)!.push(message);
+  }
+  children.forEach(list => list.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()));
+  return children;
+}
+
+/**
+ * Fill in `parentId` for messages stored before branching existed. Those
+ * histories are linear, so each message follows the one before it.
+ * @param ordered - Messages in stored order
+ */
+export function linkLegacyMessages<T extends TreeMessage>(ordered: T[]): T[] {
+  return ordered.map((message, i) =>
+    message.parentId !== undefined ? message : { ...message, parentId: i > 0 ? ordered[i - 1].id : null }
+  );
+}
+
+/** Messages sharing `message`'s parent, itself included, oldest first */
+export function getSiblings<T extends TreeMessage>(all: T[], message: T): T[] {
+  return groupChildren(all).get(message.parentId ?? '') || [message];
+}
+
+/**
+ * Path from the root through `messageId`, continuing down the newest
+ * reply at each step until a leaf is reached.
+ */
+export function pathThrough<T extends TreeMessage>(all: T[], messageId: string): T[] {
+  const byId = new Map(all.map(m => [m.id, m]));
+  const children = groupChildren(all);
+  const path: T[] = [];
+
+  let node = byId.get(messageId);
+  while (node) {
+    path.unshift(node);
+    node = node.parentId ? byId.get(node.parentId) : undefined;
+  }
+  let next = children.get(messageId);
+  while (next?.length) {
+    const newest = next[next.length - 1];
+    path.push(newest);
+    next = children.get(newest.id);
+  }
+  return path;
+}
+
+/**
+ * Split a conversation's messages into the active path and its branches.
+ * Falls back to the newest path when `leafId` is missing or unknown.
+ */
+export function splitBranches<T extends TreeMessage>(all: T[], leafId?: string): { messages: T[]; branches: T[] } {
+  if (!all.length) return { messages: [], branches: [] };
+  const start = leafId && all.some(m => m.id === leafId)
+    ? leafId
+    : groupChildren(all).get('')?.slice(-1)[0]?.id ?? all[0].id;
+  const messages = pathThrough(all, start);
+  const onPath = new Set(messages.map(m => m.id));
+  return { messages, branches: all.filter(m => !onPath.has(m.id)) };
+}
+
+/** Sibling position of every message on `path` that has alternatives */
+export function getBranchPositions<T extends TreeMessage>(all: T[], path: T[]): Record<string, BranchPosition> {
+  const children = groupChildren(all);
+  const positions: Record<string, BranchPosition> = {};
+  for (const message of path) {
+    const siblings = children.get(message.parentId ?? '') || [];
+    if (siblings.length > 1) {
+      positions[message.id] = { index: siblings.findIndex(s => s.id === message.id), count: siblings.length };
+    }
+  }
+  return positions;
+}
+
+/** Index of the first message where two paths diverge */
+export function divergenceIndex<T extends TreeMessage>(a: T[], b: T[]): number {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i].id === b[i].id) i++;
+  return i;
+}
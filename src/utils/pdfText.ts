@@ -0,0 +1,196 @@
+// Best-effort PDF text extraction without a PDF library: inflate each page
+// content stream and collect the strings its text operators draw. This reads
+// the plain and Flate-compressed streams most generators write; text set in
+// subset fonts with custom encodings comes out as noise and is dropped, and
+// scanned pages have no text to find at all.
+
+/** Share of printable characters below which a stream's text is treated as noise */
+const MIN_PRINTABLE_RATIO = 0.85;
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate')).getReader();
+  const chunks: Uint8Array[] = [];
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+    }
+  } catch {
+    // Trailing bytes after the compressed data; keep what was inflated
+  }
+  const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  chunks.forEach(c => {
+    out.set(c, offset);
+    offset += c.length;
+  });
+  return out;
+}
+
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+type Token =
+  | { kind: 'string'; value: string }
+  | { kind: 'number'; value: number }
+  | { kind: 'op'; value: string }
+  | { kind: 'open' | 'close' };
+
+/** Split a content stream into the tokens text extraction cares about */
+function tokenize(src: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const c = src[i];
+    if (c === '(') {
+      let depth = 1;
+      let value = '';
+      i++;
+      while (i < src.length && depth > 0) {
+        const ch = src[i];
+        if (ch === '\\') {
+          const next = src[i + 1];
+          if (next in ESCAPES) {
+            value += ESCAPES[next];
+            i += 2;
+          } else if (/[0-7]/.test(next)) {
+            const oct = src.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)![0];
+            value += String.fromCharCode(parseInt(oct, 8));
+            i += 1 + oct.length;
+          } else if (next === '\r' || next === '\n') {
+            i += src.slice(i + 1, i + 3) === '\r\n' ? 3 : 2;
+          } else {
+            value += next ?? '';
+            i += 2;
+          }
+          continue;
+        }
+        if (ch === '(') depth++;
+        if (ch === ')' && --depth === 0) break;
+        value += ch;
+        i++;
+      }
+      tokens.push({ kind: 'string', value });
+      i++;
+    } else if (c === '<' && src[i + 1] !== '<') {
+      const end = src.indexOf('>', i);
+      const hex = src.slice(i + 1, end < 0 ? src.length : end).replace(/\s/g, '');
+      let value = '';
+      for (let j = 0; j < hex.length; j += 2) {
+        value += String.fromCharCode(parseInt(hex.slice(j, j + 2).padEnd(2, '0'), 16));
+      }
+      tokens.push({ kind: 'string', value });
+      i = end < 0 ? src.length : end + 1;
+    } else if (c === '[') {
+      tokens.push({ kind: 'open' });
+      i++;
+    } else if (c === ']') {
+      tokens.push({ kind: 'close' });
+      i++;
+    } else if (c === '%') {
+      while (i < src.length && src[i] !== '\n' && src[i] !== '\r') i++;
+    } else if (/[\d.+-]/.test(c)) {
+      const num = src.slice(i).match(/^[+-]?(\d+\.?\d*|\.\d+)/);
+      if (num) {
+        tokens.push({ kind: 'number', value: parseFloat(num[0]) });
+        i += num[0].length;
+      } else {
+        i++;
+      }
+    } else if (/[A-Za-z'"*]/.test(c)) {
+      const word = src.slice(i).match(/^[A-Za-z'"*]+/)![0];
+      tokens.push({ kind: 'op', value: word });
+      i += word.length;
+    } else {
+      // Whitespace, names, dictionaries: skip a character at a time
+      i++;
+    }
+  }
+  return tokens;
+}
+
+/** Text drawn by one content stream, in drawing order */
+function showText(content: string): string {
+  let out = '';
+  let operands: Token[] = [];
+  let array: Token[] | null = null;
+  for (const token of tokenize(content)) {
+    if (token.kind === 'open') {
+      array = [];
+    } else if (token.kind === 'close') {
+      operands.push(...(array || []).map(t => t.kind === 'number' && t.value < -200 ? { kind: 'string' as const, value: ' ' } : t));
+      array = null;
+    } else if (array) {
+      array.push(token);
+    } else if (token.kind !== 'op') {
+      operands.push(token);
+    } else {
+      const strings = operands.filter(t => t.kind === 'string').map(t => t.value).join('');
+      switch (token.value) {
+        case 'Tj':
+        case 'TJ':
+          out += strings;
+          break;
+        case "'":
+        case '"':
+          out += `\n${strings}`;
+          break;
+        case 'Td':
+        case 'TD': {
+          const ty = operands[1];
+          out += ty?.kind === 'number' && ty.value !== 0 ? '\n' : ' ';
+          break;
+        }
+        case 'T*':
+        case 'Tm':
+        case 'ET':
+          out += '\n';
+          break;
+      }
+      operands = [];
+    }
+  }
+  return out;
+}
+
+function isReadable(text: string): boolean {
+  const chars = text.replace(/\s/g, '');
+  if (!chars) return false;
+  const printable = chars.match(/[\x20-\x7e\xa0-\xff]/g)?.length || 0;
+  return printable / chars.length >= MIN_PRINTABLE_RATIO;
+}
+
+/** Plain text of a PDF, or an empty string when none can be read */
+export async function extractPdfText(buffer: ArrayBuffer): Promise<string> {
+  const bytes = new Uint8Array(buffer);
+  // latin1 maps each byte to one character, so string offsets are byte offsets
+  const raw = new TextDecoder('latin1').decode(bytes);
+  const pages: string[] = [];
+  const streamStart = /(?<!end)stream\r?\n/g;
+  let match: RegExpExecArray | null;
+  while ((match = streamStart.exec(raw))) {
+    const dict = raw.slice(raw.lastIndexOf('obj', match.index), match.index);
+    const start = match.index + match[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end < 0) break;
+    streamStart.lastIndex = end;
+    if (/\/Subtype\s*\/Image/.test(dict)) continue;
+
+    const filter = dict.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1];
+    let data = bytes.subarray(start, end);
+    if (filter) {
+      if (filter.replace(/[[\]\s]/g, '') !== '/FlateDecode') continue;
+      data = await inflate(data);
+    }
+    const content = new TextDecoder('latin1').decode(data);
+    if (!/\bBT\b/.test(content)) continue;
+    const text = showText(content);
+    if (isReadable(text)) pages.push(text);
+  }
+  return pages
+    .join('\n\n')
+    .replace(/[^\S\n]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
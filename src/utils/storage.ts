@@ -1,4 +1,7 @@
-// Storage utilities with graceful fallbacks
+import { secureStorage } from './vault';
+
+// Storage utilities with graceful fallbacks. Reads and writes go through
+// `secureStorage`, so vault-protected keys work the same as plain ones.
 export class Storage {
   private static isAvailable(): boolean {
     try {
@@ -17,7 +20,7 @@ export class Storage {
     }
 
     try {
-      const item = localStorage.getItem(key);
+      const item = secureStorage.getItem(key);
       if (item === null) {
         return defaultValue;
       }
@@ -33,7 +36,7 @@ export class Storage {
     }
 
     try {
-      localStorage.setItem(key, JSON.stringify(value));
+      secureStorage.setItem(key, JSON.stringify(value));
       return true;
     } catch {
       // Storage might be full or unavailable
@@ -47,7 +50,7 @@ export class Storage {
     }
 
     try {
-      localStorage.removeItem(key);
+      secureStorage.removeItem(key);
       return true;
     } catch {
       return false;
@@ -60,7 +63,7 @@ export class Storage {
     }
 
     try {
-      localStorage.clear();
+      secureStorage.clear();
       return true;
     } catch {
       return false;
@@ -0,0 +1,25 @@
+// Plain-text helpers shared by memory embeddings and the message search
+// index. Kept free of app imports so they also load inside workers.
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'do', 'for', 'from',
+  'has', 'have', 'he', 'her', 'his', 'i', 'in', 'is', 'it', 'its', 'me', 'my',
+  'of', 'on', 'or', 'our', 'she', 'so', 'that', 'the', 'their', 'them', 'they',
+  'this', 'to', 'was', 'we', 'were', 'what', 'with', 'you', 'your',
+]);
+
+/** FNV-1a, used for content hashes and feature hashing */
+export function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** Lowercase words and numbers, without stopwords and single characters */
+export function tokenize(text: string): string[] {
+  const words: string[] = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  return words.filter(t => t.length > 1 && !STOPWORDS.has(t));
+}
@@ -0,0 +1,8 @@
+// Rough token estimates for prompt budgeting. Most tokenizers average about
+// four characters per token on English text, which is close enough to keep
+// prompts inside a budget without shipping a tokenizer.
+
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  return Math.ceil(text.length / 4);
+}
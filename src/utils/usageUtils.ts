@@ -0,0 +1,157 @@
+import { getAllUsageLogEntries, saveUsageLogEntries, usageLogEntriesFor } from './indexedDb';
+import { estimateTokens } from './tokenUtils';
+import { shortKey, type ApiKeyEntry } from '@/services/keyManager';
+
+// Token usage and spend. Every assistant reply keeps one usage entry per
+// request it took (two for a code hand-off) for its own label, and each
+// entry also goes into the `usageLog` ledger. The dashboard reads only the
+// ledger, which outlives deleted chats, so past spend never changes.
+
+export interface MessageUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  /** Price in USD; unset when the model's pricing is unknown */
+  cost?: number;
+  /** Counted locally because the provider reported nothing */
+  estimated?: boolean;
+  /** Last four characters of the key that paid, see shortKey */
+  key?: string;
+}
+
+/** Per-token USD prices as listed by the OpenRouter catalogue */
+export interface ModelPricing {
+  prompt: string;
+  completion: string;
+}
+
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  /** Some entries had no known price, so `cost` is a lower bound */
+  unpriced: boolean;
+  /** Some entries were estimated rather than reported */
+  estimated: boolean;
+}
+
+/**
+ * Fill in token counts the provider didn't send from the text itself.
+ * @param prompt - The messages that were sent
+ * @param completion - The text that came back
+ */
+export function estimateMissingUsage(
+  usage: Omit<MessageUsage, 'promptTokens' | 'completionTokens'> & Partial<MessageUsage>,
+  prompt: { content: string }[],
+  completion: string
+): MessageUsage {
+  const estimated = usage.promptTokens === undefined || usage.completionTokens === undefined;
+  return {
+    ...usage,
+    promptTokens: usage.promptTokens ?? prompt.reduce((sum, m) => sum + estimateTokens(m.content), 0),
+    completionTokens: usage.completionTokens ?? estimateTokens(completion),
+    ...(estimated && { estimated: true }),
+  };
+}
+
+/** Price an entry from the catalogue unless the provider already billed it */
+export function priceUsage(usage: MessageUsage, pricing?: ModelPricing): MessageUsage {
+  if (usage.cost !== undefined || !pricing) return usage;
+  const prompt = Number(pricing.prompt);
+  const completion = Number(pricing.completion);
+  if (Number.isNaN(prompt) || Number.isNaN(completion)) return usage;
+  return { ...usage, cost: usage.promptTokens * prompt + usage.completionTokens * completion };
+}
+
+export function sumUsage(entries: MessageUsage[]): UsageTotals {
+  return entries.reduce<UsageTotals>((totals, u) => ({
+    promptTokens: totals.promptTokens + u.promptTokens,
+    completionTokens: totals.completionTokens + u.completionTokens,
+    cost: totals.cost + (u.cost ?? 0),
+    unpriced: totals.unpriced || u.cost === undefined,
+    estimated: totals.estimated || !!u.estimated,
+  }), { promptTokens: 0, completionTokens: 0, cost: 0, unpriced: false, estimated: false });
+}
+
+export function formatCost(usd: number): string {
+  if (usd === 0) return '$0';
+  if (usd < 0.01) return `$${usd.toFixed(4)}`;
+  return `$${usd.toFixed(2)}`;
+}
+
+export function formatTokens(count: number): string {
+  return count >= 1000 ? `${(count / 1000).toFixed(1)}k` : String(count);
+}
+
+/** One usage entry with the context the dashboard groups by */
+export interface UsageRecord extends MessageUsage {
+  conversationId: string;
+  profileId?: string;
+  timestamp: string;
+}
+
+/** Add the usage on a settled reply to the ledger */
+export function recordUsage(
+  conversationId: string,
+  message: { id: string; profileId?: string; timestamp: Date; usage?: MessageUsage[] }
+): Promise<void> {
+  return saveUsageLogEntries(usageLogEntriesFor({
+    ...message,
+    conversationId,
+    timestamp: message.timestamp.toISOString(),
+  }));
+}
+
+/** Every entry in the spend ledger, deleted chats and unkept comparisons included */
+export async function loadUsageRecords(): Promise<UsageRecord[]> {
+  const logged = await getAllUsageLogEntries();
+  return logged.map(({ id, ...record }) => record);
+}
+
+export interface UsageGroup {
+  label: string;
+  cost: number;
+  tokens: number;
+}
+
+/** Local calendar day of a timestamp, as YYYY-MM-DD */
+export function dayKey(timestamp: string | Date): string {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+/** Spend per day for the last `days` days, oldest first, empty days included */
+export function groupUsageByDay(records: UsageRecord[], days: number, now = new Date()): UsageGroup[] {
+  const groups = new Map<string, UsageGroup>();
+  for (let i = days - 1; i >= 0; i--) {
+    const day = new Date(now.getFullYear(), now.getMonth(), now.getDate() - i);
+    groups.set(dayKey(day), { label: dayKey(day), cost: 0, tokens: 0 });
+  }
+  for (const r of records) {
+    const group = groups.get(dayKey(r.timestamp));
+    if (!group) continue;
+    group.cost += r.cost ?? 0;
+    group.tokens += r.promptTokens + r.completionTokens;
+  }
+  return [...groups.values()];
+}
+
+/** Spend per value of `keyOf`, most expensive first */
+export function groupUsageBy(records: UsageRecord[], keyOf: (r: UsageRecord) => string): UsageGroup[] {
+  const groups = new Map<string, UsageGroup>();
+  for (const r of records) {
+    const label = keyOf(r);
+    const group = groups.get(label) || { label, cost: 0, tokens: 0 };
+    group.cost += r.cost ?? 0;
+    group.tokens += r.promptTokens + r.completionTokens;
+    groups.set(label, group);
+  }
+  return [...groups.values()].sort((a, b) => b.cost - a.cost || b.tokens - a.tokens);
+}
+
+/** Label of the managed key a usage entry was paid with, if it still exists */
+export function keyLabel(key: string | undefined, keys: ApiKeyEntry[]): string {
+  if (!key) return 'No key';
+  const entry = keys.find(k => shortKey(k.key) === key);
+  return entry ? `${entry.label} (…${key})` : `…${key}`;
+}
@@ -0,0 +1,325 @@
+// Optional passphrase vault. When enabled, API keys, profiles (which can
+// carry provider keys) and memory text leave plaintext localStorage and live
+// in one AES-GCM blob whose key is derived from the passphrase with PBKDF2.
+// The decrypted values are only held in memory while the vault is unlocked.
+//
+// `secureStorage` mirrors the DOM Storage API so callers swap it in for
+// `localStorage` and keep working whether or not the vault is on.
+
+export interface EncryptedText {
+  /** Base64 AES-GCM nonce */
+  iv: string;
+  /** Base64 ciphertext including the auth tag */
+  data: string;
+}
+
+interface VaultMeta {
+  version: 1;
+  salt: string;
+  iterations: number;
+  /** Known plaintext, used to tell a wrong passphrase from corrupt data */
+  check: EncryptedText;
+}
+
+const VAULT_META = 'vivica-vault';
+const VAULT_DATA = 'vivica-vault-data';
+/** Vault bookkeeping keys, never exported or restored as settings */
+export const VAULT_KEYS = [VAULT_META, VAULT_DATA];
+
+const PBKDF2_ITERATIONS = 310_000;
+const CHECK_TEXT = 'vivica-vault';
+const DEFAULT_AUTO_LOCK_MINUTES = 15;
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+/** Whole keys moved into the vault */
+const PROTECTED_KEYS = [
+  'openrouter-api-key',
+  'braveApiKey',
+  'vivica-api-keys',
+  'vivica-profiles',
+  'vivica-memory',
+  'vivica-memory-global',
+  'vivica-memory-suggestions',
+];
+const PROTECTED_PREFIXES = ['vivica-memory-profile-'];
+/** Secret fields that older versions kept inside `vivica-settings` */
+const SECRET_SETTINGS = ['braveApiKey', 'apiKey1', 'apiKey2', 'apiKey3'];
+
+let cryptoKey: CryptoKey | null = null;
+/** Decrypted vault contents; null while locked */
+let cache: Record<string, string> | null = null;
+let pendingWrite: Promise<void> = Promise.resolve();
+
+export function isProtectedKey(key: string): boolean {
+  return PROTECTED_KEYS.includes(key) || PROTECTED_PREFIXES.some(p => key.startsWith(p));
+}
+
+export function isVaultEnabled(): boolean {
+  return localStorage.getItem(VAULT_META) !== null;
+}
+
+export function isVaultUnlocked(): boolean {
+  return cryptoKey !== null;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function encryptWith(key: CryptoKey, text: string): Promise<EncryptedText> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+async function decryptWith(key: CryptoKey, payload: EncryptedText): Promise<string> {
+  const data = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(payload.iv) },
+    key,
+    fromBase64(payload.data)
+  );
+  return new TextDecoder().decode(data);
+}
+
+function readMeta(): VaultMeta | null {
+  try {
+    return JSON.parse(localStorage.getItem(VAULT_META) || 'null');
+  } catch {
+    return null;
+  }
+}
+
+/** Derive the key for `passphrase`, or null when it doesn't open the vault */
+async function keyForPassphrase(passphrase: string): Promise<CryptoKey | null> {
+  const meta = readMeta();
+  if (!meta) return null;
+  const key = await deriveKey(passphrase, fromBase64(meta.salt), meta.iterations);
+  try {
+    return (await decryptWith(key, meta.check)) === CHECK_TEXT ? key : null;
+  } catch {
+    // AES-GCM rejects the auth tag when the key is wrong
+    return null;
+  }
+}
+
+/** Re-encrypt the cache into localStorage. Writes are chained so they land in order. */
+function persist() {
+  const key = cryptoKey;
+  const snapshot = JSON.stringify(cache);
+  pendingWrite = pendingWrite
+    .then(async () => {
+      if (!key) return;
+      localStorage.setItem(VAULT_DATA, JSON.stringify(await encryptWith(key, snapshot)));
+    })
+    .catch(e => console.error('Failed to write vault:', e));
+}
+
+/** Resolves once every queued vault write has reached localStorage */
+export function flushVault(): Promise<void> {
+  return pendingWrite;
+}
+
+/** Encrypt text with the vault key, e.g. memory records in IndexedDB */
+export async function encryptText(text: string): Promise<EncryptedText> {
+  if (!cryptoKey) throw new Error('Vault is locked');
+  return encryptWith(cryptoKey, text);
+}
+
+/**
+ * Decrypt text sealed with `encryptText`.
+ * @throws When the vault is locked or the data was sealed with another key
+ */
+export async function decryptText(payload: EncryptedText): Promise<string> {
+  if (!cryptoKey) throw new Error('Vault is locked');
+  return decryptWith(cryptoKey, payload);
+}
+
+/**
+ * Turn the vault on: move every protected key out of plaintext storage and
+ * leave it unlocked. Memory records in IndexedDB are sealed separately.
+ */
+export async function enableVault(passphrase: string): Promise<void> {
+  if (isVaultEnabled()) throw new Error('Vault is already enabled');
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+
+  const values: Record<string, string> = {};
+  for (let i = 0; i < localStorage.length; i++) {
+    const name = localStorage.key(i);
+    if (name && isProtectedKey(name)) values[name] = localStorage.getItem(name) ?? '';
+  }
+
+  // Settings saved by older versions may still hold keys; move the Brave key over
+  const settings = JSON.parse(localStorage.getItem('vivica-settings') || '{}');
+  if (settings.braveApiKey && !values.braveApiKey) values.braveApiKey = settings.braveApiKey;
+  SECRET_SETTINGS.forEach(field => delete settings[field]);
+
+  const meta: VaultMeta = {
+    version: 1,
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    check: await encryptWith(key, CHECK_TEXT),
+  };
+  // Ciphertext first so a crash part-way never loses the plaintext copy
+  localStorage.setItem(VAULT_DATA, JSON.stringify(await encryptWith(key, JSON.stringify(values))));
+  localStorage.setItem(VAULT_META, JSON.stringify(meta));
+  localStorage.setItem('vivica-settings', JSON.stringify(settings));
+  Object.keys(values).forEach(name => localStorage.removeItem(name));
+
+  cryptoKey = key;
+  cache = values;
+}
+
+/** Open the vault. Returns false when the passphrase is wrong. */
+export async function unlockVault(passphrase: string): Promise<boolean> {
+  const key = await keyForPassphrase(passphrase);
+  if (!key) return false;
+  const raw = localStorage.getItem(VAULT_DATA);
+  cache = raw ? JSON.parse(await decryptWith(key, JSON.parse(raw))) : {};
+  cryptoKey = key;
+  return true;
+}
+
+export async function verifyPassphrase(passphrase: string): Promise<boolean> {
+  return (await keyForPassphrase(passphrase)) !== null;
+}
+
+/**
+ * Turn the vault off and put its contents back in plaintext localStorage.
+ * Sealed memories must be opened first, while the key is still available.
+ */
+export async function disableVault(): Promise<void> {
+  if (!cache) throw new Error('Vault is locked');
+  await flushVault();
+  Object.entries(cache).forEach(([name, value]) => localStorage.setItem(name, value));
+  VAULT_KEYS.forEach(name => localStorage.removeItem(name));
+  cryptoKey = null;
+  cache = null;
+}
+
+/** Forget the key and decrypted values, then tell the app to show the lock screen */
+export async function lockVault(): Promise<void> {
+  await flushVault();
+  cryptoKey = null;
+  cache = null;
+  window.dispatchEvent(new Event('vaultLocked'));
+}
+
+/** Throw away an unopenable vault. Everything it held is lost. */
+export function resetVault() {
+  VAULT_KEYS.forEach(name => localStorage.removeItem(name));
+  cryptoKey = null;
+  cache = null;
+}
+
+export function getAutoLockMinutes(): number {
+  try {
+    const settings = JSON.parse(localStorage.getItem('vivica-settings') || '{}');
+    return typeof settings.vaultAutoLockMinutes === 'number'
+      ? settings.vaultAutoLockMinutes
+      : DEFAULT_AUTO_LOCK_MINUTES;
+  } catch {
+    return DEFAULT_AUTO_LOCK_MINUTES;
+  }
+}
+
+/**
+ * Lock the vault after the `vaultAutoLockMinutes` setting passes without
+ * user input. The setting is re-read on every tick; 0 disables auto-lock.
+ * @returns Cleanup that removes the listeners and timer
+ */
+export function startAutoLock(): () => void {
+  let lastActivity = Date.now();
+  const touch = () => { lastActivity = Date.now(); };
+  ACTIVITY_EVENTS.forEach(e => window.addEventListener(e, touch, { passive: true }));
+  const timer = window.setInterval(() => {
+    const minutes = getAutoLockMinutes();
+    if (minutes > 0 && isVaultUnlocked() && Date.now() - lastActivity >= minutes * 60_000) {
+      lockVault();
+    }
+  }, 15_000);
+  return () => {
+    ACTIVITY_EVENTS.forEach(e => window.removeEventListener(e, touch));
+    window.clearInterval(timer);
+  };
+}
+
+/** Keys visible through `secureStorage`: plaintext keys plus the unlocked vault */
+function visibleKeys(): string[] {
+  const keys: string[] = [];
+  const vaulted = isVaultEnabled();
+  for (let i = 0; i < localStorage.length; i++) {
+    const name = localStorage.key(i);
+    if (!name || VAULT_KEYS.includes(name) || (vaulted && isProtectedKey(name))) continue;
+    keys.push(name);
+  }
+  return vaulted && cache ? [...keys, ...Object.keys(cache)] : keys;
+}
+
+/**
+ * Drop-in for `localStorage`. Protected keys go through the vault when it is
+ * enabled; everything else passes straight through. While locked, protected
+ * reads return null and writes are refused.
+ */
+export const secureStorage: Storage = {
+  get length() {
+    return visibleKeys().length;
+  },
+  key(index: number) {
+    return visibleKeys()[index] ?? null;
+  },
+  getItem(key: string) {
+    if (!isProtectedKey(key) || !isVaultEnabled()) return localStorage.getItem(key);
+    return cache?.[key] ?? null;
+  },
+  setItem(key: string, value: string) {
+    if (!isProtectedKey(key) || !isVaultEnabled()) {
+      localStorage.setItem(key, value);
+      return;
+    }
+    if (!cache) throw new Error('Vault is locked');
+    cache[key] = String(value);
+    persist();
+  },
+  removeItem(key: string) {
+    if (!isProtectedKey(key) || !isVaultEnabled()) {
+      localStorage.removeItem(key);
+      return;
+    }
+    if (!cache || !(key in cache)) return;
+    delete cache[key];
+    persist();
+  },
+  clear() {
+    // Takes the vault with it, as clearing localStorage always did
+    localStorage.clear();
+    cryptoKey = null;
+    cache = null;
+  },
+};
@@ -0,0 +1,135 @@
+import { tokenize, hashString } from '@/utils/textUtils';
+import {
+  getAllMessagesFromDb,
+  getMessagesByIds,
+  getAllSearchDocs,
+  updateSearchIndex,
+  findSearchTerms,
+  type MessageRecord,
+  type SearchDoc
+} from '@/utils/indexedDb';
+import type { SearchHit, SearchRequest, SearchResponse } from '@/services/messageSearch';
+
+// Maintains the inverted message index and answers queries against it.
+// Driven by services/messageSearch.ts.
+
+const ctx = self as unknown as Worker;
+
+/** Characters of context kept before the first match in a snippet */
+const SNIPPET_LEAD = 40;
+const SNIPPET_LENGTH = 160;
+
+function indexedText(message: MessageRecord): string {
+  return [message.codeContent, message.content].filter(Boolean).join('\n');
+}
+
+/**
+ * Diff the messages store against the indexed docs and index only what
+ * was added, edited or removed since the last sync.
+ */
+async function sync() {
+  const [messages, docs] = await Promise.all([getAllMessagesFromDb(), getAllSearchDocs()]);
+  const existing = new Map(docs.map(d => [d.messageId, d]));
+  const live = new Set<string>();
+  const added: SearchDoc[] = [];
+  const removed: string[] = [];
+
+  for (const message of messages) {
+    // Error placeholders aren't worth finding
+    if (message.failed) continue;
+    live.add(message.id);
+    const text = indexedText(message);
+    const hash = hashString(text).toString(16);
+    const doc = existing.get(message.id);
+    if (doc?.hash === hash) continue;
+    if (doc) removed.push(message.id);
+    added.push({
+      messageId: message.id,
+      conversationId: message.conversationId,
+      hash,
+      terms: [...new Set(tokenize(text))],
+    });
+  }
+  for (const doc of docs) {
+    if (!live.has(doc.messageId)) removed.push(doc.messageId);
+  }
+
+  if (added.length || removed.length) {
+    await updateSearchIndex(added, removed);
+  }
+}
+
+function buildSnippet(text: string, terms: string[]): Pick<SearchHit, 'snippet' | 'highlights'> {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const lower = flat.toLowerCase();
+  const positions = terms.map(t => lower.indexOf(t)).filter(i => i >= 0);
+  const first = positions.length ? Math.min(...positions) : 0;
+
+  const start = Math.max(0, first - SNIPPET_LEAD);
+  const end = Math.min(flat.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+  const snippet = `${prefix}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+
+  const ranges: [number, number][] = [];
+  const snippetLower = snippet.toLowerCase();
+  for (const term of terms) {
+    let at = snippetLower.indexOf(term);
+    while (at !== -1) {
+      ranges.push([at, at + term.length]);
+      at = snippetLower.indexOf(term, at + term.length);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  // Merge overlaps so highlights can be rendered as plain slices
+  const highlights: [number, number][] = [];
+  for (const range of ranges) {
+    const last = highlights[highlights.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else highlights.push([...range]);
+  }
+  return { snippet, highlights };
+}
+
+async function search(query: string, limit: number): Promise<SearchHit[]> {
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0) return [];
+
+  let matches: Set<string> | null = null;
+  for (let i = 0; i < terms.length; i++) {
+    const isLast = i === terms.length - 1;
+    const entries = (await findSearchTerms(terms[i]))
+      .filter(e => isLast || e.term === terms[i]);
+    const ids = new Set(entries.flatMap(e => e.messageIds));
+    matches = matches ? new Set([...matches].filter(id => ids.has(id))) : ids;
+    if (matches.size === 0) return [];
+  }
+
+  const messages = await getMessagesByIds([...matches!]);
+  return messages
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    .slice(0, limit)
+    .map(m => ({
+      messageId: m.id,
+      conversationId: m.conversationId,
+      role: m.role,
+      timestamp: m.timestamp,
+      ...buildSnippet(indexedText(m), terms),
+    }));
+}
+
+ctx.onmessage = async (event: MessageEvent<SearchRequest>) => {
+  const request = event.data;
+  const reply = (response: Omit<SearchResponse, 'id'>) => ctx.postMessage({ ...response, id: request.id });
+  try {
+    if (request.type === 'sync') {
+      await sync();
+      reply({ hits: [] });
+    } else {
+      if (request.sync) await sync();
+      reply({ hits: await search(request.query, request.limit) });
+    }
+  } catch (error) {
+    reply({ error: error instanceof Error ? error.message : String(error) });
+  }
+};
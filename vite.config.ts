@@ -10,7 +10,7 @@ const manifest = JSON.parse(
 );
 
 // https://vitejs.dev/config/
-export default defineConfig(({ mode }) => ({
+export default defineConfig(() => ({
   base: './',
   server: {
     host: "::",
@@ -18,12 +18,18 @@ export default defineConfig(({ mode }) => ({
   },
   plugins: [
     react(),
-    mode === 'development' &&    VitePWA({
+    VitePWA({
       registerType: 'autoUpdate',
+      // main.tsx registers the worker itself
+      injectRegister: false,
       includeAssets: ['robots.txt', 'icons/*', 'uploads/*'],
       manifest,
       workbox: {
-        navigateFallback: 'offline.html'
+        navigateFallback: 'offline.html',
+        // Serve the cached app for reminder links instead of the offline page
+        ignoreURLParametersMatching: [/^utm_/, /^fbclid$/, /^reminder$/],
+        // Notification taps for reminders
+        importScripts: ['reminder-sw.js']
       }
     }),
   ].filter(Boolean),